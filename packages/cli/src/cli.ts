@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { losslessCodec, TrialCodec } from "@jspsych-datamanager/core";
+import { SessionFilter } from "./filter";
+import { FirebaseSource, SupabaseSource, SessionSource } from "./sources";
+import { ExportFormat, exportSessions } from "./format";
+import { verifySessions } from "./verify";
+
+const USAGE = `Usage: jspsych-datamanager export --backend <firebase|supabase> --config <file> [options]
+       jspsych-datamanager verify --backend <firebase|supabase> --config <file> [options]
+
+Commands:
+  export                      Write the trials of all matching sessions as CSV or NDJSON
+  verify                      Check the trials of sessions stored with the integrity option for
+                              gaps, duplicates, reorderings and changed content; writes one
+                              NDJSON report per session and exits with 1 if any session fails
+
+Connection:
+  --backend <name>            "firebase" or "supabase"
+  --config <file>             JSON file with the FirebaseConfig or SupabaseConfig
+  --collection <name>         Firestore collection or Supabase table (default: experiments)
+  --storage-mode <mode>       array|subcollection (Firebase) or column|rows (Supabase)
+  --trials-collection <name>  Trials subcollection or table name
+  --codec <name>              Codec the trials were stored with: "lossless"
+  --emulator <host:port>      Connect to the Firestore emulator
+
+Filters:
+  --version <version>         Only sessions with this version
+  --status <status>           Only sessions with this status, e.g. completed
+  --since <YYYY-MM-DD>        Only sessions started on or after this date
+  --until <YYYY-MM-DD>        Only sessions started on or before this date
+  --where <field=value>       Only sessions whose metadata field has this value (repeatable)
+
+Output:
+  --format <format>           csv (default) or ndjson (export only)
+  --output <file>             Write to a file instead of stdout
+`;
+
+/** Codecs that can be selected with --codec */
+const CODECS: Record<string, TrialCodec> = {
+    lossless: losslessCodec
+};
+
+/**
+ * Runs the command line interface
+ * @param argv The command line arguments without the node and script paths
+ */
+async function main(argv: string[]): Promise<void> {
+    const { positionals, values } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            backend: { type: 'string' },
+            config: { type: 'string' },
+            collection: { type: 'string' },
+            'storage-mode': { type: 'string' },
+            'trials-collection': { type: 'string' },
+            codec: { type: 'string' },
+            emulator: { type: 'string' },
+            version: { type: 'string' },
+            status: { type: 'string' },
+            since: { type: 'string' },
+            until: { type: 'string' },
+            where: { type: 'string', multiple: true },
+            format: { type: 'string', default: 'csv' },
+            output: { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+
+    const command = positionals[0];
+    if (values.help || (command !== 'export' && command !== 'verify')) {
+        process.stdout.write(USAGE);
+        if (!values.help) {
+            process.exitCode = 1;
+        }
+        return;
+    }
+
+    if (values.format !== 'csv' && values.format !== 'ndjson') {
+        throw new Error(`Unknown format "${values.format}", expected csv or ndjson`);
+    }
+    if (values.codec !== undefined && !CODECS[values.codec]) {
+        throw new Error(`Unknown codec "${values.codec}", expected ${Object.keys(CODECS).join(' or ')}`);
+    }
+
+    const source = createSource(values);
+    try {
+        const output = command === 'verify'
+            ? await verify(source, createFilter(values))
+            : await exportSessions(source, createFilter(values), values.format as ExportFormat);
+        if (values.output) {
+            writeFileSync(values.output, output);
+            console.error(`[${command}] Wrote ${values.output}`);
+        } else {
+            process.stdout.write(output);
+        }
+    } finally {
+        await source.close();
+    }
+}
+
+/**
+ * Verifies the matching sessions and sets the exit code if any of them fails
+ * @param source The backend to read from
+ * @param filter The criteria sessions are selected by
+ * @returns One NDJSON report per session
+ */
+async function verify(source: SessionSource, filter: SessionFilter): Promise<string> {
+    const reports = await verifySessions(source, filter);
+    const failed = reports.filter(report => !report.valid).length;
+
+    console.error(`[verify] ${failed} of ${reports.length} sessions failed the integrity check`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+    return reports.map(report => JSON.stringify(report)).join('\n') + (reports.length > 0 ? '\n' : '');
+}
+
+/**
+ * Creates the session source for the selected backend
+ * @param values The parsed options
+ * @returns The session source
+ * @throws {Error} If the backend or configuration is missing or invalid
+ */
+function createSource(values: Record<string, any>): SessionSource {
+    if (!values.config) {
+        throw new Error("Missing --config");
+    }
+
+    const config = JSON.parse(readFileSync(values.config, 'utf8'));
+    const codec = values.codec ? CODECS[values.codec] : undefined;
+
+    switch (values.backend) {
+        case 'firebase':
+            return new FirebaseSource(config, {
+                collectionName: values.collection,
+                storageMode: values['storage-mode'],
+                trialsCollectionName: values['trials-collection'],
+                codec,
+                emulatorHost: values.emulator
+            });
+        case 'supabase':
+            return new SupabaseSource(config, {
+                tableName: values.collection,
+                storageMode: values['storage-mode'],
+                trialsTableName: values['trials-collection'],
+                codec
+            });
+        default:
+            throw new Error(`Unknown backend "${values.backend}", expected firebase or supabase`);
+    }
+}
+
+/**
+ * Creates the session filter from the parsed options
+ * @param values The parsed options
+ * @returns The session filter
+ * @throws {Error} If a --where option is not of the form field=value
+ */
+function createFilter(values: Record<string, any>): SessionFilter {
+    const where: Record<string, string> = {};
+
+    for (const condition of values.where ?? []) {
+        const separator = condition.indexOf('=');
+        if (separator <= 0) {
+            throw new Error(`Invalid --where "${condition}", expected field=value`);
+        }
+        where[condition.slice(0, separator)] = condition.slice(separator + 1);
+    }
+
+    return {
+        version: values.version,
+        status: values.status,
+        since: values.since,
+        until: values.until,
+        where
+    };
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+});
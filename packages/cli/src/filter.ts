@@ -0,0 +1,40 @@
+import { ExperimentMetadata } from "@jspsych-datamanager/core";
+
+/**
+ * Interface for the criteria sessions are selected by
+ */
+export interface SessionFilter {
+    /** Only sessions with this experiment version */
+    version?: string;
+    /** Only sessions with this status, e.g. "completed" (requires the `lifecycle` option) */
+    status?: string;
+    /** Only sessions started on or after this date (YYYY-MM-DD) */
+    since?: string;
+    /** Only sessions started on or before this date (YYYY-MM-DD) */
+    until?: string;
+    /** Only sessions whose metadata fields equal these values (compared as strings) */
+    where?: Record<string, string>;
+}
+
+/**
+ * Checks whether a session matches a filter
+ * @param metadata The session metadata
+ * @param filter The filter
+ * @returns True if the session matches every criterion of the filter
+ */
+export function matchesFilter(metadata: Partial<ExperimentMetadata>, filter: SessionFilter): boolean {
+    if (filter.version !== undefined && String(metadata.version) !== filter.version) {
+        return false;
+    }
+    if (filter.status !== undefined && metadata.status !== filter.status) {
+        return false;
+    }
+    if (filter.since !== undefined && !(typeof metadata.date === 'string' && metadata.date >= filter.since)) {
+        return false;
+    }
+    if (filter.until !== undefined && !(typeof metadata.date === 'string' && metadata.date <= filter.until)) {
+        return false;
+    }
+
+    return Object.entries(filter.where ?? {}).every(([field, value]) => String(metadata[field]) === value);
+}
@@ -0,0 +1,48 @@
+import { StoredSession, toLongFormatRows, toCsv } from "@jspsych-datamanager/core";
+import { SessionFilter } from "./filter";
+import { SessionSource } from "./sources";
+
+/**
+ * Output formats of the export
+ * - "csv": one long-format CSV, one row per trial with the session metadata columns
+ * - "ndjson": the same rows as newline-delimited JSON
+ */
+export type ExportFormat = 'csv' | 'ndjson';
+
+/**
+ * Formats sessions as long-format CSV or newline-delimited JSON
+ * @param sessions The sessions to format
+ * @param format The output format
+ * @returns The formatted text
+ */
+export function formatSessions(sessions: StoredSession[], format: ExportFormat): string {
+    const rows = toLongFormatRows(sessions);
+
+    if (format === 'ndjson') {
+        return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+    }
+    return toCsv(rows);
+}
+
+/**
+ * Reads the matching sessions from a backend and formats them
+ *
+ * @example
+ * ```typescript
+ * const source = new SupabaseSource(supabaseConfig, { storageMode: "rows" });
+ * const csv = await exportSessions(source, { status: "completed" }, "csv");
+ * await source.close();
+ * ```
+ * @param source The backend to read from
+ * @param filter The criteria sessions are selected by
+ * @param format The output format (default: "csv")
+ * @returns The formatted text
+ */
+export async function exportSessions(
+    source: SessionSource,
+    filter: SessionFilter = {},
+    format: ExportFormat = 'csv'
+): Promise<string> {
+    const sessions = await source.fetchSessions(filter);
+    return formatSessions(sessions, format);
+}
@@ -0,0 +1,8 @@
+// Export session filters from filter.ts
+export * from './filter';
+// Export the Firebase and Supabase session sources from sources.ts
+export * from './sources';
+// Export the output formats from format.ts
+export * from './format';
+// Export session integrity verification from verify.ts
+export * from './verify';
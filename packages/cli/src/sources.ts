@@ -0,0 +1,232 @@
+import { initializeApp, deleteApp, FirebaseApp } from "firebase/app";
+import { getFirestore, connectFirestoreEmulator, collection, getDocs, Firestore } from "firebase/firestore";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { ExperimentData, StoredSession, TrialCodec, TrialData, decodeExperimentData } from "@jspsych-datamanager/core";
+import { FirebaseConfig, FirestoreStorageMode, reassembleExperimentData, restoreFlattenedArrays } from "@jspsych-datamanager/firebase";
+import { SupabaseConfig, SupabaseStorageMode, getDefaultTrialsTableName } from "@jspsych-datamanager/supabase";
+import { SessionFilter, matchesFilter } from "./filter";
+
+/**
+ * Interface for a backend that stored sessions can be read from
+ */
+export interface SessionSource {
+    /**
+     * Reads all sessions that match a filter, with their trials in order
+     * @param filter The criteria sessions are selected by
+     * @returns The matching sessions
+     */
+    fetchSessions(filter?: SessionFilter): Promise<StoredSession[]>;
+
+    /**
+     * Releases the connection to the backend
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * Options for reading sessions from Firestore
+ */
+export interface FirebaseSourceOptions {
+    /** Name of the Firestore collection (default: "experiments") */
+    collectionName?: string;
+    /** How the trials were stored (default: "array") */
+    storageMode?: FirestoreStorageMode;
+    /** Name of the trials subcollection in "subcollection" mode (default: "trials") */
+    trialsCollectionName?: string;
+    /** Codec the trials were encoded with (default: none, arrays flattened by FirebaseManager are restored) */
+    codec?: TrialCodec;
+    /** Firestore emulator to connect to, e.g. "localhost:8080" (optional) */
+    emulatorHost?: string;
+}
+
+/**
+ * Reads sessions stored by FirebaseManager
+ *
+ * Uses the Firebase web SDK, so the security rules must allow reading the
+ * collection with the given configuration (or use the emulator).
+ */
+export class FirebaseSource implements SessionSource {
+    private readonly app: FirebaseApp;
+    private readonly db: Firestore;
+    private readonly collectionName: string;
+
+    /**
+     * Creates a new FirebaseSource instance
+     * @param config Firebase configuration object
+     * @param options Additional options
+     */
+    constructor(config: FirebaseConfig, private readonly options: FirebaseSourceOptions = {}) {
+        this.app = initializeApp(config, `jspsych-datamanager-export-${Date.now()}`);
+        this.db = getFirestore(this.app);
+        this.collectionName = options.collectionName || "experiments";
+
+        if (options.emulatorHost) {
+            const [host, port] = options.emulatorHost.split(':');
+            connectFirestoreEmulator(this.db, host, Number(port) || 8080);
+        }
+    }
+
+    /**
+     * Reads all sessions that match a filter, with their trials in order
+     * @param filter The criteria sessions are selected by
+     * @returns The matching sessions
+     * @throws {Error} If reading from Firestore fails
+     */
+    public async fetchSessions(filter: SessionFilter = {}): Promise<StoredSession[]> {
+        const snapshot = await getDocs(collection(this.db, this.collectionName));
+        const sessions: StoredSession[] = [];
+
+        for (const sessionDoc of snapshot.docs) {
+            let data = sessionDoc.data() as ExperimentData;
+            if (!matchesFilter(data, filter)) {
+                continue;
+            }
+
+            if (this.options.storageMode === 'subcollection') {
+                data = await reassembleExperimentData(this.db, this.collectionName, sessionDoc.id, {
+                    trialsCollectionName: this.options.trialsCollectionName
+                });
+            }
+
+            sessions.push({ id: sessionDoc.id, data: this.decode(data) });
+        }
+
+        return sessions;
+    }
+
+    /**
+     * Deletes the Firebase app so the process can exit
+     */
+    public async close(): Promise<void> {
+        await deleteApp(this.app);
+    }
+
+    /**
+     * Decodes the trials of a stored session
+     * @param data The stored experiment data
+     * @returns The experiment data with decoded trials
+     */
+    private decode(data: ExperimentData): ExperimentData {
+        if (this.options.codec) {
+            return decodeExperimentData(data, this.options.codec);
+        }
+        return { ...data, trials: (data.trials || []).map(trial => restoreFlattenedArrays(trial)) };
+    }
+}
+
+/**
+ * Options for reading sessions from Supabase
+ */
+export interface SupabaseSourceOptions {
+    /** Name of the session table (default: "experiments") */
+    tableName?: string;
+    /** How the trials were stored (default: "column") */
+    storageMode?: SupabaseStorageMode;
+    /** Name of the trials table in "rows" mode (default: "<tableName>_trials") */
+    trialsTableName?: string;
+    /** Codec the trials were encoded with (optional) */
+    codec?: TrialCodec;
+    /** Number of rows requested per page (default: 1000) */
+    pageSize?: number;
+}
+
+/**
+ * Reads sessions stored by SupabaseManager
+ *
+ * The key in the configuration needs read access to the tables; the
+ * policies from getSupabasePolicySql allow that for the anon key. Use the
+ * service role key with stricter policies.
+ */
+export class SupabaseSource implements SessionSource {
+    private readonly supabase: SupabaseClient;
+    private readonly tableName: string;
+    private readonly trialsTableName: string;
+    private readonly pageSize: number;
+
+    /**
+     * Creates a new SupabaseSource instance
+     * @param config Supabase configuration object
+     * @param options Additional options
+     */
+    constructor(config: SupabaseConfig, private readonly options: SupabaseSourceOptions = {}) {
+        this.supabase = createClient(config.url, config.anonKey, { auth: { persistSession: false } });
+        this.tableName = options.tableName || "experiments";
+        this.trialsTableName = options.trialsTableName || getDefaultTrialsTableName(this.tableName);
+        this.pageSize = options.pageSize || 1000;
+    }
+
+    /**
+     * Reads all sessions that match a filter, with their trials in order
+     * @param filter The criteria sessions are selected by
+     * @returns The matching sessions
+     * @throws {Error} If reading from Supabase fails
+     */
+    public async fetchSessions(filter: SessionFilter = {}): Promise<StoredSession[]> {
+        const rows = await this.fetchAll(this.tableName, query => query.order('created_at').order('id'));
+        const sessions: StoredSession[] = [];
+
+        for (const { id, ...row } of rows) {
+            if (!matchesFilter(row, filter)) {
+                continue;
+            }
+
+            const trials: TrialData[] = this.options.storageMode === 'rows'
+                ? (await this.fetchAll(this.trialsTableName, query => query
+                    .eq('session_id', id)
+                    .order('trial_index'))).map(trialRow => this.withServerTime(trialRow))
+                : row.trials || [];
+
+            const data = { ...row, trials } as ExperimentData;
+            sessions.push({
+                id: String(id),
+                data: this.options.codec ? decodeExperimentData(data, this.options.codec) : data
+            });
+        }
+
+        return sessions;
+    }
+
+    /**
+     * Nothing to release for the Supabase client
+     */
+    public async close(): Promise<void> {}
+
+    /**
+     * Gets the trial of a trials table row
+     *
+     * Trials stamped by the `integrity` option get the row's `created_at`
+     * as their server timestamp.
+     * @param trialRow The row
+     * @returns The stored trial
+     */
+    private withServerTime(trialRow: Record<string, any>): TrialData {
+        return '_sequence' in trialRow.data
+            ? { ...trialRow.data, _server_time: trialRow.created_at }
+            : trialRow.data;
+    }
+
+    /**
+     * Reads all rows of a table page by page
+     * @param table The table name
+     * @param refine Adds filters and ordering to the query
+     * @returns All rows
+     * @throws {Error} If a query fails
+     */
+    private async fetchAll(table: string, refine: (query: any) => any): Promise<Record<string, any>[]> {
+        const rows: Record<string, any>[] = [];
+
+        for (let from = 0; ; from += this.pageSize) {
+            const { data, error } = await refine(this.supabase.from(table).select('*'))
+                .range(from, from + this.pageSize - 1);
+
+            if (error) {
+                throw new Error(`Failed to read table ${table}: ${error.message}`);
+            }
+
+            rows.push(...data);
+            if (data.length < this.pageSize) {
+                return rows;
+            }
+        }
+    }
+}
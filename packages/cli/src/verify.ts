@@ -0,0 +1,32 @@
+import { IntegrityReport, verifyTrials } from "@jspsych-datamanager/core";
+import { SessionFilter } from "./filter";
+import { SessionSource } from "./sources";
+
+/**
+ * Interface for the integrity report of one stored session
+ */
+export interface SessionIntegrityReport extends IntegrityReport {
+    /** Backend identifier of the session */
+    id: string;
+}
+
+/**
+ * Reads the matching sessions from a backend and verifies their trials
+ *
+ * Only sessions written with the `integrity` option carry the stamps that
+ * are checked; the trials of other sessions are counted as unstamped.
+ *
+ * @example
+ * ```typescript
+ * const source = new FirebaseSource(firebaseConfig, { storageMode: "subcollection" });
+ * const reports = await verifySessions(source, { status: "completed" });
+ * await source.close();
+ * ```
+ * @param source The backend to read from
+ * @param filter The criteria sessions are selected by
+ * @returns One report per session
+ */
+export async function verifySessions(source: SessionSource, filter: SessionFilter = {}): Promise<SessionIntegrityReport[]> {
+    const sessions = await source.fetchSessions(filter);
+    return sessions.map(session => ({ id: session.id, ...verifyTrials(session.data.trials || []) }));
+}
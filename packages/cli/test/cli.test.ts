@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { stampTrial, TrialData } from '@jspsych-datamanager/core';
+import { exportSessions, matchesFilter, SupabaseSource, verifySessions } from '../src';
+import { PostgrestStandIn, startPostgrestStandIn } from '../../supabase/test/postgrest';
+
+let standIn: PostgrestStandIn;
+
+/**
+ * Stamps trials with consecutive sequence numbers, as the `integrity` option does
+ * @param count Number of trials
+ * @returns The stamped trials
+ */
+function stampedTrials(count: number): TrialData[] {
+    return Array.from({ length: count }, (_, index) => stampTrial({ trial_type: 'html', trial_index: index, rt: 400 + index }, index));
+}
+
+beforeAll(async () => {
+    standIn = await startPostgrestStandIn();
+
+    const changed = stampedTrials(3);
+    changed[1] = { ...changed[1], rt: 1 };
+    const gap = stampedTrials(3).filter(trial => trial._sequence !== 1);
+
+    standIn.tables.set('experiments', [
+        { id: 'valid', version: '1.0.0', status: 'completed', date: '2026-03-01', condition: 'a', created_at: '2026-03-01T10:00:00Z', trials: stampedTrials(3) },
+        { id: 'changed', version: '1.0.0', status: 'completed', date: '2026-03-05', condition: 'b', created_at: '2026-03-05T10:00:00Z', trials: changed },
+        { id: 'gap', version: '1.1.0', status: 'abandoned', date: '2026-03-10', condition: 'a', created_at: '2026-03-10T10:00:00Z', trials: gap },
+        { id: 'unstamped', version: '1.1.0', status: 'completed', date: '2026-03-12', condition: 'a', created_at: '2026-03-12T10:00:00Z', trials: [{ trial_type: 'html', trial_index: 0 }] }
+    ]);
+});
+
+afterAll(async () => {
+    await standIn.close();
+});
+
+/**
+ * Creates a source for the stand-in
+ * @returns The source
+ */
+function createSource(): SupabaseSource {
+    return new SupabaseSource({ url: standIn.url, anonKey: 'anon-key' });
+}
+
+describe('verify', () => {
+    it('reports changed content, gaps and unstamped trials per session', async () => {
+        const reports = await verifySessions(createSource());
+
+        expect(reports.map(report => [report.id, report.valid])).toEqual([
+            ['valid', true],
+            ['changed', false],
+            ['gap', false],
+            ['unstamped', false]
+        ]);
+        expect(reports[1].hashMismatches).toEqual([1]);
+        expect(reports[2].missing).toEqual([1]);
+        expect(reports[3]).toMatchObject({ trialCount: 1, unstamped: 1 });
+    });
+
+    it('checks only the sessions that match the filter', async () => {
+        const reports = await verifySessions(createSource(), { status: 'completed', until: '2026-03-05' });
+        expect(reports.map(report => report.id)).toEqual(['valid', 'changed']);
+    });
+});
+
+describe('filters', () => {
+    it('select sessions by version, status, date range and metadata fields', async () => {
+        const ids = async (filter: Parameters<typeof verifySessions>[1]) =>
+            (await createSource().fetchSessions(filter)).map(session => session.id);
+
+        expect(await ids({ version: '1.1.0' })).toEqual(['gap', 'unstamped']);
+        expect(await ids({ status: 'abandoned' })).toEqual(['gap']);
+        expect(await ids({ since: '2026-03-05', until: '2026-03-10' })).toEqual(['changed', 'gap']);
+        expect(await ids({ where: { condition: 'a' }, status: 'completed' })).toEqual(['valid', 'unstamped']);
+        expect(await ids({ where: { condition: 'c' } })).toEqual([]);
+    });
+
+    it('compare metadata fields as strings and need a date for date ranges', () => {
+        expect(matchesFilter({ version: 2 as any, block: 3 }, { version: '2', where: { block: '3' } })).toBe(true);
+        expect(matchesFilter({}, { since: '2026-01-01' })).toBe(false);
+    });
+
+    it('apply to exports', async () => {
+        const ndjson = await exportSessions(createSource(), { version: '1.0.0', where: { condition: 'b' } }, 'ndjson');
+        const lines = ndjson.trim().split('\n').map(line => JSON.parse(line));
+
+        expect(lines).toHaveLength(3);
+        expect(lines.every(line => line.session_id === 'changed')).toBe(true);
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * Measures main-thread blocking per trial in the "immediate" and "idle"
+ * scheduling modes, with MockDataManager, localStorage persistence, the
+ * lossless codec and integrity stamps.
+ *
+ * Usage: node bench/main-thread.mjs [--trials 50] [--payload 100000] [--interval 100] [--budget 5]
+ *
+ * Exits with 1 if the 95th percentile onset delay in "idle" mode exceeds
+ * --budget milliseconds, so the script can guard against regressions. Node.js
+ * has no rendering and no idle periods like a browser, so the numbers only
+ * compare versions of this package and do not predict browser onset delays.
+ * `pnpm bench` builds the package first.
+ */
+import { parseArgs } from "node:util";
+import { MockDataManager, losslessCodec, runMainThreadBenchmark } from "../dist/index.mjs";
+
+const { values } = parseArgs({
+    options: {
+        trials: { type: 'string', default: '50' },
+        payload: { type: 'string', default: '100000' },
+        interval: { type: 'string', default: '100' },
+        budget: { type: 'string' }
+    }
+});
+
+// A localStorage stand-in, so the write queue serializes trials as in a browser
+const items = new Map();
+globalThis.window = {
+    localStorage: {
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => items.set(key, String(value)),
+        removeItem: key => items.delete(key)
+    }
+};
+
+// The managers log every write
+console.log = () => {};
+
+const format = summary => `mean ${summary.mean.toFixed(2)}  p50 ${summary.p50.toFixed(2)}  p95 ${summary.p95.toFixed(2)}  max ${summary.max.toFixed(2)}`;
+const results = {};
+
+for (const mode of ['immediate', 'idle']) {
+    items.clear();
+    const result = await runMainThreadBenchmark(() => new MockDataManager({
+        latency: 20,
+        codec: losslessCodec,
+        integrity: true,
+        scheduling: { mode },
+        queue: { storageKey: `bench-${mode}` }
+    }), {
+        trialCount: Number(values.trials),
+        payloadBytes: Number(values.payload),
+        interTrialMs: Number(values.interval)
+    });
+    results[mode] = result;
+
+    process.stdout.write(`${mode} (${result.trialCount} trials of ${result.payloadBytes} bytes)\n`);
+    process.stdout.write(`  on_data_update (ms)  ${format(result.callback)}\n`);
+    process.stdout.write(`  onset delay (ms)     ${format(result.onsetDelay)}\n`);
+    process.stdout.write(`  drain (ms)           ${result.drainMs.toFixed(2)}\n`);
+}
+
+process.stdout.write(`Node.js regression check only; measure onset delays in a browser with runMainThreadBenchmark()\n`);
+
+if (values.budget !== undefined && results.idle.onsetDelay.p95 > Number(values.budget)) {
+    process.stderr.write(`Onset delay p95 ${results.idle.onsetDelay.p95.toFixed(2)}ms exceeds the budget of ${values.budget}ms\n`);
+    process.exitCode = 1;
+}
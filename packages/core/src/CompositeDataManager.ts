@@ -0,0 +1,378 @@
+import { DataManager, ExperimentData, TrialData, BaseManagerOptions } from './DataManager';
+import { QueueStatus } from './WriteQueue';
+
+/**
+ * How CompositeDataManager writes to its backends
+ * - "all": every backend must store each trial
+ * - "fallback": the first backend that succeeds, in order, stores each trial
+ * - "quorum": at least `quorum` backends must store each trial
+ */
+export type CompositeMode = 'all' | 'fallback' | 'quorum';
+
+/**
+ * Options specific to CompositeDataManager initialization
+ */
+export interface CompositeManagerOptions extends BaseManagerOptions {
+    /** How trials are written to the backends (default: "all") */
+    mode?: CompositeMode;
+    /** Number of backends that must succeed in "quorum" mode (default: majority) */
+    quorum?: number;
+    /** Longest time in milliseconds the finish callback waits for the backends (default: 30000) */
+    finishTimeoutMs?: number;
+}
+
+/**
+ * Interface for a backend of CompositeDataManager with an explicit name
+ */
+export interface NamedManager {
+    /** Name the backend is reported under, e.g. "supabase" */
+    name: string;
+    /** The manager */
+    manager: DataManager;
+}
+
+/**
+ * Interface for the operation count of a single backend
+ */
+export interface BackendOperations {
+    /** Name of the backend, as passed to the constructor or "backend-<index>" */
+    name: string;
+    /** Number of operations the backend performed */
+    operations: number;
+}
+
+/**
+ * Interface for the write status of a single backend
+ */
+export interface BackendStatus extends QueueStatus {
+    /** Name of the backend, as passed to the constructor or "backend-<index>" */
+    name: string;
+    /** Whether the backend was initialized; backends that were not receive no trials */
+    initialized: boolean;
+}
+
+/**
+ * Trials a backend missed in "quorum" mode and retries in the background
+ */
+interface CatchUp {
+    /** Number of trials waiting to be retried */
+    pending: number;
+    /** Number of trials that ran out of attempts */
+    failed: number;
+    /** Resolves once all retries scheduled so far have finished */
+    done: Promise<void>;
+}
+
+/**
+ * A data manager that fans writes out to several other data managers
+ *
+ * Trials go through this manager's own write queue and are then written to
+ * the wrapped managers according to the mode. Backends that already stored
+ * a trial are skipped when a failed write is retried, and backends that
+ * could not be initialized are left out. In "quorum" mode, backends that
+ * missed a batch retry it in the background, with the backoff of the
+ * `queue` options, once the quorum is reached; these retries are kept in
+ * memory only.
+ *
+ * @example
+ * ```typescript
+ * const dataManager = new CompositeDataManager([
+ *     { name: "supabase", manager: new SupabaseManager(supabaseConfig) },
+ *     { name: "backup", manager: new LocalManager({ storage: "indexedDB" }) }
+ * ], { mode: "fallback" });
+ * ```
+ */
+export class CompositeDataManager extends DataManager {
+    private readonly managers: DataManager[];
+    private readonly names: string[];
+    private readonly mode: CompositeMode;
+    private readonly quorum: number;
+    private readonly finishTimeoutMs: number;
+    private readonly maxAttempts: number;
+    private readonly initialDelay: number;
+    private readonly maxDelay: number;
+    /** Whether each backend was initialized */
+    private readonly initialized: boolean[];
+    /** Trials each backend missed in "quorum" mode */
+    private readonly catchUps: CatchUp[];
+    /** Backends (by index) that already stored a trial, kept across retries */
+    private readonly storedBy: WeakMap<TrialData, Set<number>> = new WeakMap();
+
+    /**
+     * Creates a new CompositeDataManager instance
+     * @param managers The managers to write to, optionally with a name; in "fallback" mode, the first is the primary
+     * @param options Additional options for initialization
+     */
+    constructor(managers: (DataManager | NamedManager)[], options: CompositeManagerOptions = {}) {
+        super(options.metadata, options);
+
+        if (managers.length === 0) {
+            throw new Error("CompositeDataManager needs at least one manager");
+        }
+
+        // Class names are mangled by minifiers, so backends are named explicitly or by position
+        this.managers = managers.map(entry => entry instanceof DataManager ? entry : entry.manager);
+        this.names = managers.map((entry, index) => entry instanceof DataManager ? `backend-${index}` : entry.name);
+        this.mode = options.mode || "all";
+        this.quorum = Math.min(options.quorum ?? Math.floor(managers.length / 2) + 1, managers.length);
+        this.finishTimeoutMs = options.finishTimeoutMs ?? 30000;
+        this.maxAttempts = options.queue?.maxAttempts ?? 5;
+        this.initialDelay = options.queue?.initialDelay ?? 1000;
+        this.maxDelay = options.queue?.maxDelay ?? 30000;
+        this.initialized = managers.map(() => false);
+        this.catchUps = managers.map(() => ({ pending: 0, failed: 0, done: Promise.resolve() }));
+    }
+
+    /**
+     * Initializes the experiment in every backend
+     *
+     * If initialization is retried, only the backends that failed are initialized again.
+     * @param additionalData Additional data to include in the experiment document
+     * @throws {Error} If fewer backends than the mode requires could be initialized
+     */
+    public async initializeExperiment(additionalData: Partial<ExperimentData> = {}): Promise<void> {
+        await this.checkDuplicateSession();
+
+        const results = await Promise.allSettled(
+            this.managers.map((manager, index) => this.initialized[index]
+                ? Promise.resolve()
+                : manager.initializeExperiment({ ...this.metadata, ...additionalData }))
+        );
+
+        results.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                console.error(`[CompositeDataManager] Error initializing backend ${this.names[index]}, it will receive no trials:`, result.reason);
+            } else {
+                this.initialized[index] = true;
+            }
+        });
+
+        const succeeded = this.initialized.filter(Boolean).length;
+        if (succeeded < this.getRequiredSuccesses()) {
+            throw new Error(`Failed to initialize experiment: only ${succeeded} of ${results.length} backends initialized`);
+        }
+
+        console.log(`[CompositeDataManager] Initialized ${succeeded} of ${results.length} backends`);
+        // The composite session cannot be resumed, so trials queued in earlier page loads are never replayed into it
+        this.startWriteQueue(`composite-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`);
+    }
+
+    /**
+     * Adds a new trial to the backends according to the mode
+     * @param trialData The trial data to add
+     * @throws {Error} If fewer backends than the mode requires stored the trial
+     */
+    public async addTrialData(trialData: TrialData): Promise<void> {
+        await this.addTrialBatch([trialData]);
+    }
+
+    /**
+     * Adds several trials to the backends according to the mode
+     * @param trials The trials to add, in order
+     * @throws {Error} If fewer backends than the mode requires stored the trials
+     */
+    public async addTrialBatch(trials: TrialData[]): Promise<void> {
+        if (this.mode === 'fallback') {
+            await this.writeWithFallback(trials);
+            return;
+        }
+
+        const indices = this.getInitializedIndices();
+        const results = await Promise.allSettled(indices.map(index => this.writeToBackend(index, trials)));
+        const failedIndices = indices.filter((_, i) => results[i].status === 'rejected');
+        const succeeded = indices.length - failedIndices.length;
+
+        if (succeeded < this.getRequiredSuccesses()) {
+            throw new Error(`Failed to store trial data: only ${succeeded} of ${this.managers.length} backends succeeded`);
+        }
+
+        // Quorum reached: the remaining backends retry the batch as it is, without processing it again
+        for (const index of failedIndices) {
+            console.warn(`[CompositeDataManager] Backend ${this.names[index]} failed, retrying its trials in the background`);
+            this.catchUp(index, trials);
+        }
+    }
+
+    /**
+     * Gets the total number of operations performed by all backends
+     * @returns The sum of the backends' operation counts
+     */
+    public getNumberOfOperations(): number {
+        return this.managers.reduce((total, manager) => total + manager.getNumberOfOperations(), 0);
+    }
+
+    /**
+     * Gets the number of operations performed by each backend
+     * @returns The operation counts, in the order the managers were passed
+     */
+    public getOperationsPerBackend(): BackendOperations[] {
+        return this.managers.map((manager, index) => ({
+            name: this.names[index],
+            operations: manager.getNumberOfOperations()
+        }));
+    }
+
+    /**
+     * Gets the number of trials each backend still has to write or gave up on
+     *
+     * Counts the backend's own write queue and, in "quorum" mode, the
+     * missed trials it retries in the background.
+     * @returns The statuses, in the order the managers were passed
+     */
+    public getStatusPerBackend(): BackendStatus[] {
+        return this.managers.map((manager, index) => {
+            const status = manager.getQueueStatus();
+            return {
+                name: this.names[index],
+                initialized: this.initialized[index],
+                pending: status.pending + this.catchUps[index].pending,
+                failed: status.failed + this.catchUps[index].failed
+            };
+        });
+    }
+
+    /**
+     * Gets the number of pending and failed trials across this manager and all backends
+     * @returns The combined write queue status
+     */
+    public getQueueStatus(): QueueStatus {
+        return this.getStatusPerBackend().reduce(
+            (total, status) => ({ pending: total.pending + status.pending, failed: total.failed + status.failed }),
+            super.getQueueStatus()
+        );
+    }
+
+    /**
+     * Creates a callback function for jsPsych's on_finish event
+     *
+     * Writes all queued trials, waits for the backends to catch up on missed
+     * trials, then runs the finish callback of every initialized backend.
+     * @returns A function that handles experiment completion
+     * @throws {Error} From the returned function, if finishing takes longer than `finishTimeoutMs`; the message lists what is still pending
+     */
+    public createFinishCallback(): () => Promise<void> {
+        const finishCallbacks = this.managers.map(manager => manager.createFinishCallback());
+
+        return async () => {
+            const finish = (async () => {
+                await this.flush();
+                await Promise.all(this.catchUps.map(catchUp => catchUp.done));
+                await Promise.allSettled(finishCallbacks
+                    .filter((_, index) => this.initialized[index])
+                    .map(finish => finish()));
+                await this.completeSession();
+            })();
+
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const timeout = new Promise<'timeout'>(resolve => {
+                timer = setTimeout(() => resolve('timeout'), this.finishTimeoutMs);
+            });
+
+            const result = await Promise.race([finish.then(() => 'done' as const), timeout]).finally(() => clearTimeout(timer));
+            if (result === 'timeout') {
+                const pending = this.getStatusPerBackend()
+                    .filter(status => status.pending > 0)
+                    .map(status => `${status.name}: ${status.pending}`);
+                throw new Error(`Failed to finish within ${this.finishTimeoutMs}ms, trials still pending (${[`composite: ${super.getQueueStatus().pending}`, ...pending].join(', ')})`);
+            }
+
+            console.log("[CompositeDataManager] Total operations performed:", this.getNumberOfOperations());
+        };
+    }
+
+    /**
+     * Writes trials to the first backend that succeeds, in order
+     * @param trials The trials to write
+     * @throws {Error} If every backend failed
+     */
+    private async writeWithFallback(trials: TrialData[]): Promise<void> {
+        let lastError: unknown;
+
+        for (const index of this.getInitializedIndices()) {
+            try {
+                await this.writeToBackend(index, trials);
+                if (index > 0) {
+                    console.warn(`[CompositeDataManager] Stored trials in fallback backend ${this.names[index]}`);
+                }
+                return;
+            } catch (error) {
+                console.error(`[CompositeDataManager] Backend ${this.names[index]} failed:`, error);
+                lastError = error;
+            }
+        }
+
+        throw new Error("Failed to store trial data in any backend: " + (lastError instanceof Error ? lastError.message : String(lastError)));
+    }
+
+    /**
+     * Writes the trials a backend has not stored yet
+     * @param index Index of the backend
+     * @param trials The trials to write
+     */
+    private async writeToBackend(index: number, trials: TrialData[]): Promise<void> {
+        const remaining = trials.filter(trial => !this.storedBy.get(trial)?.has(index));
+        if (remaining.length === 0) {
+            return;
+        }
+
+        await this.managers[index].addTrialBatch(remaining);
+
+        for (const trial of remaining) {
+            const stored = this.storedBy.get(trial) ?? new Set<number>();
+            stored.add(index);
+            this.storedBy.set(trial, stored);
+        }
+    }
+
+    /**
+     * Retries a batch a backend missed, with exponential backoff, after the batches it missed before
+     * @param index Index of the backend
+     * @param trials The trials as they were written to the other backends
+     */
+    private catchUp(index: number, trials: TrialData[]): void {
+        const catchUp = this.catchUps[index];
+        catchUp.pending += trials.length;
+
+        catchUp.done = catchUp.done.then(async () => {
+            for (let attempts = 1; ; attempts++) {
+                const delay = Math.min(this.initialDelay * 2 ** (attempts - 1), this.maxDelay);
+                await new Promise(resolve => setTimeout(resolve, delay));
+
+                try {
+                    await this.writeToBackend(index, trials);
+                    break;
+                } catch (error) {
+                    if (attempts >= this.maxAttempts) {
+                        console.error(`[CompositeDataManager] Giving up on ${trials.length} trials for backend ${this.names[index]} after ${attempts} attempts:`, error);
+                        catchUp.failed += trials.length;
+                        break;
+                    }
+                }
+            }
+            catchUp.pending -= trials.length;
+        });
+    }
+
+    /**
+     * Gets the indices of the backends that were initialized
+     * @returns The indices, in order
+     */
+    private getInitializedIndices(): number[] {
+        return this.managers.map((_, index) => index).filter(index => this.initialized[index]);
+    }
+
+    /**
+     * Gets the number of backends that must succeed for the current mode
+     * @returns The required number of successful backends
+     */
+    private getRequiredSuccesses(): number {
+        switch (this.mode) {
+            case 'all':
+                return this.managers.length;
+            case 'quorum':
+                return this.quorum;
+            case 'fallback':
+                return 1;
+        }
+    }
+}
@@ -1,8 +1,69 @@
+import { WriteQueue, WriteQueueOptions, QueueEntry, QueueStatus, BatchOptions } from './WriteQueue';
+import { TrialCodec } from './serialization';
+import { SessionTracker, ResumableSession, ResumeInfo, ResumeOptions } from './SessionTracker';
+import { RecruitmentOptions, RecruitmentInfo, parseRecruitmentParams, buildCompletionUrl } from './recruitment';
+import { TrialValidator, TrialSchema, ValidationOptions, ValidationResult } from './validation';
+import { TrialScrubber, PrivacyOptions } from './privacy';
+import { TrialEncryptor, EncryptionOptions } from './encryption';
+import { AssignmentOptions, AssignmentSlotRequest, ConditionAssignment, createLatinSquare } from './assignment';
+import { TypedEventEmitter, DataManagerEvents, DataManagerEventListener, WriteHooks } from './events';
+import { MediaOptions, MediaUpload, MediaUploader, extractMedia } from './media';
+import { DuplicateSessionOptions, DuplicateSessionInfo, DuplicateSessionSource, TabGuard } from './duplicates';
+import { stampTrial } from './integrity';
+import { SessionQuery } from './query';
+import { IdleScheduler, SchedulingOptions } from './scheduling';
+import { StoredSession } from './export';
+
 /**
  * Base interface for all data manager options
  */
 export interface BaseManagerOptions {
     metadata?: Partial<ExperimentMetadata>;
+    /** Options for the persistent write queue that trials go through */
+    queue?: Omit<WriteQueueOptions, 'batch'>;
+    /** Write trials in batches to reduce the number of backend operations (default: no batching) */
+    batch?: BatchOptions;
+    /** Codec that encodes trials before they are stored, e.g. losslessCodec (default: backend-specific) */
+    codec?: TrialCodec;
+    /** Remember the session locally so it can be resumed after a reload (default: false) */
+    resume?: boolean | ResumeOptions;
+    /** Track status, end time, duration and trial count of the session in the stored record (default: false) */
+    lifecycle?: boolean | LifecycleOptions;
+    /** Read participant information from recruitment platform URL parameters (optional) */
+    recruitment?: RecruitmentOptions;
+    /** Validate, coerce and size-check trials against per-trial_type schemas before they are written (optional) */
+    validation?: ValidationOptions;
+    /** Remove, redact and hash fields before trials leave the browser (optional) */
+    privacy?: PrivacyOptions;
+    /** Encrypt trials and selected metadata fields with WebCrypto before they are stored (optional) */
+    encryption?: EncryptionOptions;
+    /** Functions that run before and after every backend write (optional) */
+    hooks?: WriteHooks;
+    /** Upload audio, video and image fields to the backend's file storage and store references instead (optional) */
+    media?: MediaOptions;
+    /** Detect other sessions of the same participant in other tabs and in the backend (optional) */
+    duplicates?: DuplicateSessionOptions;
+    /** Stamp trials with a sequence number, client time and content hash, and store a server timestamp where the backend supports it (default: false) */
+    integrity?: boolean;
+    /** Process and write trials in idle periods instead of inside on_data_update (default: immediately) */
+    scheduling?: SchedulingOptions;
+}
+
+/**
+ * Status of an experiment session
+ * - "started": the session was initialized, no trial has been completed yet
+ * - "in_progress": at least one trial has been completed
+ * - "completed": the finish callback ran
+ * - "abandoned": the page was closed, or hidden for longer than `abandonAfterHiddenMs`, before the experiment finished
+ */
+export type SessionStatus = 'started' | 'in_progress' | 'completed' | 'abandoned';
+
+/**
+ * Interface for session lifecycle tracking options
+ */
+export interface LifecycleOptions {
+    /** Also mark the session abandoned once the page has been hidden this long, in milliseconds (default: only when the page is closed) */
+    abandonAfterHiddenMs?: number;
 }
 
 /**
@@ -27,6 +88,20 @@ export interface ExperimentMetadata {
     time: string;
     /** The version of the experiment */
     version?: string;
+    /** The status of the session (only with the `lifecycle` option) */
+    status?: SessionStatus;
+    /** The time the session was started, ISO 8601 (only with the `lifecycle` option) */
+    started_at?: string;
+    /** The time the session finished or was abandoned, ISO 8601 (only with the `lifecycle` option) */
+    finished_at?: string | null;
+    /** Duration from start to finish in milliseconds (only with the `lifecycle` option) */
+    duration_ms?: number | null;
+    /** Number of completed trials, including trials marked no_upload (only with the `lifecycle` option) */
+    trial_count?: number;
+    /** Names of the privacy transforms applied to the trials (only with the `privacy` option) */
+    transforms_applied?: string[];
+    /** ID of the signed-in participant (only with the `auth` option of FirebaseManager or SupabaseManager) */
+    auth_uid?: string;
     /** Any additional metadata */
     [key: string]: any;
 }
@@ -58,17 +133,191 @@ export interface ExperimentData extends ExperimentMetadata {
 export abstract class DataManager {
     /** Protected metadata that can be accessed by child classes */
     protected readonly metadata: ExperimentMetadata;
+    /** Persistent queue that trials from the data update callback are written through */
+    protected readonly writeQueue: WriteQueue;
+    /** Codec that child classes apply to trials before storing them */
+    protected readonly codec?: TrialCodec;
+    /** Whether trials are stamped for integrity checks */
+    protected readonly integrity: boolean;
+    /** Tracks the session identity and progress locally when resuming is enabled */
+    private readonly sessionTracker?: SessionTracker;
+    /** Unfinished session found in local storage on construction */
+    private resumableSession?: ResumableSession;
+    /** Number of trials completed so far, used when trials have no trial_index */
+    private completedTrials: number = 0;
+    /** Whether the backend session exists (initialized or resumed) */
+    private sessionStarted: boolean = false;
+    /** Backend identifier of the session, once it exists */
+    private currentSessionId?: string;
+    /** Current session status, undefined when lifecycle tracking is disabled */
+    private sessionStatus?: SessionStatus;
+    /** The time the session was started (ms since epoch) */
+    private startedAt: number = Date.now();
+    /** Recruitment options, if a platform preset is configured */
+    private readonly recruitmentOptions?: RecruitmentOptions;
+    /** Participant information parsed from the URL, if a platform preset is configured */
+    private readonly recruitmentInfo?: RecruitmentInfo;
+    /** Validation options, applied once a schema or size limit is configured */
+    private readonly validationOptions: ValidationOptions;
+    /** Validates trials before they are queued, if validation is configured */
+    private validator?: TrialValidator;
+    /** Scrubs trials before they are validated and queued, if privacy options are configured */
+    private readonly scrubber?: TrialScrubber;
+    /** Encrypts trials before they are queued, if encryption is configured */
+    private readonly encryptor?: TrialEncryptor;
+    /** Trials waiting to be encrypted, chained to keep them in order */
+    private encryptionChain: Promise<void> = Promise.resolve();
+    /** Counter name and slot of the assigned condition, counted as completed when the session finishes */
+    private assignedSlot?: { name: string; slot: number };
+    /** Emits upload status events */
+    private readonly events: TypedEventEmitter<DataManagerEvents> = new TypedEventEmitter();
+    /** Functions that run around every backend write */
+    private readonly hooks: WriteHooks;
+    /** Media options, if media uploads are enabled */
+    private readonly mediaOptions?: MediaOptions;
+    /** Uploads media files independently of the trial writes */
+    private readonly mediaUploader?: MediaUploader;
+    /** Folder media files are stored in: the session ID once the session exists */
+    private mediaFolder?: string;
+    /** Duplicate session options, if detection is enabled */
+    private readonly duplicateOptions?: DuplicateSessionOptions;
+    /** Holds this tab's claim on the participant's session */
+    private tabGuard?: TabGuard;
+    /** The duplicate found during initialization, if any */
+    private duplicateSession?: DuplicateSessionInfo;
+    /** Sequence number of the next queued trial */
+    private nextSequence: number = 0;
+    /** Runs trial processing and writes in idle periods (only with `scheduling.mode: "idle"`) */
+    private readonly scheduler?: IdleScheduler;
+    /** Number of trials waiting for an idle period before they enter the write queue */
+    private scheduledTrials: number = 0;
 
     /**
      * Creates a new DataManager instance
+     *
+     * The write queue and the resumable session are kept in localStorage
+     * under keys made of the class name and the storage scope, so that two
+     * managers of the same class writing to different places do not
+     * overwrite each other's entries.
      * @param metadata Optional metadata to override default values
+     * @param options Optional base options (e.g., write queue settings)
+     * @param storageScope Where the subclass stores data, e.g. its collection or endpoint (optional)
      */
-    constructor(metadata: Partial<ExperimentMetadata> = {}) {
+    constructor(metadata: Partial<ExperimentMetadata> = {}, options: BaseManagerOptions = {}, storageScope?: string) {
+        const storageKeySuffix = storageScope ? `${new.target.name}:${storageScope}` : new.target.name;
+
+        if (options.recruitment) {
+            this.recruitmentOptions = options.recruitment;
+            this.recruitmentInfo = parseRecruitmentParams(options.recruitment.platform, options.recruitment.search);
+        }
+
         this.metadata = {
             date: new Date().toISOString().split('T')[0],
             time: new Date().toISOString().split('T')[1].split('.')[0],
+            ...this.recruitmentInfo?.metadata,
             ...metadata
         };
+
+        if (options.privacy) {
+            this.scrubber = new TrialScrubber(options.privacy);
+            this.metadata = {
+                ...this.scrubber.scrubMetadata(this.metadata),
+                transforms_applied: this.scrubber.getAppliedTransforms()
+            };
+        }
+        // Created before the write queue, so that trials waiting for an idle period are queued before it flushes on pagehide
+        if (options.scheduling?.mode === 'idle') {
+            this.scheduler = new IdleScheduler(options.scheduling.timeout ?? 2000);
+        }
+        this.writeQueue = new WriteQueue(trials => this.writeTrials(trials), {
+            storageKey: `jspsych-datamanager-queue:${storageKeySuffix}`,
+            ...options.queue,
+            batch: options.batch
+        }, {
+            onWrite: trials => trials.forEach(trial => {
+                this.events.emit('trial:saved', { trial, status: this.getQueueStatus() });
+            }),
+            onFailure: (trials, error, attempts, willRetry) => trials.forEach(trial => {
+                this.events.emit('trial:failed', { trial, error, attempts, willRetry });
+            })
+        });
+        this.hooks = options.hooks ?? {};
+
+        if (options.media) {
+            this.mediaOptions = options.media;
+            this.mediaUploader = new MediaUploader((upload, onProgress) => this.uploadMedia(upload, onProgress), options.media, {
+                onProgress: (upload, loaded, total) => this.events.emit('media:progress', { path: upload.path, loaded, total }),
+                onUploaded: upload => this.events.emit('media:uploaded', { path: upload.path }),
+                onFailure: (upload, error, attempts, willRetry) => {
+                    this.events.emit('media:failed', { path: upload.path, error, attempts, willRetry });
+                }
+            });
+        }
+        this.codec = options.codec;
+        this.duplicateOptions = options.duplicates;
+        this.integrity = !!options.integrity;
+
+        this.validationOptions = options.validation ?? {};
+        if (this.validationOptions.onInvalid === 'quarantine' && !this.validationOptions.quarantine) {
+            throw new Error("The \"quarantine\" policy needs a quarantine store");
+        }
+        if (options.validation) {
+            this.validator = new TrialValidator(options.validation);
+        }
+
+        if (options.encryption) {
+            this.encryptor = new TrialEncryptor(options.encryption);
+        }
+        // The session ID is stored in plain text, so an encrypted participant ID must not become it
+        if (options.recruitment?.useParticipantIdAsSessionId
+            && options.encryption?.metadataFields?.includes('participant_id')
+            && !options.privacy?.hashFields?.includes('participant_id')) {
+            throw new Error("useParticipantIdAsSessionId stores the participant ID in plain text as the session ID, but participant_id is encrypted; add participant_id to privacy.hashFields to use its hash instead");
+        }
+        // Media files are uploaded as they are, so encrypted sessions must not silently reference plaintext recordings
+        if (options.encryption && options.media && !options.media.allowUnencrypted) {
+            throw new Error("Media files are uploaded without encryption, but the encryption option is set; set media.allowUnencrypted to upload them anyway");
+        }
+
+        if (options.resume) {
+            const resumeOptions = options.resume === true ? {} : options.resume;
+            this.sessionTracker = new SessionTracker(
+                resumeOptions.storageKey ?? `jspsych-datamanager-session:${storageKeySuffix}`
+            );
+            this.resumableSession = this.sessionTracker.load();
+            if (this.resumableSession) {
+                console.log(`[DataManager] Found unfinished session ${this.resumableSession.sessionId} that can be resumed`);
+            }
+        }
+
+        if (options.lifecycle) {
+            this.sessionStatus = 'started';
+            this.metadata.status = 'started';
+            this.metadata.started_at = new Date(this.startedAt).toISOString();
+
+            if (typeof window !== 'undefined') {
+                const { abandonAfterHiddenMs } = options.lifecycle === true ? {} as LifecycleOptions : options.lifecycle;
+                let hiddenTimer: ReturnType<typeof setTimeout> | undefined;
+
+                window.addEventListener('pagehide', () => this.markAbandoned());
+                window.addEventListener('pageshow', event => {
+                    // The page was restored from the back/forward cache
+                    if (event.persisted) {
+                        this.markReturned();
+                    }
+                });
+                document.addEventListener('visibilitychange', () => {
+                    clearTimeout(hiddenTimer);
+                    if (document.visibilityState === 'hidden') {
+                        if (abandonAfterHiddenMs !== undefined) {
+                            hiddenTimer = setTimeout(() => this.markAbandoned(), abandonAfterHiddenMs);
+                        }
+                    } else {
+                        this.markReturned();
+                    }
+                });
+            }
+        }
     }
 
     /**
@@ -85,6 +334,20 @@ export abstract class DataManager {
      */
     public abstract addTrialData(trialData: TrialData): Promise<void>;
 
+    /**
+     * Adds several trials to the experiment data at once
+     *
+     * The default implementation writes the trials one by one. Child classes
+     * override this when their backend can write a batch in a single operation.
+     * @param trials The trials to add, in order
+     * @throws {Error} If adding the trials fails
+     */
+    public async addTrialBatch(trials: TrialData[]): Promise<void> {
+        for (const trial of trials) {
+            await this.addTrialData(trial);
+        }
+    }
+
     /**
      * Gets the total number of data operations performed
      * @returns The number of operations performed
@@ -93,15 +356,818 @@ export abstract class DataManager {
 
     /**
      * Creates a callback function for jsPsych's on_data_update event
+     *
+     * Trials are written through the persistent write queue, so a failed
+     * write is retried instead of being lost. With `scheduling.mode: "idle"`,
+     * the callback only records the trial and returns; the trial is
+     * processed and queued in the next idle period.
      * @returns A function that handles trial data updates
      */
-    public abstract createDataUpdateCallback(): (data: TrialData) => TrialData;
+    public createDataUpdateCallback(): (data: TrialData) => TrialData {
+        return (data: TrialData) => {
+            this.sessionTracker?.recordTrial(
+                typeof data.trial_index === 'number' ? data.trial_index : this.completedTrials
+            );
+            this.completedTrials++;
+
+            if (this.sessionStatus === 'started') {
+                this.setSessionStatus('in_progress');
+            }
+
+            if (data.no_upload) {
+                delete data.no_upload;
+                return data;
+            }
+
+            if (this.scheduler) {
+                // Copied now, in case jsPsych changes the object before the idle period
+                const trial = { ...data };
+                this.scheduledTrials++;
+                this.scheduler.schedule(() => {
+                    this.scheduledTrials--;
+                    this.enqueueTrialData(trial);
+                });
+            } else {
+                this.enqueueTrialData(data);
+            }
+
+            return data;
+        };
+    }
+
+    /**
+     * Adds a trial to the persistent write queue
+     *
+     * Unlike addTrialData, this returns immediately and the write is retried
+     * until it succeeds or runs out of attempts. The privacy transforms run
+     * first, then validation, whose invalid trials are handled according to
+     * the `onInvalid` policy, then media fields of the remaining trials are
+     * replaced by references and uploaded. With media uploads, `maxTrialBytes`
+     * is checked once the media fields hold references. With encryption
+     * configured, only encrypted trials are queued. With `integrity`, the trials are stamped last, in
+     * the order they enter the queue.
+     * @param trialData The trial data to write
+     */
+    public enqueueTrialData(trialData: TrialData): void {
+        const scrubbed = this.scrubber ? this.scrubber.scrubTrial(trialData) : trialData;
+        const validated = this.validateTrial(scrubbed);
+        if (!validated) {
+            return;
+        }
+        const trial = this.mediaUploader ? this.uploadTrialMedia(validated) : validated;
+        if (!trial) {
+            return;
+        }
+
+        if (!this.encryptor) {
+            this.queueTrial(trial);
+            return;
+        }
+
+        const encryptor = this.encryptor;
+        this.encryptionChain = this.encryptionChain.then(async () => {
+            try {
+                this.queueTrial(await encryptor.encryptTrial(trial));
+            } catch (error) {
+                console.error("[DataManager] Error encrypting trial, it will not be stored:", error);
+            }
+        });
+    }
+
+    /**
+     * Registers the validation schema for a trial_type, replacing any previous one
+     * @param trialType The trial_type the schema applies to, or "*" for all others
+     * @param schema A JSON Schema or a validator function returning error messages
+     */
+    public registerSchema(trialType: string, schema: TrialSchema): void {
+        if (!this.validator) {
+            this.validator = new TrialValidator(this.validationOptions);
+        }
+        this.validator.register(trialType, schema);
+    }
 
     /**
      * Creates a callback function for jsPsych's on_finish event
+     *
+     * The returned function may return a promise that resolves once the
+     * final flush has completed.
      * @returns A function that handles experiment completion
      */
-    public abstract createFinishCallback(): () => void;
+    public abstract createFinishCallback(): () => void | Promise<void>;
+
+    /**
+     * Gets the number of queued trials that are pending or have failed
+     * @returns The current write queue status
+     */
+    public getQueueStatus(): QueueStatus {
+        const status = this.writeQueue.getStatus();
+        return { ...status, pending: status.pending + this.scheduledTrials };
+    }
+
+    /**
+     * Retries all trials that exhausted their write attempts
+     */
+    public retryFailedTrials(): void {
+        this.writeQueue.retryFailed();
+    }
+
+    /**
+     * Gets the queued trials left over from other sessions
+     *
+     * Trials that could not be written before a page was closed belong to
+     * that page's session. They are only written if that session is resumed;
+     * otherwise export them from here and discard them.
+     * @returns The orphaned queue entries, with the session each belongs to
+     */
+    public getOrphanedTrials(): QueueEntry[] {
+        return this.writeQueue.getOrphanedEntries();
+    }
+
+    /**
+     * Removes the queued trials left over from other sessions
+     */
+    public discardOrphanedTrials(): void {
+        this.writeQueue.discardOrphaned();
+    }
+
+    /**
+     * Writes all pending trials now, including batches that are not yet full
+     * @returns A promise that resolves once the write queue has drained
+     */
+    public async flush(): Promise<void> {
+        this.scheduler?.runAll();
+        await this.encryptionChain;
+        await Promise.all([this.writeQueue.flush(), this.mediaUploader?.whenIdle()]);
+        this.events.emit('flush:complete', { status: this.getQueueStatus() });
+    }
+
+    /**
+     * Waits until every trial and media file handed to the manager so far
+     * has been written or has run out of attempts, without forcing held-back
+     * batches
+     *
+     * Useful in a jsPsych call-function trial before the final screen.
+     * @returns A promise that resolves once nothing is left to write
+     */
+    public async whenIdle(): Promise<void> {
+        await this.scheduler?.whenDone();
+        await this.encryptionChain;
+        await Promise.all([this.writeQueue.whenDrained(), this.mediaUploader?.whenIdle()]);
+    }
+
+    /**
+     * Gets the number of media uploads in progress and uploads that ran out of attempts
+     * @returns The upload status (all zero without the `media` option)
+     */
+    public getMediaStatus(): QueueStatus {
+        return this.mediaUploader ? this.mediaUploader.getStatus() : { pending: 0, failed: 0 };
+    }
+
+    /**
+     * Retries all media uploads that ran out of attempts
+     */
+    public retryFailedUploads(): void {
+        this.mediaUploader?.retryFailed();
+    }
+
+    /**
+     * Adds a listener for an upload status event
+     *
+     * @example
+     * ```typescript
+     * dataManager.on("trial:failed", ({ willRetry }) => {
+     *     status.textContent = willRetry ? "Retrying…" : "Could not save data";
+     * });
+     * ```
+     * @param event The event name
+     * @param listener The function called with the event payload
+     * @returns A function that removes the listener
+     */
+    public on<K extends keyof DataManagerEvents>(event: K, listener: DataManagerEventListener<K>): () => void {
+        return this.events.on(event, listener);
+    }
+
+    /**
+     * Adds a listener that is removed after its first call
+     * @param event The event name
+     * @param listener The function called with the event payload
+     * @returns A function that removes the listener
+     */
+    public once<K extends keyof DataManagerEvents>(event: K, listener: DataManagerEventListener<K>): () => void {
+        return this.events.once(event, listener);
+    }
+
+    /**
+     * Removes a listener added with on()
+     * @param event The event name
+     * @param listener The listener to remove
+     */
+    public off<K extends keyof DataManagerEvents>(event: K, listener: DataManagerEventListener<K>): void {
+        this.events.off(event, listener);
+    }
+
+    /**
+     * Gets the unfinished session found in local storage, if any
+     *
+     * Only available when the manager was created with the `resume` option.
+     * @returns The resumable session, or undefined if there is none
+     */
+    public getResumableSession(): ResumableSession | undefined {
+        return this.resumableSession ? { ...this.resumableSession } : undefined;
+    }
+
+    /**
+     * Continues the unfinished session instead of initializing a new one
+     *
+     * Call this instead of initializeExperiment, then use isTrialCompleted to
+     * skip the trials that were completed before the reload.
+     * @returns The resumed session ID and the number of completed trials
+     * @throws {Error} If there is no session to resume or restoring it fails
+     */
+    public async resumeSession(): Promise<ResumeInfo> {
+        if (!this.sessionTracker || !this.resumableSession) {
+            throw new Error("Failed to resume session: no unfinished session found");
+        }
+
+        const session = this.resumableSession;
+        await this.checkDuplicateSession(false);
+        await this.restoreSession(session.sessionId);
+        this.sessionTracker.continue(session);
+        this.completedTrials = session.lastTrialIndex + 1;
+        this.nextSequence = Math.max(this.nextSequence, (session.lastSequence ?? -1) + 1);
+        this.startedAt = Date.parse(session.startedAt) || this.startedAt;
+        this.sessionStarted = true;
+        this.currentSessionId = session.sessionId;
+        this.mediaFolder = session.sessionId;
+        this.startWriteQueue();
+
+        if (this.duplicateSession && this.duplicateOptions?.policy === 'flag') {
+            const field = this.duplicateOptions.field || 'duplicate_session';
+            this.writeSessionFields({ [field]: this.metadata[field] }).catch(error => {
+                console.error("[DataManager] Error flagging the duplicate session:", error);
+            });
+        }
+
+        if (this.sessionStatus) {
+            this.setSessionStatus('in_progress', { finished_at: null, duration_ms: null });
+        }
+
+        console.log(`[DataManager] Resumed session ${session.sessionId} after trial ${session.lastTrialIndex}`);
+        this.events.emit('initialized', { sessionId: session.sessionId, resumed: true });
+        return {
+            sessionId: session.sessionId,
+            completedTrials: session.lastTrialIndex + 1
+        };
+    }
+
+    /**
+     * Checks whether a trial was completed before the session was resumed
+     *
+     * Intended for a jsPsych `conditional_function`, with the trial index
+     * the trial will have in the (deterministic) timeline.
+     * @param trialIndex jsPsych trial_index of the trial
+     * @returns True if the trial can be skipped
+     */
+    public isTrialCompleted(trialIndex: number): boolean {
+        return !!this.resumableSession && trialIndex <= this.resumableSession.lastTrialIndex;
+    }
+
+    /**
+     * Points the manager at an existing session without re-creating it
+     *
+     * Child classes that support resuming override this.
+     * @param sessionId Backend identifier of the session
+     * @throws {Error} If the backend does not support resuming
+     */
+    protected async restoreSession(sessionId: string): Promise<void> {
+        throw new Error(`Failed to resume session ${sessionId}: resuming is not supported by this manager`);
+    }
+
+    /**
+     * Records the identity of a newly initialized session for later resuming
+     * @param sessionId Backend identifier of the session
+     */
+    protected trackSessionStart(sessionId: string): void {
+        this.sessionTracker?.start(sessionId);
+        if (this.nextSequence > 0) {
+            this.sessionTracker?.recordSequence(this.nextSequence - 1);
+        }
+        this.resumableSession = undefined;
+        this.sessionStarted = true;
+        this.currentSessionId = sessionId;
+        this.mediaFolder = sessionId;
+        this.events.emit('initialized', { sessionId, resumed: false });
+
+        // Trials completed before initialization finished
+        if (this.sessionStatus === 'in_progress') {
+            this.setSessionStatus('in_progress', { trial_count: this.completedTrials });
+        }
+    }
+
+    /**
+     * Forgets the locally tracked session once it has finished
+     */
+    protected trackSessionEnd(): void {
+        this.sessionTracker?.complete();
+    }
+
+    /**
+     * Gets the participant information parsed from recruitment platform URL parameters
+     * @returns The recruitment information, or undefined if no platform is configured
+     */
+    public getRecruitmentInfo(): RecruitmentInfo | undefined {
+        return this.recruitmentInfo
+            ? { ...this.recruitmentInfo, metadata: { ...this.recruitmentInfo.metadata } }
+            : undefined;
+    }
+
+    /**
+     * Gets the URL participants are sent to after completing the experiment
+     * @returns The completion URL, or undefined if it cannot be built
+     */
+    public getCompletionUrl(): string | undefined {
+        return this.recruitmentInfo && this.recruitmentOptions
+            ? buildCompletionUrl(this.recruitmentInfo, this.recruitmentOptions)
+            : undefined;
+    }
+
+    /**
+     * Gets the other session of the participant found during initialization
+     * @returns The duplicate, or undefined if none was found or detection is disabled
+     */
+    public getDuplicateSession(): DuplicateSessionInfo | undefined {
+        return this.duplicateSession
+            ? { ...this.duplicateSession, sources: [...this.duplicateSession.sources], sessionIds: [...this.duplicateSession.sessionIds] }
+            : undefined;
+    }
+
+    /**
+     * Looks for other sessions of the participant and applies the duplicate policy
+     *
+     * Child classes call this before creating the session. Does nothing
+     * without the `duplicates` option. Stored sessions are matched by the
+     * `participant_id` metadata field, so the check is skipped when there is
+     * none; when the field is hashed, the hashes are compared.
+     * @param checkServer Whether to look for stored sessions as well as other tabs
+     * @throws {Error} If a duplicate is found and the policy is "block"
+     */
+    protected async checkDuplicateSession(checkServer: boolean = true): Promise<void> {
+        const options = this.duplicateOptions;
+        if (!options) {
+            return;
+        }
+
+        const participantId = this.metadata.participant_id;
+        const key = options.key ?? (participantId ? `participant:${participantId}` : 'experiment');
+        const sources: DuplicateSessionSource[] = [];
+        let sessionIds: string[] = [];
+
+        // Initialization may be retried; this tab's own claim is not a duplicate
+        if (!this.tabGuard) {
+            this.tabGuard = new TabGuard(key, options.tabTimeoutMs);
+            if (await this.tabGuard.claim()) {
+                sources.push('tab');
+            }
+        }
+
+        if (checkServer && options.checkServer !== false && participantId) {
+            try {
+                sessionIds = await this.findParticipantSessions(String(participantId));
+            } catch (error) {
+                console.warn("[DataManager] Could not look for stored sessions of the participant:", error);
+            }
+            if (sessionIds.length > 0) {
+                sources.push('server');
+            }
+        }
+
+        if (sources.length === 0) {
+            return;
+        }
+
+        const policy = options.policy || 'warn';
+        this.duplicateSession = { sources, key, sessionIds };
+        this.events.emit('session:duplicate', { sources, key, sessionIds, policy });
+
+        if (policy === 'block') {
+            // Check again if initialization is retried, e.g. after the other tab was closed
+            this.tabGuard.release();
+            this.tabGuard = undefined;
+            throw new Error(`Failed to initialize experiment: another session of this participant exists (${sources.join(', ')})`);
+        }
+
+        console.warn(`[DataManager] Found another session of this participant (${sources.join(', ')})`, sessionIds);
+        if (policy === 'flag') {
+            this.metadata[options.field || 'duplicate_session'] = { sources, session_ids: sessionIds };
+        }
+    }
+
+    /**
+     * Finds stored sessions with a participant ID
+     *
+     * Child classes that can query their sessions override this; the default
+     * implementation finds none.
+     * @param participantId The stored participant_id value
+     * @returns IDs of the matching sessions
+     * @throws {Error} If the query fails
+     */
+    protected async findParticipantSessions(participantId: string): Promise<string[]> {
+        return [];
+    }
+
+    /**
+     * Gets the participant ID to use as the backend session ID
+     *
+     * Child classes use this when no explicit document/row ID was configured.
+     * A hashed `participant_id` is used as its hash; an encrypted one is
+     * refused by the constructor, as the session ID is not encrypted.
+     * @returns The participant ID if `useParticipantIdAsSessionId` is set and an ID was found
+     */
+    protected getParticipantSessionId(): string | undefined {
+        const participantId = this.recruitmentOptions?.useParticipantIdAsSessionId
+            ? this.recruitmentInfo?.participantId
+            : undefined;
+
+        // Do not expose the raw ID as document/row ID when participant_id is hashed
+        return participantId && this.scrubber
+            ? this.scrubber.scrubMetadata({ participant_id: participantId }).participant_id
+            : participantId;
+    }
+
+    /**
+     * Gets the current session status
+     * @returns The status, or undefined when lifecycle tracking is disabled
+     */
+    public getSessionStatus(): SessionStatus | undefined {
+        return this.sessionStatus;
+    }
+
+    /**
+     * Writes the given fields to the stored session record
+     *
+     * Used for lifecycle updates, condition assignments and duplicate flags.
+     * The configured metadata fields arrive encrypted. Child classes that
+     * support updates override this; the default implementation does nothing.
+     * @param fields The fields to set
+     * @throws {Error} If the update fails
+     */
+    protected async updateSession(fields: Partial<ExperimentMetadata>): Promise<void> {
+        console.warn("[DataManager] Session updates are not supported by this manager:", fields);
+    }
+
+    /**
+     * Uploads one media file to the backend's file storage
+     *
+     * Child classes that support media uploads override this.
+     * @param upload The file to upload
+     * @param onProgress Reports the number of bytes uploaded so far
+     * @throws {Error} If the backend does not support media uploads
+     */
+    protected async uploadMedia(upload: MediaUpload, onProgress: (loaded: number, total: number) => void): Promise<void> {
+        throw new Error(`Failed to upload ${upload.path}: media uploads are not supported by this manager`);
+    }
+
+    /**
+     * Assigns a condition from a counter shared by all participants
+     *
+     * The backend picks the least-filled condition (or Latin square row) and
+     * counts the assignment atomically, so participants arriving at the same
+     * time are spread over the conditions. The condition is written to the
+     * session metadata, and counted as completed when the session finishes.
+     *
+     * @example
+     * ```typescript
+     * const { condition } = await dataManager.assignCondition(["control", "treatment"]);
+     * const { order } = await dataManager.assignCondition(blocks, { strategy: "latin-square", field: "block_order" });
+     * ```
+     * @param conditions The conditions to choose from
+     * @param options Assignment options
+     * @returns The assigned condition
+     * @throws {Error} If there are no conditions or the backend does not support assignment
+     */
+    public async assignCondition<T>(conditions: T[], options: AssignmentOptions = {}): Promise<ConditionAssignment<T>> {
+        if (conditions.length === 0) {
+            throw new Error("Failed to assign condition: no conditions given");
+        }
+
+        const field = options.field || "condition";
+        const name = options.name || field;
+        const rows = options.strategy === 'latin-square'
+            ? createLatinSquare(conditions.length).map(row => row.map(index => conditions[index]))
+            : conditions.map(condition => [condition]);
+
+        const slot = await this.claimAssignmentSlot({ name, slotCount: rows.length, indexField: `${field}_index` });
+        const assignment: ConditionAssignment<T> = { index: slot, condition: rows[slot][0], order: rows[slot] };
+        this.assignedSlot = { name, slot };
+
+        const fields = {
+            [field]: options.strategy === 'latin-square' ? assignment.order : assignment.condition,
+            [`${field}_index`]: slot
+        };
+        Object.assign(this.metadata, fields);
+        if (this.sessionStarted) {
+            await this.writeSessionFields(fields);
+        }
+
+        console.log(`[DataManager] Assigned ${field} ${slot}`);
+        return assignment;
+    }
+
+    /**
+     * Atomically picks the least-filled slot of a shared counter and counts it as assigned
+     *
+     * Child classes that support condition assignment override this,
+     * typically with pickLeastFilledSlot inside a transaction.
+     * @param request The counter name, number of slots and index field
+     * @returns The index of the claimed slot
+     * @throws {Error} If the backend does not support condition assignment
+     */
+    protected async claimAssignmentSlot(request: AssignmentSlotRequest): Promise<number> {
+        throw new Error(`Failed to assign condition "${request.name}": condition assignment is not supported by this manager`);
+    }
+
+    /**
+     * Counts a slot of a shared counter as completed
+     *
+     * Child classes that support condition assignment override this.
+     * @param name Name of the counter
+     * @param slot Index of the slot
+     */
+    protected async completeAssignmentSlot(name: string, slot: number): Promise<void> {}
+
+    /**
+     * Finishes the session: writes all pending trials, marks the session as
+     * completed (with lifecycle tracking) and redirects to the recruitment
+     * platform (with `redirectOnFinish`)
+     *
+     * Child classes call this from their finish callback.
+     */
+    protected async completeSession(): Promise<void> {
+        await this.flush();
+
+        if (this.sessionStatus) {
+            await this.setSessionStatus('completed', this.getFinishFields());
+        }
+
+        if (this.assignedSlot) {
+            try {
+                await this.completeAssignmentSlot(this.assignedSlot.name, this.assignedSlot.slot);
+            } catch (error) {
+                console.error("[DataManager] Error counting the completed condition:", error);
+            }
+        }
+
+        this.trackSessionEnd();
+        this.tabGuard?.release();
+
+        const completionUrl = this.getCompletionUrl();
+        if (this.recruitmentOptions?.redirectOnFinish && completionUrl) {
+            console.log(`[DataManager] Redirecting to ${completionUrl}`);
+            window.location.assign(completionUrl);
+        }
+    }
+
+    /**
+     * Sets the session status and writes it to the backend once the session exists
+     * @param status The new status
+     * @param fields Additional fields to write along with the status
+     */
+    private async setSessionStatus(status: SessionStatus, fields: Partial<ExperimentMetadata> = {}): Promise<void> {
+        this.sessionStatus = status;
+        this.metadata.status = status;
+
+        if (!this.sessionStarted) {
+            return;
+        }
+
+        try {
+            await this.writeSessionFields({ status, ...fields });
+        } catch (error) {
+            console.error(`[DataManager] Error writing session status "${status}":`, error);
+        }
+    }
+
+    /**
+     * Writes fields to the stored session record, encrypting the configured metadata fields first
+     * @param fields The fields to set
+     * @throws {Error} If the update fails
+     */
+    private async writeSessionFields(fields: Partial<ExperimentMetadata>): Promise<void> {
+        await this.updateSession(await this.encryptMetadata(fields));
+    }
+
+    /**
+     * Marks a running session as abandoned when the page is closed or has been hidden too long
+     */
+    private markAbandoned(): void {
+        if (this.sessionStatus === 'started' || this.sessionStatus === 'in_progress') {
+            this.setSessionStatus('abandoned', this.getFinishFields());
+        }
+    }
+
+    /**
+     * Marks an abandoned session as in progress again when the participant comes back to the page
+     */
+    private markReturned(): void {
+        if (this.sessionStatus === 'abandoned') {
+            this.setSessionStatus('in_progress', { finished_at: null, duration_ms: null });
+        }
+    }
+
+    /**
+     * Gets the end time, duration and trial count of the session
+     * @returns The fields describing the end of the session
+     */
+    private getFinishFields(): Partial<ExperimentMetadata> {
+        const finishedAt = Date.now();
+        return {
+            finished_at: new Date(finishedAt).toISOString(),
+            duration_ms: finishedAt - this.startedAt,
+            trial_count: this.completedTrials
+        };
+    }
+
+    /**
+     * Replaces the media fields of a trial with references, checks its size and starts uploading them
+     * @param trial The validated trial
+     * @returns The trial with media references, or undefined if it is too large and must not be written
+     */
+    private uploadTrialMedia(trial: TrialData): TrialData | undefined {
+        const result = extractMedia(trial, this.mediaOptions!, this.mediaFolder ?? 'unassigned');
+        result.errors.forEach(({ field, error }) => {
+            console.error(`[DataManager] Could not decode media field "${field}", storing its original value:`, error);
+            this.events.emit('media:invalid', { trial, field, error });
+        });
+
+        // The size limit applies to the stored trial, not to the recordings it referred to
+        let stored: TrialData | undefined = result.trial;
+        const sizeErrors = this.validator?.checkSize(result.trial) ?? [];
+        if (sizeErrors.length > 0) {
+            const { _validation_errors: earlierErrors = [], ...withReferences } = result.trial;
+            stored = this.handleInvalidTrial({ valid: false, errors: [...earlierErrors, ...sizeErrors], trial: withReferences as TrialData });
+            // Quarantined trials keep their references, so only rejected trials skip the uploads
+            if (this.validationOptions.onInvalid === 'reject') {
+                return undefined;
+            }
+        }
+
+        result.uploads.forEach(upload => this.mediaUploader!.enqueue(upload));
+        return stored;
+    }
+
+    /**
+     * Stamps a trial if configured, adds it to the write queue and announces it
+     * @param trial The trial as it will be written
+     */
+    private queueTrial(trial: TrialData): void {
+        if (this.integrity) {
+            const sequence = this.nextSequence++;
+            trial = stampTrial(trial, sequence);
+            this.sessionTracker?.recordSequence(sequence);
+        }
+
+        this.writeQueue.enqueue(trial);
+        this.events.emit('trial:queued', { trial, status: this.getQueueStatus() });
+    }
+
+    /**
+     * Writes a batch from the write queue, running the write hooks around it
+     * @param trials The trials to write
+     * @throws {Error} If the backend write or the beforeWrite hook fails
+     */
+    private async writeTrials(trials: TrialData[]): Promise<void> {
+        // Backends encode and copy trials before sending them, which must not delay a stimulus either
+        await this.scheduler?.whenDone();
+
+        const written = (this.hooks.beforeWrite && await this.hooks.beforeWrite(trials)) || trials;
+        await this.addTrialBatch(written);
+
+        try {
+            await this.hooks.afterWrite?.(written);
+        } catch (error) {
+            console.error("[DataManager] Error in afterWrite hook:", error);
+        }
+    }
+
+    /**
+     * Validates a trial and applies the invalid data policy
+     * @param trialData The trial data from jsPsych
+     * @returns The (coerced) trial to write, or undefined if it must not be written
+     */
+    private validateTrial(trialData: TrialData): TrialData | undefined {
+        if (!this.validator) {
+            return trialData;
+        }
+
+        // With media uploads, the size is checked once media fields hold references
+        const result = this.validator.validate(trialData, !this.mediaUploader);
+        return result.valid ? result.trial : this.handleInvalidTrial(result);
+    }
+
+    /**
+     * Applies the invalid data policy to a trial that failed validation
+     * @param result The validation result of the trial
+     * @returns The tagged trial to write, or undefined if it must not be written
+     */
+    private handleInvalidTrial(result: ValidationResult): TrialData | undefined {
+        console.warn(`[DataManager] Invalid "${result.trial.trial_type}" trial:`, result.errors);
+
+        switch (this.validationOptions.onInvalid ?? 'tag') {
+            case 'reject':
+                return undefined;
+            case 'tag':
+                return { ...result.trial, _validation_errors: result.errors };
+            case 'quarantine':
+                this.quarantineTrial(result);
+                return undefined;
+        }
+    }
+
+    /**
+     * Sends an invalid trial to the quarantine store
+     * @param result The validation result of the trial
+     */
+    private async quarantineTrial(result: ValidationResult): Promise<void> {
+        const quarantine = this.validationOptions.quarantine!;
+        try {
+            if (typeof quarantine === 'function') {
+                await quarantine(result.trial, result.errors);
+            } else {
+                quarantine.enqueueTrialData({ ...result.trial, _validation_errors: result.errors });
+            }
+        } catch (error) {
+            console.error("[DataManager] Error quarantining invalid trial:", error);
+        }
+    }
+
+    /**
+     * Encrypts the metadata fields listed in the encryption options
+     *
+     * Child classes call this on the session record before storing it.
+     * @param data The session record
+     * @returns The session record with the configured fields encrypted
+     */
+    protected async encryptMetadata<T extends Partial<ExperimentData>>(data: T): Promise<T> {
+        return this.encryptor ? this.encryptor.encryptMetadata(data) : data;
+    }
+
+    /**
+     * Encodes a trial with the configured codec, if any
+     * @param trial The original trial data
+     * @returns The trial data to store
+     */
+    protected encodeTrial(trial: TrialData): TrialData {
+        return this.codec ? this.codec.encode(trial) : trial;
+    }
+
+    /**
+     * Starts writing queued trials to the backend
+     *
+     * Child classes call this once the experiment storage is ready, after
+     * trackSessionStart. Trials left over from a previous page load are only
+     * replayed if they belong to the same session.
+     * @param sessionId Identifier of the session the queued trials belong to (default: the tracked session)
+     * @throws {Error} If there is no session ID
+     */
+    protected startWriteQueue(sessionId: string | undefined = this.currentSessionId): void {
+        if (!sessionId) {
+            throw new Error("Failed to start the write queue: the session has no ID");
+        }
+        this.writeQueue.start(sessionId);
+    }
+
+    /**
+     * Reads a stored session, with decoded trials in order
+     *
+     * Child classes whose backend can be read override this. Encrypted
+     * trials and metadata fields are returned as stored.
+     * @param sessionId Backend identifier of the session
+     * @returns The session, or undefined if it does not exist
+     * @throws {Error} If reading fails or the manager cannot read its backend
+     */
+    public async getSession(sessionId: string): Promise<ExperimentData | undefined> {
+        throw new Error(`Failed to read session ${sessionId}: reading is not supported by this manager`);
+    }
+
+    /**
+     * Reads the stored sessions that match a query, with decoded trials in order
+     * @param sessionQuery Metadata fields, date range, status and page to select (default: all sessions)
+     * @returns The matching sessions of the page
+     * @throws {Error} If reading fails or the manager cannot read its backend
+     */
+    public async listSessions(sessionQuery: SessionQuery = {}): Promise<StoredSession[]> {
+        throw new Error("Failed to list sessions: reading is not supported by this manager");
+    }
+
+    /**
+     * Counts the stored sessions that match a query
+     * @param sessionQuery Metadata fields, date range and status to select; the page is ignored
+     * @returns The number of matching sessions
+     * @throws {Error} If reading fails or the manager cannot read its backend
+     */
+    public async countSessions(sessionQuery: SessionQuery = {}): Promise<number> {
+        throw new Error("Failed to count sessions: reading is not supported by this manager");
+    }
 
     /**
      * Gets the current experiment metadata
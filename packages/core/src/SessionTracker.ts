@@ -0,0 +1,140 @@
+/**
+ * Interface for the locally persisted state of an unfinished session
+ */
+export interface ResumableSession {
+    /** Backend identifier of the session (e.g., document ID or row ID) */
+    sessionId: string;
+    /** jsPsych trial_index of the last completed trial (-1 if none) */
+    lastTrialIndex: number;
+    /** The time the session was started (ISO 8601) */
+    startedAt: string;
+    /** The time the session state was last updated (ISO 8601) */
+    updatedAt: string;
+    /** Sequence number of the last queued trial (only with the `integrity` option) */
+    lastSequence?: number;
+}
+
+/**
+ * Interface for the result of resuming a session
+ */
+export interface ResumeInfo {
+    /** Backend identifier of the resumed session */
+    sessionId: string;
+    /** Number of trials completed before the reload */
+    completedTrials: number;
+}
+
+/**
+ * Interface for session resume options
+ */
+export interface ResumeOptions {
+    /** Key used to persist the session state (default: derived from the manager class and where it stores data) */
+    storageKey?: string;
+}
+
+/**
+ * Persists the identity and progress of the current session in localStorage
+ *
+ * The state is written when a session starts and after every completed
+ * trial, and removed when the session finishes. A state that is still present
+ * on the next page load belongs to a session that can be resumed.
+ */
+export class SessionTracker {
+    private state?: ResumableSession;
+
+    /**
+     * Creates a new SessionTracker instance
+     * @param storageKey The localStorage key to use
+     */
+    constructor(private readonly storageKey: string) {}
+
+    /**
+     * Loads the state of an unfinished session from a previous page load
+     * @returns The persisted state, or undefined if there is none
+     */
+    public load(): ResumableSession | undefined {
+        try {
+            const raw = window.localStorage.getItem(this.storageKey);
+            this.state = raw ? JSON.parse(raw) : undefined;
+        } catch (error) {
+            console.error("[SessionTracker] Error loading session state:", error);
+            this.state = undefined;
+        }
+        return this.state ? { ...this.state } : undefined;
+    }
+
+    /**
+     * Records the start of a new session, replacing any previous state
+     * @param sessionId Backend identifier of the session
+     */
+    public start(sessionId: string): void {
+        const now = new Date().toISOString();
+        this.state = { sessionId, lastTrialIndex: -1, startedAt: now, updatedAt: now };
+        this.save();
+    }
+
+    /**
+     * Continues tracking a previously persisted session
+     * @param state The state to continue from
+     */
+    public continue(state: ResumableSession): void {
+        this.state = { ...state };
+        this.save();
+    }
+
+    /**
+     * Records that a trial has been completed
+     * @param trialIndex jsPsych trial_index of the completed trial
+     */
+    public recordTrial(trialIndex: number): void {
+        if (!this.state) {
+            return;
+        }
+        this.state.lastTrialIndex = Math.max(this.state.lastTrialIndex, trialIndex);
+        this.state.updatedAt = new Date().toISOString();
+        this.save();
+    }
+
+    /**
+     * Records the sequence number of the last queued trial
+     * @param sequence The sequence number
+     */
+    public recordSequence(sequence: number): void {
+        if (!this.state) {
+            return;
+        }
+        this.state.lastSequence = sequence;
+        this.save();
+    }
+
+    /**
+     * Gets the index of the last completed trial
+     * @returns The trial index, or -1 if no trial has been completed
+     */
+    public getLastTrialIndex(): number {
+        return this.state ? this.state.lastTrialIndex : -1;
+    }
+
+    /**
+     * Removes the persisted state once the session has finished
+     */
+    public complete(): void {
+        this.state = undefined;
+        try {
+            window.localStorage.removeItem(this.storageKey);
+        } catch (error) {
+            console.error("[SessionTracker] Error clearing session state:", error);
+        }
+    }
+
+    /**
+     * Writes the current state to localStorage
+     */
+    private save(): void {
+        try {
+            window.localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+        } catch (error) {
+            console.error("[SessionTracker] Error saving session state:", error);
+        }
+    }
+}
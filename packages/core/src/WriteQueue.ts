@@ -0,0 +1,603 @@
+import { TrialData } from './DataManager';
+import { encodeValue, decodeValue } from './serialization';
+
+/**
+ * Status of a single entry in the write queue
+ */
+export type QueueEntryStatus = 'pending' | 'failed';
+
+/**
+ * Interface for a trial waiting in the write queue
+ */
+export interface QueueEntry {
+    /** Unique identifier of the entry */
+    id: string;
+    /** The trial data to write */
+    trial: TrialData;
+    /** Number of write attempts made so far */
+    attempts: number;
+    /** Current status of the entry */
+    status: QueueEntryStatus;
+    /** The time the entry was added to the queue (ms since epoch) */
+    enqueuedAt: number;
+    /** Message of the last error encountered, if any */
+    lastError?: string;
+    /** Approximate serialized size of the trial in bytes */
+    bytes: number;
+    /** ID of the session the trial belongs to; set once the queue is started */
+    sessionId?: string;
+}
+
+/**
+ * Interface for the persistence layer behind a WriteQueue
+ */
+export interface QueueStorage {
+    /**
+     * Loads all persisted entries
+     * @returns The persisted entries in insertion order
+     */
+    load(): QueueEntry[];
+
+    /**
+     * Persists the given entries, replacing anything stored before
+     * @param entries The entries to persist
+     */
+    save(entries: QueueEntry[]): void;
+}
+
+/**
+ * Interface for batching options
+ *
+ * A batch is written as soon as any of the limits is reached.
+ */
+export interface BatchOptions {
+    /** Number of queued trials that triggers a write (default: 10) */
+    maxTrials?: number;
+    /** Time in milliseconds the oldest queued trial may wait before a write (default: 5000) */
+    maxWaitMs?: number;
+    /** Serialized size in bytes of queued trials that triggers a write (default: 500000) */
+    maxBytes?: number;
+}
+
+/**
+ * Interface for write queue options
+ */
+export interface WriteQueueOptions {
+    /** Where to persist queued trials (default: "localStorage", falling back to "memory") */
+    storage?: 'localStorage' | 'memory' | QueueStorage;
+    /** Key used to persist the queue (default: derived from the manager class and where it stores data) */
+    storageKey?: string;
+    /** Maximum number of write attempts before an entry is marked as failed (default: 5) */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds (default: 1000) */
+    initialDelay?: number;
+    /** Upper bound for the retry delay in milliseconds (default: 30000) */
+    maxDelay?: number;
+    /** Write trials in batches instead of one by one (default: no batching) */
+    batch?: BatchOptions;
+}
+
+/**
+ * Interface for callbacks about the outcome of writes
+ */
+export interface WriteQueueListener {
+    /**
+     * Called after a batch was written
+     * @param trials The trials that were written
+     */
+    onWrite?: (trials: TrialData[]) => void;
+    /**
+     * Called after a batch failed to write
+     * @param trials The trials that failed
+     * @param error The error thrown by the writer
+     * @param attempts The number of attempts made so far
+     * @param willRetry Whether the batch will be retried
+     */
+    onFailure?: (trials: TrialData[], error: unknown, attempts: number, willRetry: boolean) => void;
+}
+
+/**
+ * Interface for a snapshot of the write queue state
+ */
+export interface QueueStatus {
+    /** Number of trials waiting to be written */
+    pending: number;
+    /** Number of trials that exhausted their retries */
+    failed: number;
+}
+
+/**
+ * Queue storage that keeps entries in memory only
+ */
+export class MemoryQueueStorage implements QueueStorage {
+    private entries: QueueEntry[] = [];
+
+    public load(): QueueEntry[] {
+        return this.entries.map(entry => ({ ...entry }));
+    }
+
+    public save(entries: QueueEntry[]): void {
+        this.entries = entries.map(entry => ({ ...entry }));
+    }
+}
+
+/**
+ * Queue storage that persists entries to window.localStorage
+ *
+ * Entries are stored in the lossless format, so values such as `undefined`
+ * or `NaN` survive a page reload. Each entry is serialized once and reused
+ * until its attempts or status change, so saving after every write does
+ * not serialize the whole queue again.
+ */
+export class LocalStorageQueueStorage implements QueueStorage {
+    private serialized: Map<string, { signature: string; json: string }> = new Map();
+
+    /**
+     * Creates a new LocalStorageQueueStorage instance
+     * @param key The localStorage key to use
+     */
+    constructor(private readonly key: string) {}
+
+    /**
+     * Checks whether localStorage is usable in the current environment
+     * @returns True if localStorage can be read and written
+     */
+    public static isAvailable(): boolean {
+        try {
+            const probe = '__jspsych_datamanager_probe__';
+            window.localStorage.setItem(probe, probe);
+            window.localStorage.removeItem(probe);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    public load(): QueueEntry[] {
+        const raw = window.localStorage.getItem(this.key);
+        if (!raw) {
+            return [];
+        }
+
+        try {
+            const entries = decodeValue(JSON.parse(raw));
+            return Array.isArray(entries) ? entries : [];
+        } catch (error) {
+            console.error("[WriteQueue] Error parsing persisted queue:", error);
+            return [];
+        }
+    }
+
+    public save(entries: QueueEntry[]): void {
+        if (entries.length === 0) {
+            this.serialized.clear();
+            window.localStorage.removeItem(this.key);
+            return;
+        }
+
+        const serialized = new Map<string, { signature: string; json: string }>();
+        const parts = entries.map(entry => {
+            const signature = `${entry.sessionId ?? ''}:${entry.attempts}:${entry.status}:${entry.lastError ?? ''}`;
+            const cached = this.serialized.get(entry.id);
+            const json = cached?.signature === signature ? cached.json : JSON.stringify(encodeValue(entry));
+            serialized.set(entry.id, { signature, json });
+            return json;
+        });
+
+        this.serialized = serialized;
+        window.localStorage.setItem(this.key, `[${parts.join(',')}]`);
+    }
+}
+
+/**
+ * A persistent write-ahead queue for trial data
+ *
+ * Trials are persisted before they are written to the backend and removed
+ * only once the write succeeds. Failed writes are retried with exponential
+ * backoff. Every entry records the session it belongs to: entries left over
+ * from a previous page load are replayed only when the queue is started for
+ * the same session (i.e., the session is resumed); entries of other sessions
+ * are kept as orphaned entries until they are exported or discarded. With
+ * batching enabled, trials are held back until a batch limit is reached or
+ * the queue is flushed.
+ *
+ * @example
+ * ```typescript
+ * const queue = new WriteQueue(trials => manager.addTrialBatch(trials), {
+ *     storageKey: "my-experiment",
+ *     maxAttempts: 10,
+ *     batch: { maxTrials: 20, maxWaitMs: 10000 }
+ * });
+ * queue.start(sessionId);
+ * queue.enqueue({ trial_type: "html-keyboard-response", rt: 512 });
+ * ```
+ */
+export class WriteQueue {
+    private readonly storage: QueueStorage;
+    private readonly maxAttempts: number;
+    private readonly initialDelay: number;
+    private readonly maxDelay: number;
+    private readonly batch: Required<BatchOptions>;
+    private entries: QueueEntry[] = [];
+    private orphaned: QueueEntry[];
+    private sessionId?: string;
+    private started: boolean = false;
+    private processing: boolean = false;
+    private forceFlush: boolean = false;
+    private retryTimer?: ReturnType<typeof setTimeout>;
+    private batchTimer?: ReturnType<typeof setTimeout>;
+    private inFlight: QueueEntry[] = [];
+    private idleResolvers: (() => void)[] = [];
+    private counter: number = 0;
+
+    /**
+     * Creates a new WriteQueue instance
+     * @param writer Function that writes a batch of trials to the backend
+     * @param options Additional options for the queue
+     * @param listener Callbacks about the outcome of writes
+     */
+    constructor(
+        private readonly writer: (trials: TrialData[]) => Promise<void>,
+        options: WriteQueueOptions = {},
+        private readonly listener: WriteQueueListener = {}
+    ) {
+        this.storage = WriteQueue.resolveStorage(options);
+        this.maxAttempts = options.maxAttempts ?? 5;
+        this.initialDelay = options.initialDelay ?? 1000;
+        this.maxDelay = options.maxDelay ?? 30000;
+        this.batch = options.batch
+            ? {
+                maxTrials: options.batch.maxTrials ?? 10,
+                maxWaitMs: options.batch.maxWaitMs ?? 5000,
+                maxBytes: options.batch.maxBytes ?? 500000
+            }
+            : { maxTrials: 1, maxWaitMs: 0, maxBytes: Infinity };
+        // Restored entries are only written once start() knows which session they belong to
+        this.orphaned = this.storage.load();
+
+        if (this.orphaned.length > 0) {
+            console.log(`[WriteQueue] Restored ${this.orphaned.length} queued trials from a previous page load`);
+        }
+
+        if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+            window.addEventListener('online', () => this.retryNow());
+            // Hidden pages may never become visible again, so write held-back batches now
+            window.addEventListener('pagehide', () => this.flush().catch(() => {}));
+            document.addEventListener('visibilitychange', () => {
+                if (document.visibilityState === 'hidden') {
+                    this.flush().catch(() => {});
+                }
+            });
+        }
+    }
+
+    /**
+     * Starts processing the queue for a session
+     *
+     * Trials queued before the start are assigned to the session. Restored
+     * entries of the same session are written first; restored entries of
+     * other sessions (or without a session) stay orphaned and are not written.
+     * @param sessionId Backend identifier of the session the queue writes to
+     */
+    public start(sessionId: string): void {
+        this.sessionId = sessionId;
+
+        const own = this.orphaned.filter(entry => entry.sessionId === sessionId);
+        this.orphaned = this.orphaned.filter(entry => entry.sessionId !== sessionId);
+        for (const entry of this.entries) {
+            entry.sessionId = entry.sessionId ?? sessionId;
+        }
+        this.entries = [...own, ...this.entries];
+
+        if (own.length > 0) {
+            console.log(`[WriteQueue] Replaying ${own.length} queued trials of session ${sessionId}`);
+        }
+        if (this.orphaned.length > 0) {
+            console.warn(`[WriteQueue] Keeping ${this.orphaned.length} queued trials of other sessions; they are written only if their session is resumed`);
+        }
+
+        this.persist();
+        this.started = true;
+        this.process();
+    }
+
+    /**
+     * Adds a trial to the queue and schedules it for writing
+     * @param trial The trial data to write
+     */
+    public enqueue(trial: TrialData): void {
+        this.entries.push({
+            id: `${Date.now().toString(36)}-${(this.counter++).toString(36)}`,
+            trial,
+            attempts: 0,
+            status: 'pending',
+            enqueuedAt: Date.now(),
+            bytes: JSON.stringify(trial).length,
+            sessionId: this.sessionId
+        });
+        this.persist();
+        this.process();
+    }
+
+    /**
+     * Gets the number of pending and failed trials
+     * @returns The current queue status
+     */
+    public getStatus(): QueueStatus {
+        const failed = this.entries.filter(entry => entry.status === 'failed').length;
+        return {
+            pending: this.entries.length - failed,
+            failed
+        };
+    }
+
+    /**
+     * Gets a copy of the trials that exhausted their retries
+     * @returns The failed entries
+     */
+    public getFailedEntries(): QueueEntry[] {
+        return this.entries
+            .filter(entry => entry.status === 'failed')
+            .map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Gets a copy of the pending entries that are not currently being written
+     * @returns The pending entries in insertion order
+     */
+    public getPendingEntries(): QueueEntry[] {
+        return this.entries
+            .filter(entry => entry.status === 'pending' && !this.inFlight.includes(entry))
+            .map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Gets a copy of the entries left over from other sessions
+     *
+     * These are not written to the current session. Export them, then
+     * remove them with discardOrphaned().
+     * @returns The orphaned entries in insertion order
+     */
+    public getOrphanedEntries(): QueueEntry[] {
+        return this.orphaned.map(entry => ({ ...entry }));
+    }
+
+    /**
+     * Removes the entries left over from other sessions
+     */
+    public discardOrphaned(): void {
+        this.orphaned = [];
+        this.persist();
+    }
+
+    /**
+     * Removes entries that were written by other means (e.g., a final beacon)
+     * @param ids The IDs of the entries to remove
+     */
+    public remove(ids: string[]): void {
+        this.entries = this.entries.filter(entry => !ids.includes(entry.id));
+        this.persist();
+        this.notifyIfDrained();
+    }
+
+    /**
+     * Moves all failed entries back to pending and retries them
+     */
+    public retryFailed(): void {
+        for (const entry of this.entries) {
+            if (entry.status === 'failed') {
+                entry.status = 'pending';
+                entry.attempts = 0;
+            }
+        }
+        this.persist();
+        this.retryNow();
+    }
+
+    /**
+     * Waits until there are no more pending entries
+     *
+     * Failed entries do not block this promise.
+     * @returns A promise that resolves once the queue has drained
+     * @throws {Error} If entries are pending but the queue has not been started, as they could never drain
+     */
+    public whenDrained(): Promise<void> {
+        if (this.getStatus().pending === 0) {
+            return Promise.resolve();
+        }
+        if (!this.started) {
+            return Promise.reject(new Error(`Failed to write ${this.getStatus().pending} queued trials: the queue has not been started`));
+        }
+        return new Promise(resolve => this.idleResolvers.push(resolve));
+    }
+
+    /**
+     * Writes all pending entries now, regardless of batch limits
+     * @returns A promise that resolves once the queue has drained
+     * @throws {Error} If entries are pending but the queue has not been started
+     */
+    public flush(): Promise<void> {
+        this.forceFlush = true;
+        const drained = this.whenDrained();
+        this.retryNow();
+        return drained;
+    }
+
+    /**
+     * Cancels any scheduled retry and processes pending entries immediately
+     */
+    private retryNow(): void {
+        if (this.retryTimer !== undefined) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = undefined;
+        }
+        this.process();
+    }
+
+    /**
+     * Writes pending entries in order, one batch at a time
+     */
+    private async process(): Promise<void> {
+        if (!this.started || this.processing || this.retryTimer !== undefined) {
+            return;
+        }
+        if (this.batchTimer !== undefined) {
+            clearTimeout(this.batchTimer);
+            this.batchTimer = undefined;
+        }
+        this.processing = true;
+
+        try {
+            let batch: QueueEntry[] | undefined;
+            while ((batch = this.nextBatch())) {
+                this.inFlight = batch;
+                try {
+                    await this.writer(batch.map(entry => entry.trial));
+                    this.entries = this.entries.filter(entry => !batch!.includes(entry));
+                    this.persist();
+                    this.listener.onWrite?.(batch.map(entry => entry.trial));
+                } catch (error) {
+                    const attempts = this.recordFailure(batch, error);
+                    this.listener.onFailure?.(batch.map(entry => entry.trial), error, attempts, attempts < this.maxAttempts);
+                    if (attempts >= this.maxAttempts) {
+                        continue;
+                    }
+
+                    const delay = Math.min(this.initialDelay * 2 ** (attempts - 1), this.maxDelay);
+                    console.warn(`[WriteQueue] Write failed, retrying in ${delay}ms (attempt ${attempts}/${this.maxAttempts})`);
+                    this.retryTimer = setTimeout(() => {
+                        this.retryTimer = undefined;
+                        this.process();
+                    }, delay);
+                    return;
+                } finally {
+                    this.inFlight = [];
+                }
+            }
+
+            this.scheduleBatch();
+            this.notifyIfDrained();
+        } finally {
+            this.processing = false;
+        }
+    }
+
+    /**
+     * Picks the next entries to write, if a batch is due
+     * @returns The entries to write, or undefined if nothing is due yet
+     */
+    private nextBatch(): QueueEntry[] | undefined {
+        const pending = this.entries.filter(entry => entry.status === 'pending');
+        if (pending.length === 0) {
+            this.forceFlush = false;
+            return undefined;
+        }
+
+        const pendingBytes = pending.reduce((total, entry) => total + entry.bytes, 0);
+        const isDue = this.forceFlush
+            || pending.length >= this.batch.maxTrials
+            || pendingBytes >= this.batch.maxBytes
+            || Date.now() - pending[0].enqueuedAt >= this.batch.maxWaitMs
+            || pending[0].attempts > 0;
+
+        if (!isDue) {
+            return undefined;
+        }
+
+        const batch = [pending[0]];
+        let bytes = pending[0].bytes;
+        for (const entry of pending.slice(1)) {
+            if (batch.length >= this.batch.maxTrials || bytes + entry.bytes > this.batch.maxBytes) {
+                break;
+            }
+            batch.push(entry);
+            bytes += entry.bytes;
+        }
+
+        return batch;
+    }
+
+    /**
+     * Schedules processing for when the oldest pending entry reaches the batch wait limit
+     */
+    private scheduleBatch(): void {
+        const oldest = this.entries.find(entry => entry.status === 'pending');
+        if (!oldest) {
+            return;
+        }
+
+        const wait = Math.max(oldest.enqueuedAt + this.batch.maxWaitMs - Date.now(), 0);
+        this.batchTimer = setTimeout(() => {
+            this.batchTimer = undefined;
+            this.process();
+        }, wait);
+    }
+
+    /**
+     * Records a failed write on every entry of a batch
+     * @param batch The entries that failed to write
+     * @param error The error thrown by the writer
+     * @returns The number of attempts made for the batch
+     */
+    private recordFailure(batch: QueueEntry[], error: unknown): number {
+        const message = error instanceof Error ? error.message : String(error);
+        let attempts = 0;
+
+        for (const entry of batch) {
+            entry.attempts++;
+            entry.lastError = message;
+            attempts = Math.max(attempts, entry.attempts);
+            if (entry.attempts >= this.maxAttempts) {
+                entry.status = 'failed';
+            }
+        }
+
+        if (attempts >= this.maxAttempts) {
+            console.error(`[WriteQueue] Giving up on ${batch.length} trials after ${attempts} attempts:`, error);
+        }
+
+        this.persist();
+        return attempts;
+    }
+
+    /**
+     * Resolves pending whenDrained() promises if nothing is left to write
+     */
+    private notifyIfDrained(): void {
+        if (this.getStatus().pending > 0) {
+            return;
+        }
+        const resolvers = this.idleResolvers;
+        this.idleResolvers = [];
+        resolvers.forEach(resolve => resolve());
+    }
+
+    /**
+     * Writes the current entries to storage
+     */
+    private persist(): void {
+        try {
+            this.storage.save([...this.orphaned, ...this.entries]);
+        } catch (error) {
+            console.error("[WriteQueue] Error persisting queue:", error);
+        }
+    }
+
+    /**
+     * Resolves the storage backend from the queue options
+     * @param options The queue options
+     * @returns The storage to use
+     */
+    private static resolveStorage(options: WriteQueueOptions): QueueStorage {
+        const storage = options.storage ?? 'localStorage';
+        if (typeof storage !== 'string') {
+            return storage;
+        }
+
+        if (storage === 'localStorage' && LocalStorageQueueStorage.isAvailable()) {
+            return new LocalStorageQueueStorage(options.storageKey ?? 'jspsych-datamanager-queue');
+        }
+
+        return new MemoryQueueStorage();
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * How conditions are assigned
+ * - "least-filled": the condition with the fewest completed and in-progress sessions
+ * - "latin-square": the least-filled row of a Latin square over the conditions
+ */
+export type AssignmentStrategy = 'least-filled' | 'latin-square';
+
+/**
+ * Interface for condition assignment options
+ */
+export interface AssignmentOptions {
+    /** How the condition is chosen (default: "least-filled") */
+    strategy?: AssignmentStrategy;
+    /** Metadata field the condition is written to; its slot index goes to "<field>_index" (default: "condition") */
+    field?: string;
+    /** Name of the counter shared by all participants (default: the field name) */
+    name?: string;
+}
+
+/**
+ * Interface for an assigned condition
+ */
+export interface ConditionAssignment<T> {
+    /** Index of the assigned condition, or of the Latin square row */
+    index: number;
+    /** The assigned condition (with "latin-square", the first condition of the row) */
+    condition: T;
+    /** The conditions in the order this participant receives them (with "least-filled", just the condition) */
+    order: T[];
+}
+
+/**
+ * Interface for the shared counter that conditions are assigned from
+ */
+export interface AssignmentCounter {
+    /** Number of sessions assigned to each slot */
+    assigned: number[];
+    /** Number of sessions completed in each slot */
+    completed: number[];
+}
+
+/**
+ * Interface for a request to claim an assignment slot from a backend
+ */
+export interface AssignmentSlotRequest {
+    /** Name of the counter */
+    name: string;
+    /** Number of slots (conditions or Latin square rows) */
+    slotCount: number;
+    /** Metadata field the slot index is stored in, used to count existing sessions */
+    indexField: string;
+}
+
+/**
+ * Picks the least-filled slot of a counter
+ *
+ * Slots are ranked by their assigned sessions, i.e. completed sessions plus
+ * sessions still in progress, so every claim moves the next participant to
+ * another slot and participants arriving at the same time are spread over
+ * the slots. Ties go to the slot with fewer completed sessions, then to the
+ * lowest index. Counters seeded from stored sessions may count completed
+ * sessions that were never assigned through the counter, so a slot's load
+ * is at least its completed count.
+ * @param counter The current counter
+ * @param slotCount The number of slots
+ * @returns The index of the chosen slot
+ */
+export function pickLeastFilledSlot(counter: AssignmentCounter, slotCount: number): number {
+    const completed = (slot: number) => counter.completed[slot] ?? 0;
+    const load = (slot: number) => Math.max(counter.assigned[slot] ?? 0, completed(slot));
+
+    let best = 0;
+    for (let slot = 1; slot < slotCount; slot++) {
+        if (load(slot) < load(best) || (load(slot) === load(best) && completed(slot) < completed(best))) {
+            best = slot;
+        }
+    }
+    return best;
+}
+
+/**
+ * Increments one slot of a counter list
+ * @param counts The counts (missing slots count as 0)
+ * @param slot The slot to increment
+ * @param slotCount The number of slots
+ * @returns A new list with the slot incremented
+ */
+export function incrementSlot(counts: number[], slot: number, slotCount: number): number[] {
+    const result = Array.from({ length: Math.max(slotCount, counts.length) }, (_, i) => counts[i] ?? 0);
+    result[slot]++;
+    return result;
+}
+
+/**
+ * Builds a Latin square of condition indices
+ *
+ * For an even number of conditions this is a balanced (Williams) design in
+ * which every condition follows every other condition once. For an odd
+ * number, each condition still appears once per row and position.
+ * @example
+ * ```typescript
+ * createLatinSquare(4); // [[0, 1, 3, 2], [1, 2, 0, 3], [2, 3, 1, 0], [3, 0, 2, 1]]
+ * ```
+ * @param size The number of conditions
+ * @returns One row per participant group, each a permutation of 0..size-1
+ */
+export function createLatinSquare(size: number): number[][] {
+    // First row: 0, 1, n-1, 2, n-2, ...
+    const first = [0];
+    for (let low = 1, high = size - 1; first.length < size;) {
+        first.push(first.length % 2 === 1 ? low++ : high--);
+    }
+
+    return first.map((_, row) => first.map(condition => (condition + row) % size));
+}
@@ -0,0 +1,155 @@
+import { DataManager, TrialData } from './DataManager';
+import { DataManagerFactory } from './conformance';
+
+/**
+ * Options for the main-thread benchmark
+ */
+export interface BenchmarkOptions {
+    /** Number of trials (default: 50) */
+    trialCount?: number;
+    /** Approximate serialized size of each trial in bytes (default: 100000) */
+    payloadBytes?: number;
+    /** Gap in milliseconds between a trial and the next stimulus, like jsPsych's post_trial_gap (default: 100) */
+    interTrialMs?: number;
+    /** Creates the trials (default: mouse-tracking trials of about `payloadBytes`) */
+    createTrial?: (index: number, payloadBytes: number) => TrialData;
+    /** Releases the manager afterwards, e.g. deletes its Firebase app (optional) */
+    cleanup?: (manager: DataManager) => void | Promise<void>;
+}
+
+/**
+ * Interface for a summary of timings in milliseconds
+ */
+export interface TimingSummary {
+    /** Mean */
+    mean: number;
+    /** Median */
+    p50: number;
+    /** 95th percentile */
+    p95: number;
+    /** Maximum */
+    max: number;
+}
+
+/**
+ * Interface for the result of the main-thread benchmark
+ */
+export interface BenchmarkResult {
+    /** Number of trials */
+    trialCount: number;
+    /** Serialized size of the first trial in bytes */
+    payloadBytes: number;
+    /** Time spent inside the on_data_update callback per trial */
+    callback: TimingSummary;
+    /** How much later than planned the next stimulus could be shown, per trial */
+    onsetDelay: TimingSummary;
+    /** Time from the last trial until every trial was written */
+    drainMs: number;
+}
+
+/**
+ * Measures how much a manager blocks the main thread between trials
+ *
+ * Runs a simulated timeline: each trial's data is passed to the
+ * on_data_update callback, and the next stimulus is due `interTrialMs`
+ * after the trial ended. As jsPsych starts the gap only once the callback
+ * returns, time spent in the callback delays the onset directly, and so
+ * does work in tasks the manager schedules that outlasts the gap. Run it in a
+ * browser page for realistic idle periods and rendering. In Node.js
+ * (`pnpm bench`), the results only serve to compare versions of this
+ * package.
+ *
+ * @example
+ * ```typescript
+ * const result = await runMainThreadBenchmark(
+ *     () => new MockDataManager({ scheduling: { mode: 'idle' } }),
+ *     { payloadBytes: 500000 }
+ * );
+ * console.log(result.onsetDelay.p95);
+ * ```
+ * @param factory Creates the uninitialized manager to measure
+ * @param options Options for the benchmark
+ * @returns The timings
+ */
+export async function runMainThreadBenchmark(factory: DataManagerFactory, options: BenchmarkOptions = {}): Promise<BenchmarkResult> {
+    const trialCount = options.trialCount ?? 50;
+    const payloadBytes = options.payloadBytes ?? 100000;
+    const interTrialMs = options.interTrialMs ?? 100;
+    const createTrial = options.createTrial ?? createMouseTrackingTrial;
+
+    const trials = Array.from({ length: trialCount }, (_, i) => createTrial(i, payloadBytes));
+    const callbackTimes: number[] = [];
+    const onsetDelays: number[] = [];
+
+    const manager = await factory();
+    try {
+        await manager.initializeExperiment({});
+        const update = manager.createDataUpdateCallback();
+
+        for (const trial of trials) {
+            const start = performance.now();
+            const onset = start + interTrialMs;
+
+            update(trial);
+            callbackTimes.push(performance.now() - start);
+
+            await new Promise(resolve => setTimeout(resolve, interTrialMs));
+            onsetDelays.push(Math.max(performance.now() - onset, 0));
+        }
+
+        const drainStart = performance.now();
+        await manager.flush();
+
+        return {
+            trialCount,
+            payloadBytes: JSON.stringify(trials[0] ?? {}).length,
+            callback: summarize(callbackTimes),
+            onsetDelay: summarize(onsetDelays),
+            drainMs: performance.now() - drainStart
+        };
+    } finally {
+        await options.cleanup?.(manager);
+    }
+}
+
+/**
+ * Creates a mouse-tracking trial, a typical large jsPsych payload
+ * @param index The trial index
+ * @param payloadBytes Approximate serialized size of the trial in bytes
+ * @returns The trial
+ */
+function createMouseTrackingTrial(index: number, payloadBytes: number): TrialData {
+    // One sample serializes to about 40 bytes
+    const samples = Array.from({ length: Math.max(Math.round(payloadBytes / 40), 1) }, (_, i) => ({
+        x: Math.round(Math.random() * 1920),
+        y: Math.round(Math.random() * 1080),
+        t: i * 16.7
+    }));
+
+    return {
+        trial_type: "mouse-tracking",
+        trial_index: index,
+        time_elapsed: index * 1000,
+        rt: 500 + Math.random() * 500,
+        mouse_tracking_data: samples
+    };
+}
+
+/**
+ * Summarizes timings
+ * @param values The timings in milliseconds
+ * @returns Mean, median, 95th percentile and maximum
+ */
+function summarize(values: number[]): TimingSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted.length === 0
+        ? 0
+        : sorted[Math.min(Math.ceil(p * sorted.length) - 1, sorted.length - 1)];
+
+    return {
+        mean: sorted.reduce((total, value) => total + value, 0) / Math.max(sorted.length, 1),
+        p50: percentile(0.5),
+        p95: percentile(0.95),
+        max: sorted[sorted.length - 1] ?? 0
+    };
+}
@@ -0,0 +1,220 @@
+import { DataManager, ExperimentData, TrialData } from './DataManager';
+
+/**
+ * Creates a fresh, uninitialized manager for one conformance test
+ */
+export type DataManagerFactory = () => DataManager | Promise<DataManager>;
+
+/**
+ * Options for the conformance suite
+ */
+export interface ConformanceOptions {
+    /**
+     * Reads back what the backend stored for the manager's session, with
+     * decoded trials in order. Without it, only the manager's own view (queue
+     * status and operation counts) is checked.
+     */
+    readSession?: (manager: DataManager) => Promise<ExperimentData | undefined>;
+    /** Number of trials written by each test (default: 5) */
+    trialCount?: number;
+    /** Releases a manager after a test, e.g. deletes its Firebase app (optional) */
+    cleanup?: (manager: DataManager) => void | Promise<void>;
+}
+
+/**
+ * Interface for one conformance test, to be registered with any test runner
+ */
+export interface ConformanceTest {
+    /** Name of the test */
+    name: string;
+    /** Runs the test; rejects with a descriptive error if the manager does not conform */
+    run: () => Promise<void>;
+}
+
+/**
+ * Interface for the result of one conformance test
+ */
+export interface ConformanceResult {
+    /** Name of the test */
+    name: string;
+    /** Whether the test passed */
+    passed: boolean;
+    /** The error the test failed with, if any */
+    error?: unknown;
+}
+
+/**
+ * Gets the conformance tests for a DataManager subclass
+ *
+ * The tests check what every backend must do: initialize a session, store
+ * trials in order, skip trials marked `no_upload`, count operations and
+ * write all pending trials in the finish callback. Each test creates its
+ * own manager with the factory.
+ * @example
+ * ```typescript
+ * for (const test of getConformanceTests(() => new MockDataManager(), {
+ *     readSession: async manager => (manager as MockDataManager).getStoredData()
+ * })) {
+ *     it(test.name, test.run);
+ * }
+ * ```
+ * @param factory Creates a fresh manager for each test
+ * @param options Options for the suite
+ * @returns The tests
+ */
+export function getConformanceTests(factory: DataManagerFactory, options: ConformanceOptions = {}): ConformanceTest[] {
+    const trialCount = options.trialCount ?? 5;
+
+    const withManager = (test: (manager: DataManager) => Promise<void>) => async () => {
+        const manager = await factory();
+        try {
+            await test(manager);
+        } finally {
+            await options.cleanup?.(manager);
+        }
+    };
+
+    return [
+        {
+            name: "initializes a session with the additional data",
+            run: withManager(async manager => {
+                await manager.initializeExperiment({ conformance_check: "initialize" });
+                check(manager.getNumberOfOperations() > 0, "initializeExperiment performed no operations");
+
+                const session = await options.readSession?.(manager);
+                if (options.readSession) {
+                    check(session !== undefined, "the session was not stored");
+                    check(session!.conformance_check === "initialize", "the additional data was not stored");
+                    check(typeof session!.date === "string", "the default metadata was not stored");
+                }
+            })
+        },
+        {
+            name: "stores trials in order",
+            run: withManager(async manager => {
+                await manager.initializeExperiment({});
+                const update = manager.createDataUpdateCallback();
+                for (let i = 0; i < trialCount; i++) {
+                    update(createTrial(i, { response: `r${i}`, rt: 100 + i }));
+                }
+                await manager.flush();
+
+                const status = manager.getQueueStatus();
+                check(status.pending === 0 && status.failed === 0, `the write queue did not drain: ${JSON.stringify(status)}`);
+
+                if (options.readSession) {
+                    const trials = (await options.readSession(manager))?.trials ?? [];
+                    const indices = trials.map(trial => trial.trial_index);
+                    check(
+                        JSON.stringify(indices) === JSON.stringify(range(trialCount)),
+                        `expected trial indices ${JSON.stringify(range(trialCount))}, got ${JSON.stringify(indices)}`
+                    );
+                    check(trials.every((trial, i) => trial.response === `r${i}`), "trial fields were not stored");
+                }
+            })
+        },
+        {
+            name: "skips trials marked no_upload",
+            run: withManager(async manager => {
+                await manager.initializeExperiment({});
+                const update = manager.createDataUpdateCallback();
+                update(createTrial(0, { response: "kept" }));
+                const skipped = update(createTrial(1, { response: "skipped", no_upload: true }));
+                update(createTrial(2, { response: "kept" }));
+                await manager.flush();
+
+                check(!("no_upload" in skipped), "no_upload was not removed from the returned data");
+
+                if (options.readSession) {
+                    const trials = (await options.readSession(manager))?.trials ?? [];
+                    check(trials.length === 2, `expected 2 stored trials, got ${trials.length}`);
+                    check(trials.every(trial => trial.response === "kept"), "a trial marked no_upload was stored");
+                }
+            })
+        },
+        {
+            name: "counts an operation for every write",
+            run: withManager(async manager => {
+                await manager.initializeExperiment({});
+                const before = manager.getNumberOfOperations();
+                for (let i = 0; i < trialCount; i++) {
+                    await manager.addTrialData(createTrial(i));
+                }
+                const writes = manager.getNumberOfOperations() - before;
+                check(writes >= trialCount, `expected at least ${trialCount} operations for ${trialCount} writes, got ${writes}`);
+            })
+        },
+        {
+            name: "writes pending trials in the finish callback",
+            run: withManager(async manager => {
+                await manager.initializeExperiment({});
+                const update = manager.createDataUpdateCallback();
+                for (let i = 0; i < trialCount; i++) {
+                    update(createTrial(i));
+                }
+                await manager.createFinishCallback()();
+
+                const status = manager.getQueueStatus();
+                check(status.pending === 0 && status.failed === 0, `trials were left in the write queue: ${JSON.stringify(status)}`);
+
+                if (options.readSession) {
+                    const trials = (await options.readSession(manager))?.trials ?? [];
+                    check(trials.length === trialCount, `expected ${trialCount} stored trials, got ${trials.length}`);
+                }
+            })
+        }
+    ];
+}
+
+/**
+ * Runs the conformance tests for a DataManager subclass one after another
+ * @param factory Creates a fresh manager for each test
+ * @param options Options for the suite
+ * @returns The result of every test
+ */
+export async function runConformanceSuite(factory: DataManagerFactory, options: ConformanceOptions = {}): Promise<ConformanceResult[]> {
+    const results: ConformanceResult[] = [];
+
+    for (const test of getConformanceTests(factory, options)) {
+        try {
+            await test.run();
+            results.push({ name: test.name, passed: true });
+        } catch (error) {
+            console.error(`[Conformance] ${test.name} failed:`, error);
+            results.push({ name: test.name, passed: false, error });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Fails a conformance test if a condition does not hold
+ * @param condition The condition
+ * @param message Describes the failure
+ * @throws {Error} If the condition is false
+ */
+function check(condition: boolean, message: string): void {
+    if (!condition) {
+        throw new Error(`Conformance check failed: ${message}`);
+    }
+}
+
+/**
+ * Creates a trial as jsPsych would pass it to the data update callback
+ * @param index The trial index
+ * @param fields Additional trial fields
+ * @returns The trial
+ */
+function createTrial(index: number, fields: Partial<TrialData> = {}): TrialData {
+    return { trial_type: "conformance", trial_index: index, time_elapsed: index * 1000, ...fields };
+}
+
+/**
+ * Creates the list 0..count-1
+ * @param count The length of the list
+ * @returns The list
+ */
+function range(count: number): number[] {
+    return Array.from({ length: count }, (_, i) => i);
+}
@@ -0,0 +1,139 @@
+/**
+ * What happens when another session of the same participant is found
+ * - "block": initialization fails, so the experiment can show an error instead
+ * - "warn": a warning is logged and the `session:duplicate` event is emitted
+ * - "flag": like "warn", and the session metadata records the duplicate
+ */
+export type DuplicateSessionPolicy = 'block' | 'warn' | 'flag';
+
+/**
+ * Where a duplicate session was found
+ * - "tab": another tab or window of this browser is running the experiment
+ * - "server": the backend already holds a session with the same participant ID
+ */
+export type DuplicateSessionSource = 'tab' | 'server';
+
+/**
+ * Interface for duplicate session detection options
+ */
+export interface DuplicateSessionOptions {
+    /** What happens when a duplicate is found (default: "warn") */
+    policy?: DuplicateSessionPolicy;
+    /** Sessions with the same key in other tabs are duplicates (default: the participant ID, or one key for the whole experiment) */
+    key?: string;
+    /** Look for stored sessions with the same participant ID (default: true) */
+    checkServer?: boolean;
+    /** Metadata field the duplicate is recorded in with the "flag" policy (default: "duplicate_session") */
+    field?: string;
+    /** How long to wait for other tabs to answer when Web Locks are unavailable, in milliseconds (default: 250) */
+    tabTimeoutMs?: number;
+}
+
+/**
+ * Interface for a detected duplicate session
+ */
+export interface DuplicateSessionInfo {
+    /** Where duplicates were found */
+    sources: DuplicateSessionSource[];
+    /** The key the tabs were compared by */
+    key: string;
+    /** IDs of the stored sessions with the same participant ID */
+    sessionIds: string[];
+}
+
+/**
+ * Detects other tabs of this browser running a session with the same key
+ *
+ * Uses the Web Locks API where available: the first tab holds a lock named
+ * after the key until its session completes or the tab closes. Without it,
+ * the guard asks the other tabs over a BroadcastChannel and waits briefly
+ * for an answer. Without either API, no tabs are detected.
+ */
+export class TabGuard {
+    private readonly name: string;
+    private releaseLock?: () => void;
+    private channel?: BroadcastChannel;
+
+    /**
+     * Creates a new TabGuard instance
+     * @param key Sessions with the same key are duplicates
+     * @param timeoutMs How long to wait for other tabs over BroadcastChannel
+     */
+    constructor(key: string, private readonly timeoutMs: number = 250) {
+        this.name = `jspsych-datamanager:${key}`;
+    }
+
+    /**
+     * Claims the key for this tab
+     * @returns True if another tab already runs a session with the key
+     */
+    public async claim(): Promise<boolean> {
+        const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+        if (locks) {
+            return this.claimLock(locks);
+        }
+        if (typeof BroadcastChannel !== 'undefined') {
+            return this.claimChannel();
+        }
+        return false;
+    }
+
+    /**
+     * Releases the key so other tabs can claim it
+     */
+    public release(): void {
+        this.releaseLock?.();
+        this.releaseLock = undefined;
+        this.channel?.close();
+        this.channel = undefined;
+    }
+
+    /**
+     * Claims the key with a Web Lock that is held until release
+     * @param locks The browser's lock manager
+     * @returns True if another tab holds the lock
+     */
+    private claimLock(locks: LockManager): Promise<boolean> {
+        return new Promise<boolean>((resolve, reject) => {
+            locks.request(this.name, { ifAvailable: true }, lock => {
+                if (!lock) {
+                    resolve(true);
+                    return;
+                }
+                resolve(false);
+                return new Promise<void>(release => {
+                    this.releaseLock = release;
+                });
+            }).catch(reject);
+        });
+    }
+
+    /**
+     * Claims the key by asking the other tabs over a BroadcastChannel
+     *
+     * The channel stays open to answer tabs that start later.
+     * @returns True if another tab answered within the timeout
+     */
+    private claimChannel(): Promise<boolean> {
+        const channel = new BroadcastChannel(this.name);
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+        this.channel = channel;
+
+        return new Promise<boolean>(resolve => {
+            const timer = setTimeout(() => resolve(false), this.timeoutMs);
+
+            channel.onmessage = event => {
+                if (event.data?.id === id) {
+                    return;
+                }
+                if (event.data?.type === 'claim') {
+                    channel.postMessage({ type: 'present', id });
+                } else if (event.data?.type === 'present') {
+                    clearTimeout(timer);
+                    resolve(true);
+                }
+            };
+            channel.postMessage({ type: 'claim', id });
+        });
+    }
+}
@@ -0,0 +1,314 @@
+import { TrialData, ExperimentData } from './DataManager';
+import { encodeValue, decodeValue } from './serialization';
+
+/**
+ * Encryption schemes, derived from the algorithm of the configured key
+ * - "AES-GCM": a shared AES-GCM secret key
+ * - "RSA-OAEP+AES-GCM": a session key wrapped with an RSA-OAEP public key
+ * - "ECDH-ES+AES-GCM": a key derived from an ephemeral ECDH key pair and an ECDH public key
+ */
+export type EncryptionAlgorithm = 'AES-GCM' | 'RSA-OAEP+AES-GCM' | 'ECDH-ES+AES-GCM';
+
+/**
+ * Interface for an encrypted value as it is stored
+ */
+export interface EncryptedPayload {
+    /** The encryption scheme */
+    alg: EncryptionAlgorithm;
+    /** AES-GCM initialization vector (base64) */
+    iv: string;
+    /** AES-GCM ciphertext of the lossless-encoded JSON value (base64) */
+    data: string;
+    /** The session key encrypted with the RSA-OAEP public key (base64, RSA only) */
+    key?: string;
+    /** The ephemeral ECDH public key (ECDH only) */
+    epk?: JsonWebKey;
+}
+
+/**
+ * Interface for encryption options
+ */
+export interface EncryptionOptions {
+    /** An AES-GCM secret key, or an RSA-OAEP or ECDH public key */
+    key: CryptoKey;
+    /** Metadata fields to encrypt (default: none) */
+    metadataFields?: string[];
+    /** Trial fields to store unencrypted next to the payload (trial_type is always unencrypted) */
+    plaintextFields?: string[];
+}
+
+/**
+ * Field that holds the encrypted payload of a trial
+ */
+export const ENCRYPTED_FIELD = '$encrypted';
+
+/**
+ * Encrypts trials and metadata fields with WebCrypto before they are stored
+ *
+ * An encrypted trial keeps its `trial_type` (and the configured plaintext
+ * fields) and holds everything else in `$encrypted`. With a public key, a
+ * random AES-GCM key is generated per session and stored in each payload,
+ * encrypted for the holder of the private key.
+ *
+ * @example
+ * ```typescript
+ * const encryptor = new TrialEncryptor({ key: publicKey });
+ * const stored = await encryptor.encryptTrial(trial);
+ * // { trial_type: "html-keyboard-response", $encrypted: { alg: "RSA-OAEP+AES-GCM", ... } }
+ * ```
+ */
+export class TrialEncryptor {
+    private contentKey?: Promise<{ key: CryptoKey; header: Omit<EncryptedPayload, 'iv' | 'data'> }>;
+
+    /**
+     * Creates a new TrialEncryptor instance
+     * @param options Encryption options
+     * @throws {Error} If the key algorithm is not supported
+     */
+    constructor(private readonly options: EncryptionOptions) {
+        if (!['AES-GCM', 'RSA-OAEP', 'ECDH'].includes(options.key.algorithm.name)) {
+            throw new Error(`Unsupported encryption key algorithm: ${options.key.algorithm.name}`);
+        }
+    }
+
+    /**
+     * Encrypts a trial
+     * @param trial The trial to encrypt; it is not modified
+     * @returns The trial with its fields moved into `$encrypted`
+     */
+    public async encryptTrial(trial: TrialData): Promise<TrialData> {
+        const plaintextFields = new Set(['trial_type', ...this.options.plaintextFields ?? []]);
+        const result: TrialData = { trial_type: trial.trial_type };
+        const secret: Record<string, any> = {};
+
+        for (const [key, value] of Object.entries(trial)) {
+            if (plaintextFields.has(key)) {
+                result[key] = value;
+            } else {
+                secret[key] = value;
+            }
+        }
+
+        result[ENCRYPTED_FIELD] = await this.encrypt(secret);
+        return result;
+    }
+
+    /**
+     * Encrypts the configured metadata fields
+     * @param metadata The metadata; it is not modified
+     * @returns The metadata with the configured fields replaced by encrypted payloads
+     */
+    public async encryptMetadata<T extends Record<string, any>>(metadata: T): Promise<T> {
+        const result: Record<string, any> = { ...metadata };
+        for (const field of this.options.metadataFields ?? []) {
+            if (result[field] !== undefined) {
+                result[field] = await this.encrypt(result[field]);
+            }
+        }
+        return result as T;
+    }
+
+    /**
+     * Encrypts a value with the session's content key
+     * @param value The value to encrypt
+     * @returns The encrypted payload
+     */
+    private async encrypt(value: any): Promise<EncryptedPayload> {
+        const { key, header } = await this.getContentKey();
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const plaintext = new TextEncoder().encode(JSON.stringify(encodeValue(value)));
+        const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+        return { ...header, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) } as EncryptedPayload;
+    }
+
+    /**
+     * Gets the AES-GCM key trials are encrypted with, creating it on first use
+     * @returns The content key and the payload fields needed to recover it
+     */
+    private getContentKey(): Promise<{ key: CryptoKey; header: Omit<EncryptedPayload, 'iv' | 'data'> }> {
+        if (!this.contentKey) {
+            this.contentKey = this.createContentKey();
+            // Allow a later attempt if key setup failed
+            this.contentKey.catch(() => { this.contentKey = undefined; });
+        }
+        return this.contentKey;
+    }
+
+    /**
+     * Creates the content key for the configured key algorithm
+     * @returns The content key and the payload fields needed to recover it
+     */
+    private async createContentKey(): Promise<{ key: CryptoKey; header: Omit<EncryptedPayload, 'iv' | 'data'> }> {
+        const recipientKey = this.options.key;
+
+        switch (recipientKey.algorithm.name) {
+            case 'RSA-OAEP': {
+                const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+                const raw = await crypto.subtle.exportKey('raw', key);
+                const wrapped = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, recipientKey, raw);
+                return { key, header: { alg: 'RSA-OAEP+AES-GCM', key: toBase64(new Uint8Array(wrapped)) } };
+            }
+            case 'ECDH': {
+                const ephemeral = await crypto.subtle.generateKey(
+                    recipientKey.algorithm as EcKeyGenParams, true, ['deriveKey']
+                ) as CryptoKeyPair;
+                const key = await crypto.subtle.deriveKey(
+                    { name: 'ECDH', public: recipientKey },
+                    ephemeral.privateKey,
+                    { name: 'AES-GCM', length: 256 },
+                    false,
+                    ['encrypt']
+                );
+                const epk = await crypto.subtle.exportKey('jwk', ephemeral.publicKey);
+                return { key, header: { alg: 'ECDH-ES+AES-GCM', epk } };
+            }
+            default:
+                return { key: recipientKey, header: { alg: 'AES-GCM' } };
+        }
+    }
+}
+
+/**
+ * Checks whether a value is an encrypted payload
+ * @param value The value to check
+ * @returns True if the value was produced by TrialEncryptor
+ */
+export function isEncryptedPayload(value: any): value is EncryptedPayload {
+    return value !== null && typeof value === 'object'
+        && typeof value.alg === 'string' && typeof value.iv === 'string' && typeof value.data === 'string';
+}
+
+/**
+ * Decrypts an encrypted payload
+ * @param payload The encrypted payload
+ * @param key The AES-GCM secret key, or the RSA-OAEP or ECDH private key
+ * @returns The original value
+ * @throws {Error} If the key does not match the payload
+ */
+export async function decryptValue(payload: EncryptedPayload, key: CryptoKey): Promise<any> {
+    const contentKey = await getDecryptionKey(payload, key);
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(payload.iv) }, contentKey, fromBase64(payload.data)
+    );
+    return decodeValue(JSON.parse(new TextDecoder().decode(plaintext)));
+}
+
+/**
+ * Decrypts a trial encrypted by TrialEncryptor
+ * @param trial The stored trial
+ * @param key The AES-GCM secret key, or the RSA-OAEP or ECDH private key
+ * @returns The original trial; unencrypted trials are returned as they are
+ */
+export async function decryptTrial(trial: TrialData, key: CryptoKey): Promise<TrialData> {
+    const { [ENCRYPTED_FIELD]: payload, ...plaintext } = trial;
+    if (!isEncryptedPayload(payload)) {
+        return trial;
+    }
+    return { ...plaintext, ...await decryptValue(payload, key) } as TrialData;
+}
+
+/**
+ * Decrypts the trials and encrypted metadata fields of a downloaded session
+ *
+ * Decode the session with decodeExperimentData first if a codec was used.
+ * @example
+ * ```typescript
+ * const privateKey = await crypto.subtle.importKey("jwk", jwk, { name: "RSA-OAEP", hash: "SHA-256" }, false, ["decrypt"]);
+ * const data = await decryptExperimentData(snapshot.data(), privateKey);
+ * ```
+ * @param data The stored experiment data
+ * @param key The AES-GCM secret key, or the RSA-OAEP or ECDH private key
+ * @returns The experiment data in plaintext
+ * @throws {Error} If the key does not match the data
+ */
+export async function decryptExperimentData(data: ExperimentData, key: CryptoKey): Promise<ExperimentData> {
+    const result: Record<string, any> = {};
+
+    for (const [field, value] of Object.entries(data)) {
+        if (field === 'trials') {
+            result.trials = await Promise.all((value as TrialData[] || []).map(trial => decryptTrial(trial, key)));
+        } else {
+            result[field] = isEncryptedPayload(value) ? await decryptValue(value, key) : value;
+        }
+    }
+
+    return result as ExperimentData;
+}
+
+/** Content keys already recovered from RSA-wrapped or ECDH payloads */
+const recoveredKeys = new WeakMap<CryptoKey, Map<string, Promise<CryptoKey>>>();
+
+/**
+ * Recovers the AES-GCM key a payload was encrypted with
+ * @param payload The encrypted payload
+ * @param key The AES-GCM secret key, or the RSA-OAEP or ECDH private key
+ * @returns The AES-GCM key
+ */
+function getDecryptionKey(payload: EncryptedPayload, key: CryptoKey): Promise<CryptoKey> {
+    if (payload.alg === 'AES-GCM') {
+        return Promise.resolve(key);
+    }
+
+    // All trials of a session share the same wrapped key or ephemeral public key
+    const id = payload.key ?? JSON.stringify(payload.epk);
+    const cache = recoveredKeys.get(key) ?? new Map<string, Promise<CryptoKey>>();
+    recoveredKeys.set(key, cache);
+
+    if (!cache.has(id)) {
+        cache.set(id, recoverContentKey(payload, key));
+    }
+    return cache.get(id)!;
+}
+
+/**
+ * Recovers the AES-GCM key of an RSA-wrapped or ECDH payload
+ * @param payload The encrypted payload
+ * @param key The RSA-OAEP or ECDH private key
+ * @returns The AES-GCM key
+ * @throws {Error} If the payload is missing the key material
+ */
+async function recoverContentKey(payload: EncryptedPayload, key: CryptoKey): Promise<CryptoKey> {
+    if (payload.alg === 'RSA-OAEP+AES-GCM' && payload.key) {
+        const raw = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, key, fromBase64(payload.key));
+        return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['decrypt']);
+    }
+
+    if (payload.alg === 'ECDH-ES+AES-GCM' && payload.epk) {
+        const ephemeralKey = await crypto.subtle.importKey(
+            'jwk', payload.epk, key.algorithm as EcKeyImportParams, false, []
+        );
+        return crypto.subtle.deriveKey(
+            { name: 'ECDH', public: ephemeralKey }, key, { name: 'AES-GCM', length: 256 }, false, ['decrypt']
+        );
+    }
+
+    throw new Error(`Failed to decrypt payload: missing key material for ${payload.alg}`);
+}
+
+/**
+ * Encodes bytes as base64
+ * @param bytes The bytes
+ * @returns The base64 text
+ */
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decodes base64 to bytes
+ * @param text The base64 text
+ * @returns The bytes
+ */
+function fromBase64(text: string): Uint8Array {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -0,0 +1,112 @@
+import { TrialData } from './DataManager';
+import { QueueStatus } from './WriteQueue';
+import { DuplicateSessionInfo, DuplicateSessionPolicy } from './duplicates';
+
+/**
+ * Events emitted by a DataManager, mapped to their payloads
+ */
+export interface DataManagerEvents {
+    /** The session was created or resumed in the backend */
+    'initialized': { sessionId: string; resumed: boolean };
+    /** Another session of the participant was found (only with the `duplicates` option) */
+    'session:duplicate': DuplicateSessionInfo & { policy: DuplicateSessionPolicy };
+    /** A trial entered the write queue */
+    'trial:queued': { trial: TrialData; status: QueueStatus };
+    /** A trial was written to the backend */
+    'trial:saved': { trial: TrialData; status: QueueStatus };
+    /** Writing a trial failed; `willRetry` is false once it has run out of attempts */
+    'trial:failed': { trial: TrialData; error: unknown; attempts: number; willRetry: boolean };
+    /** flush() finished writing all pending trials */
+    'flush:complete': { status: QueueStatus };
+    /** A media file is uploading (only with the `media` option) */
+    'media:progress': { path: string; loaded: number; total: number };
+    /** A media file was uploaded (only with the `media` option) */
+    'media:uploaded': { path: string };
+    /** Uploading a media file failed; `willRetry` is false once it has run out of attempts */
+    'media:failed': { path: string; error: unknown; attempts: number; willRetry: boolean };
+    /** A media field could not be decoded, so it is stored with its original value instead of uploaded */
+    'media:invalid': { trial: TrialData; field: string; error: unknown };
+}
+
+/**
+ * A listener for one DataManager event
+ */
+export type DataManagerEventListener<K extends keyof DataManagerEvents> = (payload: DataManagerEvents[K]) => void;
+
+/**
+ * Interface for hooks around every backend write
+ */
+export interface WriteHooks {
+    /**
+     * Runs before a batch of trials is written, on every attempt
+     * @param trials The trials about to be written
+     * @returns The trials to write instead, or nothing to write them unchanged
+     */
+    beforeWrite?: (trials: TrialData[]) => TrialData[] | void | Promise<TrialData[] | void>;
+    /**
+     * Runs after a batch of trials was written; errors are logged, not retried
+     * @param trials The trials that were written
+     */
+    afterWrite?: (trials: TrialData[]) => void | Promise<void>;
+}
+
+/**
+ * A minimal, typed event emitter
+ *
+ * Errors thrown by listeners are logged so that a broken status UI cannot
+ * interrupt writing data.
+ */
+export class TypedEventEmitter<Events extends object> {
+    private readonly listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {};
+
+    /**
+     * Adds a listener for an event
+     * @param event The event name
+     * @param listener The function called with the event payload
+     * @returns A function that removes the listener
+     */
+    public on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+        const listeners = this.listeners[event] ?? new Set();
+        listeners.add(listener);
+        this.listeners[event] = listeners;
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Adds a listener that is removed after its first call
+     * @param event The event name
+     * @param listener The function called with the event payload
+     * @returns A function that removes the listener
+     */
+    public once<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+        const remove = this.on(event, payload => {
+            remove();
+            listener(payload);
+        });
+        return remove;
+    }
+
+    /**
+     * Removes a listener
+     * @param event The event name
+     * @param listener The listener to remove
+     */
+    public off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): void {
+        this.listeners[event]?.delete(listener);
+    }
+
+    /**
+     * Calls all listeners of an event
+     * @param event The event name
+     * @param payload The event payload
+     */
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        for (const listener of [...this.listeners[event] ?? []]) {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`[DataManager] Error in "${String(event)}" listener:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,83 @@
+import { ExperimentData } from './DataManager';
+
+/**
+ * Interface for a stored experiment session and its identifier
+ */
+export interface StoredSession {
+    /** Identifier of the session (e.g., document ID, row ID or storage key) */
+    id: string;
+    /** The stored experiment data */
+    data: ExperimentData;
+}
+
+/**
+ * Converts sessions to long-format rows, one row per trial
+ *
+ * Each row holds the session ID, the session metadata and the trial fields.
+ * Trial fields take precedence over metadata fields with the same name.
+ * Sessions without trials produce a single row with metadata only.
+ * @param sessions The sessions to convert
+ * @returns The long-format rows
+ */
+export function toLongFormatRows(sessions: StoredSession[]): Record<string, any>[] {
+    const rows: Record<string, any>[] = [];
+
+    for (const session of sessions) {
+        const { trials, ...metadata } = session.data;
+        const base = { session_id: session.id, ...metadata };
+
+        if (!trials || trials.length === 0) {
+            rows.push(base);
+            continue;
+        }
+
+        trials.forEach((trial, trialIndex) => {
+            rows.push({ ...base, trial_index_in_session: trialIndex, ...trial });
+        });
+    }
+
+    return rows;
+}
+
+/**
+ * Serializes rows to CSV (RFC 4180)
+ *
+ * The header is the union of all row keys in order of first appearance.
+ * Objects and arrays are written as JSON, null and undefined as empty cells.
+ * @param rows The rows to serialize
+ * @returns The CSV text
+ */
+export function toCsv(rows: Record<string, any>[]): string {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+
+    for (const row of rows) {
+        for (const key of Object.keys(row)) {
+            if (!seen.has(key)) {
+                seen.add(key);
+                columns.push(key);
+            }
+        }
+    }
+
+    const lines = [columns.map(escapeCsvCell).join(',')];
+    for (const row of rows) {
+        lines.push(columns.map(column => escapeCsvCell(row[column])).join(','));
+    }
+
+    return lines.join('\r\n');
+}
+
+/**
+ * Formats a single value as a CSV cell
+ * @param value The value to format
+ * @returns The escaped cell text
+ */
+function escapeCsvCell(value: any): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
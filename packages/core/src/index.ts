@@ -1,2 +1,40 @@
 // Export all interfaces and classes from DataManager.ts
-export * from './DataManager'; 
\ No newline at end of file
+export * from './DataManager';
+// Export the persistent write queue from WriteQueue.ts
+export * from './WriteQueue';
+// Export session export helpers from export.ts
+export * from './export';
+// Export the lossless serialization layer from serialization.ts
+export * from './serialization';
+// Export session resume tracking from SessionTracker.ts
+export * from './SessionTracker';
+// Export recruitment platform helpers from recruitment.ts
+export * from './recruitment';
+// Export the multi-backend manager from CompositeDataManager.ts
+export * from './CompositeDataManager';
+// Export trial validation from validation.ts
+export * from './validation';
+// Export the privacy transform pipeline from privacy.ts
+export * from './privacy';
+// Export client-side encryption from encryption.ts
+export * from './encryption';
+// Export condition assignment helpers from assignment.ts
+export * from './assignment';
+// Export upload status events and write hooks from events.ts
+export * from './events';
+// Export media upload support from media.ts
+export * from './media';
+// Export duplicate session detection from duplicates.ts
+export * from './duplicates';
+// Export the in-memory mock manager from mock.ts
+export * from './mock';
+// Export the backend conformance suite from conformance.ts
+export * from './conformance';
+// Export trial integrity stamps and verification from integrity.ts
+export * from './integrity';
+// Export backend-agnostic session queries from query.ts
+export * from './query';
+// Export idle-time scheduling from scheduling.ts
+export * from './scheduling';
+// Export the main-thread benchmark from benchmark.ts
+export * from './benchmark';
@@ -0,0 +1,134 @@
+import { TrialData } from './DataManager';
+import { sha256 } from './privacy';
+
+/**
+ * Interface for the fields added to every trial with the `integrity` option
+ */
+export interface TrialIntegrity {
+    /** Position of the trial among the queued trials of the session, starting at 0 */
+    _sequence: number;
+    /** Client time the trial was queued, in milliseconds since the epoch with sub-millisecond resolution */
+    _client_time: number;
+    /** SHA-256 hash of the trial as it is written, without the integrity fields */
+    _hash: string;
+    /** Time the backend stored the trial, ISO 8601 (only where the backend records it) */
+    _server_time?: string;
+}
+
+/**
+ * Interface for the result of verifying the trials of a stored session
+ */
+export interface IntegrityReport {
+    /** True if every trial is stamped and no trial is missing, duplicated, reordered or changed */
+    valid: boolean;
+    /** Number of trials checked */
+    trialCount: number;
+    /** Number of trials without a sequence number */
+    unstamped: number;
+    /** Sequence numbers missing between 0 and the highest stored one */
+    missing: number[];
+    /** Sequence numbers stored more than once */
+    duplicates: number[];
+    /** Sequence numbers stored after a higher one */
+    reordered: number[];
+    /** Sequence numbers of trials whose content does not match their hash */
+    hashMismatches: number[];
+}
+
+/** Names of the integrity fields, which are not part of the hashed content */
+const INTEGRITY_FIELDS: (keyof TrialIntegrity)[] = ['_sequence', '_client_time', '_hash', '_server_time'];
+
+/**
+ * Hashes the content of a trial
+ *
+ * Keys are sorted and undefined values are left out, so the hash only
+ * depends on the data and not on how a backend orders or stores it.
+ * @param trial The trial
+ * @returns The hex-encoded SHA-256 hash of the trial without its integrity fields
+ */
+export function hashTrial(trial: TrialData): string {
+    const content: Record<string, any> = { ...trial };
+    for (const field of INTEGRITY_FIELDS) {
+        delete content[field];
+    }
+    return sha256(JSON.stringify(content, (_key, value) => value !== null && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]))
+        : value));
+}
+
+/**
+ * Adds a sequence number, the current client time and the content hash to a trial
+ * @param trial The trial as it will be written
+ * @param sequence The sequence number of the trial
+ * @returns The stamped trial
+ */
+export function stampTrial(trial: TrialData, sequence: number): TrialData {
+    const clientTime = typeof performance !== 'undefined'
+        ? performance.timeOrigin + performance.now()
+        : Date.now();
+
+    return { ...trial, _sequence: sequence, _client_time: clientTime, _hash: hashTrial(trial) };
+}
+
+/**
+ * Checks the trials of a stored session for gaps, duplicates, reorderings and changed content
+ *
+ * Pass the trials in the order the backend stored them, decoded with the
+ * manager's codec but not decrypted, as the hash covers the encrypted trial.
+ * Trials lost at the end of a session leave no gap and cannot be detected.
+ *
+ * @example
+ * ```typescript
+ * const report = verifyTrials(data.trials);
+ * if (!report.valid) {
+ *     console.warn("Missing trials:", report.missing);
+ * }
+ * ```
+ * @param trials The stored trials, in stored order
+ * @returns The report
+ */
+export function verifyTrials(trials: TrialData[]): IntegrityReport {
+    const seen = new Set<number>();
+    const duplicates = new Set<number>();
+    const reordered: number[] = [];
+    const hashMismatches: number[] = [];
+    let unstamped = 0;
+    let highest = -1;
+
+    for (const trial of trials) {
+        const sequence = trial._sequence;
+        if (typeof sequence !== 'number') {
+            unstamped++;
+            continue;
+        }
+
+        if (seen.has(sequence)) {
+            duplicates.add(sequence);
+        } else if (sequence < highest) {
+            reordered.push(sequence);
+        }
+        seen.add(sequence);
+        highest = Math.max(highest, sequence);
+
+        if (trial._hash !== hashTrial(trial)) {
+            hashMismatches.push(sequence);
+        }
+    }
+
+    const missing: number[] = [];
+    for (let sequence = 0; sequence < highest; sequence++) {
+        if (!seen.has(sequence)) {
+            missing.push(sequence);
+        }
+    }
+
+    return {
+        valid: unstamped === 0 && missing.length === 0 && duplicates.size === 0 && reordered.length === 0 && hashMismatches.length === 0,
+        trialCount: trials.length,
+        unstamped,
+        missing,
+        duplicates: [...duplicates],
+        reordered,
+        hashMismatches
+    };
+}
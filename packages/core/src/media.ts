@@ -0,0 +1,306 @@
+import { TrialData } from './DataManager';
+import { QueueStatus } from './WriteQueue';
+
+/**
+ * Interface for media upload options
+ */
+export interface MediaOptions {
+    /** Trial fields that always hold media, as a Blob, data URL or plain base64 string */
+    fields?: string[];
+    /** Content types of plain base64 fields, e.g. { response: "audio/webm" } (default: "application/octet-stream") */
+    contentTypes?: Record<string, string>;
+    /** Also upload other fields holding a Blob, a base64 data URL or a long base64 string (default: true) */
+    detect?: boolean;
+    /** Minimum length of a plain base64 string to be detected as media (default: 65536) */
+    minBase64Length?: number;
+    /** Folder that media files are stored in (default: "jspsych-media") */
+    pathPrefix?: string;
+    /** Maximum number of upload attempts per file (default: 5) */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds (default: 1000) */
+    initialDelay?: number;
+    /** Upper bound for the retry delay in milliseconds (default: 30000) */
+    maxDelay?: number;
+    /** Upload media files unencrypted although the `encryption` option is set (default: false) */
+    allowUnencrypted?: boolean;
+}
+
+/**
+ * Interface for the reference that replaces a media field in the stored trial
+ */
+export interface MediaReference {
+    /** Path of the file in the storage bucket */
+    $media: string;
+    /** MIME type of the file */
+    content_type: string;
+    /** Size of the file in bytes */
+    bytes: number;
+}
+
+/**
+ * Interface for a file waiting to be uploaded
+ */
+export interface MediaUpload {
+    /** Path of the file in the storage bucket */
+    path: string;
+    /** The file contents */
+    blob: Blob;
+    /** MIME type of the file */
+    contentType: string;
+}
+
+/**
+ * Interface for callbacks about the progress of uploads
+ */
+export interface MediaUploadListener {
+    /** Called while a file is uploading */
+    onProgress?: (upload: MediaUpload, loaded: number, total: number) => void;
+    /** Called after a file was uploaded */
+    onUploaded?: (upload: MediaUpload) => void;
+    /** Called after an upload attempt failed */
+    onFailure?: (upload: MediaUpload, error: unknown, attempts: number, willRetry: boolean) => void;
+}
+
+/**
+ * Function that uploads one file to a storage backend
+ * @param upload The file to upload
+ * @param onProgress Reports the number of bytes uploaded so far
+ */
+export type MediaUploadFunction = (upload: MediaUpload, onProgress: (loaded: number, total: number) => void) => Promise<void>;
+
+/** Matches base64 data URLs and captures the content type */
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^;,]*)*;base64,/;
+
+/** Matches plain base64 text */
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Interface for a media field that could not be decoded
+ */
+export interface MediaDecodeError {
+    /** Name of the trial field */
+    field: string;
+    /** The error thrown while decoding, e.g. by atob for malformed base64 */
+    error: unknown;
+}
+
+/**
+ * Replaces media fields of a trial with references and collects the files to upload
+ *
+ * Only top-level fields are inspected. A field whose base64 content cannot
+ * be decoded keeps its original value and is reported in `errors`.
+ * @param trial The trial; it is not modified
+ * @param options Media options
+ * @param folder Folder within the path prefix, e.g. the session ID
+ * @returns The trial with references, the files to upload and the fields that could not be decoded
+ */
+export function extractMedia(
+    trial: TrialData,
+    options: MediaOptions,
+    folder: string
+): { trial: TrialData; uploads: MediaUpload[]; errors: MediaDecodeError[] } {
+    const explicitFields = new Set(options.fields ?? []);
+    const result: TrialData = { ...trial };
+    const uploads: MediaUpload[] = [];
+    const errors: MediaDecodeError[] = [];
+
+    for (const [field, value] of Object.entries(trial)) {
+        let media: { blob: Blob; type: string } | undefined;
+        try {
+            media = toMedia(value, explicitFields.has(field), options, options.contentTypes?.[field]);
+        } catch (error) {
+            errors.push({ field, error });
+            continue;
+        }
+        if (!media) {
+            continue;
+        }
+
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+        const trialKey = typeof trial.trial_index === 'number' ? `trial-${trial.trial_index}` : 'trial';
+        const path = `${options.pathPrefix || 'jspsych-media'}/${folder}/${trialKey}-${field}-${id}.${getExtension(media.type)}`;
+
+        uploads.push({ path, blob: media.blob, contentType: media.type });
+        result[field] = { $media: path, content_type: media.type, bytes: media.blob.size } as MediaReference;
+    }
+
+    return { trial: result, uploads, errors };
+}
+
+/**
+ * Checks whether a stored value is a media reference
+ * @param value The value to check
+ * @returns True if the value was produced by extractMedia
+ */
+export function isMediaReference(value: any): value is MediaReference {
+    return value !== null && typeof value === 'object' && typeof value.$media === 'string';
+}
+
+/**
+ * Uploads media files independently of the trial writes, retrying failed uploads
+ *
+ * Files waiting for an upload or a retry are held in memory only, as they
+ * are usually too large for localStorage. Files not uploaded when the page
+ * is closed are lost; the stored trials still hold their references.
+ */
+export class MediaUploader {
+    private readonly maxAttempts: number;
+    private readonly initialDelay: number;
+    private readonly maxDelay: number;
+    private readonly active: Set<Promise<void>> = new Set();
+    private failed: MediaUpload[] = [];
+
+    /**
+     * Creates a new MediaUploader instance
+     * @param upload Function that uploads one file to the backend
+     * @param options Media options (retry settings)
+     * @param listener Callbacks about the progress of uploads
+     */
+    constructor(
+        private readonly upload: MediaUploadFunction,
+        options: MediaOptions = {},
+        private readonly listener: MediaUploadListener = {}
+    ) {
+        this.maxAttempts = options.maxAttempts ?? 5;
+        this.initialDelay = options.initialDelay ?? 1000;
+        this.maxDelay = options.maxDelay ?? 30000;
+    }
+
+    /**
+     * Starts uploading a file
+     * @param upload The file to upload
+     */
+    public enqueue(upload: MediaUpload): void {
+        const task = this.run(upload).finally(() => this.active.delete(task));
+        this.active.add(task);
+    }
+
+    /**
+     * Gets the number of uploads in progress and uploads that ran out of attempts
+     * @returns The upload status
+     */
+    public getStatus(): QueueStatus {
+        return { pending: this.active.size, failed: this.failed.length };
+    }
+
+    /**
+     * Retries all uploads that ran out of attempts
+     */
+    public retryFailed(): void {
+        const failed = this.failed;
+        this.failed = [];
+        failed.forEach(upload => this.enqueue(upload));
+    }
+
+    /**
+     * Waits until no upload is in progress
+     *
+     * Failed uploads do not block this promise.
+     * @returns A promise that resolves once all uploads have finished
+     */
+    public async whenIdle(): Promise<void> {
+        while (this.active.size > 0) {
+            await Promise.all(this.active);
+        }
+    }
+
+    /**
+     * Uploads a file, retrying with exponential backoff
+     * @param upload The file to upload
+     */
+    private async run(upload: MediaUpload): Promise<void> {
+        for (let attempts = 1; ; attempts++) {
+            try {
+                await this.upload(upload, (loaded, total) => this.listener.onProgress?.(upload, loaded, total));
+                this.listener.onUploaded?.(upload);
+                return;
+            } catch (error) {
+                const willRetry = attempts < this.maxAttempts;
+                this.listener.onFailure?.(upload, error, attempts, willRetry);
+
+                if (!willRetry) {
+                    console.error(`[MediaUploader] Giving up on ${upload.path} after ${attempts} attempts:`, error);
+                    this.failed.push(upload);
+                    return;
+                }
+
+                const delay = Math.min(this.initialDelay * 2 ** (attempts - 1), this.maxDelay);
+                console.warn(`[MediaUploader] Upload of ${upload.path} failed, retrying in ${delay}ms (attempt ${attempts}/${this.maxAttempts})`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+}
+
+/**
+ * Converts a field value to a file if it holds media
+ * @param value The field value
+ * @param explicit Whether the field is configured as a media field
+ * @param options Media options
+ * @param contentType Configured content type of the field, if any
+ * @returns The file contents and type, or undefined if the value is not media
+ */
+function toMedia(
+    value: any,
+    explicit: boolean,
+    options: MediaOptions,
+    contentType?: string
+): { blob: Blob; type: string } | undefined {
+    const detect = explicit || options.detect !== false;
+
+    if (typeof Blob !== 'undefined' && value instanceof Blob) {
+        return detect ? { blob: value, type: value.type || contentType || 'application/octet-stream' } : undefined;
+    }
+    if (typeof value !== 'string' || !detect) {
+        return undefined;
+    }
+
+    const dataUrl = DATA_URL_PATTERN.exec(value);
+    if (dataUrl) {
+        const type = dataUrl[1] || contentType || 'application/octet-stream';
+        return { blob: base64ToBlob(value.slice(dataUrl[0].length), type), type };
+    }
+
+    const minLength = explicit ? 1 : options.minBase64Length ?? 65536;
+    if (value.length >= minLength && BASE64_PATTERN.test(value)) {
+        const type = contentType || 'application/octet-stream';
+        return { blob: base64ToBlob(value, type), type };
+    }
+
+    return undefined;
+}
+
+/**
+ * Decodes base64 text into a Blob
+ * @param base64 The base64 text
+ * @param type The MIME type of the Blob
+ * @returns The Blob
+ */
+function base64ToBlob(base64: string, type: string): Blob {
+    // Throws for malformed base64, e.g. a length that is one more than a multiple of 4
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type });
+}
+
+/**
+ * Gets the file extension for a MIME type
+ * @param contentType The MIME type, e.g. "audio/webm;codecs=opus"
+ * @returns The extension, e.g. "webm"
+ */
+function getExtension(contentType: string): string {
+    const subtype = contentType.split(';')[0].split('/')[1] || 'bin';
+    switch (subtype) {
+        case 'octet-stream':
+            return 'bin';
+        case 'jpeg':
+            return 'jpg';
+        case 'svg+xml':
+            return 'svg';
+        default:
+            return subtype.replace(/[^a-z0-9]/gi, '');
+    }
+}
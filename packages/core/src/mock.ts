@@ -0,0 +1,448 @@
+import { DataManager, ExperimentData, ExperimentMetadata, TrialData, BaseManagerOptions } from './DataManager';
+import { AssignmentCounter, AssignmentSlotRequest, incrementSlot, pickLeastFilledSlot } from './assignment';
+import { MediaUpload } from './media';
+import { StoredSession } from './export';
+import { SessionQuery, querySessions } from './query';
+import { decodeExperimentData } from './serialization';
+
+/**
+ * Backend methods of MockDataManager whose calls are recorded
+ */
+export type MockMethod =
+    | 'initializeExperiment'
+    | 'addTrialData'
+    | 'addTrialBatch'
+    | 'updateSession'
+    | 'restoreSession'
+    | 'finish'
+    | 'claimAssignmentSlot'
+    | 'completeAssignmentSlot'
+    | 'uploadMedia'
+    | 'findParticipantSessions'
+    | 'getSession'
+    | 'listSessions'
+    | 'countSessions';
+
+/**
+ * Interface for a recorded call to the mock backend
+ */
+export interface MockCall {
+    /** The method that was called */
+    method: MockMethod;
+    /** The arguments of the call */
+    args: any[];
+    /** Whether the call succeeded; undefined while it is in progress */
+    succeeded?: boolean;
+    /** The error the call failed with, if any */
+    error?: unknown;
+}
+
+/**
+ * Interface for the in-memory data of a mock backend
+ *
+ * Share one store between several managers to simulate several
+ * participants of the same study, e.g. for condition assignment.
+ */
+export interface MockStore {
+    /** Stored sessions by ID */
+    sessions: Map<string, ExperimentData>;
+    /** Condition assignment counters by name */
+    counters: Map<string, AssignmentCounter>;
+    /** Uploaded media files by path */
+    media: Map<string, MediaUpload>;
+}
+
+/**
+ * Options specific to MockDataManager initialization
+ */
+export interface MockManagerOptions extends BaseManagerOptions {
+    /** Store holding the data (default: a new store for this manager) */
+    store?: MockStore;
+    /** Delay of every backend call in milliseconds (default: 0) */
+    latency?: number;
+    /** Probability that a backend call fails, between 0 and 1 (default: 0) */
+    failureRate?: number;
+    /** Start offline, so that every backend call fails until setOffline(false) (default: false) */
+    offline?: boolean;
+}
+
+/**
+ * Creates an empty store for MockDataManager
+ * @returns The store
+ */
+export function createMockStore(): MockStore {
+    return { sessions: new Map(), counters: new Map(), media: new Map() };
+}
+
+/**
+ * An in-memory DataManager for testing experiments without a backend
+ *
+ * Every backend call is recorded, and latency, random failures, a number of
+ * failing calls and offline periods can be simulated. Trials go through the
+ * same write queue, validation, privacy and encryption steps as with a real
+ * backend.
+ *
+ * @example
+ * ```typescript
+ * const dataManager = new MockDataManager({ latency: 50 });
+ * dataManager.failNext(2);
+ * // ... run the timeline
+ * dataManager.getStoredData()?.trials; // the trials as a backend would store them
+ * dataManager.getCalls('addTrialBatch'); // every write attempt
+ * ```
+ */
+export class MockDataManager extends DataManager {
+    private readonly store: MockStore;
+    private readonly calls: MockCall[] = [];
+    private latency: number;
+    private failureRate: number;
+    private offline: boolean;
+    private failures: unknown[] = [];
+    private sessionId?: string;
+    private numberOfOperations: number = 0;
+
+    /**
+     * Creates a new MockDataManager instance
+     * @param options Options for initialization and the simulated backend
+     */
+    constructor(options: MockManagerOptions = {}) {
+        super(options.metadata, options);
+
+        this.store = options.store ?? createMockStore();
+        this.latency = options.latency ?? 0;
+        this.failureRate = options.failureRate ?? 0;
+        this.offline = options.offline ?? false;
+    }
+
+    /**
+     * Creates the session in the store
+     * @param additionalData Additional data to include in the session
+     * @throws {Error} If the simulated backend fails
+     */
+    public async initializeExperiment(additionalData: Partial<ExperimentData> = {}): Promise<void> {
+        await this.checkDuplicateSession();
+
+        const sessionId = this.getParticipantSessionId() ?? this.createSessionId();
+        const initialData = await this.encryptMetadata({
+            ...this.metadata,
+            trials: [],
+            ...additionalData
+        });
+
+        await this.call('initializeExperiment', [initialData], () => {
+            this.store.sessions.set(sessionId, { ...initialData, trials: [] } as ExperimentData);
+        });
+
+        this.sessionId = sessionId;
+        this.trackSessionStart(sessionId);
+        this.startWriteQueue();
+    }
+
+    /**
+     * Adds a new trial to the stored session
+     * @param trialData The trial data to add
+     * @throws {Error} If the simulated backend fails
+     */
+    public async addTrialData(trialData: TrialData): Promise<void> {
+        await this.call('addTrialData', [trialData], () => this.storeTrials([trialData]));
+    }
+
+    /**
+     * Adds several trials to the stored session in a single operation
+     * @param trials The trials to add, in order
+     * @throws {Error} If the simulated backend fails
+     */
+    public async addTrialBatch(trials: TrialData[]): Promise<void> {
+        await this.call('addTrialBatch', [trials], () => this.storeTrials(trials));
+    }
+
+    /**
+     * Gets the number of successful backend calls
+     * @returns The number of operations performed
+     */
+    public getNumberOfOperations(): number {
+        return this.numberOfOperations;
+    }
+
+    /**
+     * Creates a callback function for jsPsych's on_finish event
+     * @returns A function that handles experiment completion
+     */
+    public createFinishCallback(): () => Promise<void> {
+        return async () => {
+            this.calls.push({ method: 'finish', args: [], succeeded: true });
+            await this.completeSession();
+        };
+    }
+
+    /**
+     * Reads a session from the store, with decoded trials
+     * @param sessionId ID of the session
+     * @returns The session, or undefined if it does not exist
+     * @throws {Error} If the simulated backend fails
+     */
+    public async getSession(sessionId: string): Promise<ExperimentData | undefined> {
+        return this.call('getSession', [sessionId], () => {
+            const session = this.store.sessions.get(sessionId);
+            return session ? this.decodeSession(session) : undefined;
+        }, false);
+    }
+
+    /**
+     * Reads the sessions in the store that match a query, in the order they were created
+     * @param sessionQuery Metadata fields, date range, status and page to select
+     * @returns The matching sessions of the page
+     * @throws {Error} If the simulated backend fails
+     */
+    public async listSessions(sessionQuery: SessionQuery = {}): Promise<StoredSession[]> {
+        return this.call('listSessions', [sessionQuery], () => querySessions(
+            [...this.store.sessions.entries()].map(([id, session]) => ({ id, data: this.decodeSession(session) })),
+            sessionQuery
+        ), false);
+    }
+
+    /**
+     * Counts the sessions in the store that match a query
+     * @param sessionQuery Metadata fields, date range and status to select
+     * @returns The number of matching sessions
+     * @throws {Error} If the simulated backend fails
+     */
+    public async countSessions(sessionQuery: SessionQuery = {}): Promise<number> {
+        return this.call('countSessions', [sessionQuery], () => querySessions(
+            [...this.store.sessions.entries()].map(([id, data]) => ({ id, data })),
+            { ...sessionQuery, limit: undefined, offset: undefined, includeTrials: false }
+        ).length, false);
+    }
+
+    /**
+     * Gets the recorded backend calls
+     * @param method Only return calls of this method (optional)
+     * @returns The calls, oldest first
+     */
+    public getCalls(method?: MockMethod): MockCall[] {
+        return this.calls.filter(call => !method || call.method === method);
+    }
+
+    /**
+     * Gets the session as it is stored
+     * @returns The stored session, or undefined before initialization
+     */
+    public getStoredData(): ExperimentData | undefined {
+        return this.sessionId ? this.store.sessions.get(this.sessionId) : undefined;
+    }
+
+    /**
+     * Gets the store holding the data of this manager
+     * @returns The store
+     */
+    public getStore(): MockStore {
+        return this.store;
+    }
+
+    /**
+     * Makes the next backend calls fail
+     * @param count Number of calls that fail (default: 1)
+     * @param error The error they fail with (default: a generic error)
+     */
+    public failNext(count: number = 1, error?: unknown): void {
+        for (let i = 0; i < count; i++) {
+            this.failures.push(error ?? new Error("Simulated backend failure"));
+        }
+    }
+
+    /**
+     * Starts or ends an offline period, during which every backend call fails
+     * @param offline Whether the backend is unreachable
+     */
+    public setOffline(offline: boolean): void {
+        this.offline = offline;
+    }
+
+    /**
+     * Changes the simulated latency
+     * @param latency Delay of every backend call in milliseconds
+     */
+    public setLatency(latency: number): void {
+        this.latency = latency;
+    }
+
+    /**
+     * Changes the probability that a backend call fails
+     * @param failureRate Probability between 0 and 1
+     */
+    public setFailureRate(failureRate: number): void {
+        this.failureRate = failureRate;
+    }
+
+    /**
+     * Writes fields to the stored session
+     * @param fields The fields to set
+     * @throws {Error} If the simulated backend fails
+     */
+    protected async updateSession(fields: Partial<ExperimentMetadata>): Promise<void> {
+        await this.call('updateSession', [fields], () => {
+            Object.assign(this.getCurrentSession(), fields);
+        });
+    }
+
+    /**
+     * Points the manager at a stored session
+     * @param sessionId ID of the session
+     * @throws {Error} If the session does not exist or the simulated backend fails
+     */
+    protected async restoreSession(sessionId: string): Promise<void> {
+        await this.call('restoreSession', [sessionId], () => {
+            if (!this.store.sessions.has(sessionId)) {
+                throw new Error(`Failed to resume session ${sessionId}: session not found`);
+            }
+        });
+        this.sessionId = sessionId;
+    }
+
+    /**
+     * Claims the least-filled slot of a counter in the store
+     * @param request The counter name, number of slots and index field
+     * @returns The index of the claimed slot
+     * @throws {Error} If the simulated backend fails
+     */
+    protected async claimAssignmentSlot(request: AssignmentSlotRequest): Promise<number> {
+        return this.call('claimAssignmentSlot', [request], () => {
+            const counter = this.store.counters.get(request.name) ?? { assigned: [], completed: [] };
+            const slot = pickLeastFilledSlot(counter, request.slotCount);
+            this.store.counters.set(request.name, {
+                ...counter,
+                assigned: incrementSlot(counter.assigned, slot, request.slotCount)
+            });
+            return slot;
+        });
+    }
+
+    /**
+     * Counts a slot of a counter in the store as completed
+     * @param name Name of the counter
+     * @param slot Index of the slot
+     * @throws {Error} If the simulated backend fails
+     */
+    protected async completeAssignmentSlot(name: string, slot: number): Promise<void> {
+        await this.call('completeAssignmentSlot', [name, slot], () => {
+            const counter = this.store.counters.get(name) ?? { assigned: [], completed: [] };
+            this.store.counters.set(name, {
+                ...counter,
+                completed: incrementSlot(counter.completed, slot, slot + 1)
+            });
+        });
+    }
+
+    /**
+     * Stores a media file in the store
+     * @param upload The file to upload
+     * @param onProgress Reports the number of bytes uploaded so far
+     * @throws {Error} If the simulated backend fails
+     */
+    protected async uploadMedia(upload: MediaUpload, onProgress: (loaded: number, total: number) => void): Promise<void> {
+        await this.call('uploadMedia', [upload], () => {
+            this.store.media.set(upload.path, upload);
+        });
+        onProgress(upload.blob.size, upload.blob.size);
+    }
+
+    /**
+     * Finds stored sessions with a participant ID
+     * @param participantId The stored participant_id value
+     * @returns IDs of the matching sessions
+     * @throws {Error} If the simulated backend fails
+     */
+    protected async findParticipantSessions(participantId: string): Promise<string[]> {
+        return this.call('findParticipantSessions', [participantId], () => [...this.store.sessions.entries()]
+            .filter(([, session]) => session.participant_id === participantId)
+            .map(([id]) => id));
+    }
+
+    /**
+     * Records a backend call and runs it with the simulated latency and failures
+     * @param method The method name
+     * @param args The arguments of the call
+     * @param operation Changes the store and returns the result
+     * @param countOperation Whether the call counts as an operation; reads do not (default: true)
+     * @returns The result of the operation
+     * @throws {Error} If the simulated backend fails
+     */
+    private async call<T>(method: MockMethod, args: any[], operation: () => T, countOperation: boolean = true): Promise<T> {
+        const call: MockCall = { method, args };
+        this.calls.push(call);
+
+        try {
+            if (this.latency > 0) {
+                await new Promise(resolve => setTimeout(resolve, this.latency));
+            }
+            if (this.offline) {
+                throw new Error("Simulated backend is offline");
+            }
+            if (this.failures.length > 0) {
+                throw this.failures.shift();
+            }
+            if (this.failureRate > 0 && Math.random() < this.failureRate) {
+                throw new Error("Simulated backend failure");
+            }
+
+            const result = operation();
+            if (countOperation) {
+                this.numberOfOperations++;
+            }
+            call.succeeded = true;
+            return result;
+        } catch (error) {
+            call.succeeded = false;
+            call.error = error;
+            console.error(`[MockDataManager] Error in ${method}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates a session ID that is not used in the store yet
+     *
+     * The ID is random, so that trials queued in an earlier page load with
+     * a different store are not mistaken for trials of this session.
+     * @returns The session ID, e.g. "mock-k3j9xq2a"
+     */
+    private createSessionId(): string {
+        let sessionId: string;
+        do {
+            sessionId = `mock-${Math.random().toString(36).slice(2, 10)}`;
+        } while (this.store.sessions.has(sessionId));
+        return sessionId;
+    }
+
+    /**
+     * Appends encoded trials to the stored session, with a server timestamp if `integrity` is set
+     * @param trials The trials to store
+     * @throws {Error} If the session does not exist
+     */
+    private storeTrials(trials: TrialData[]): void {
+        const serverTime = this.integrity ? { _server_time: new Date().toISOString() } : {};
+        this.getCurrentSession().trials.push(...trials.map(trial => ({ ...this.encodeTrial({ ...trial }), ...serverTime })));
+    }
+
+    /**
+     * Decodes the trials of a stored session with the configured codec
+     * @param session The stored session
+     * @returns A copy of the session with decoded trials
+     */
+    private decodeSession(session: ExperimentData): ExperimentData {
+        return this.codec ? decodeExperimentData(session, this.codec) : { ...session, trials: [...session.trials] };
+    }
+
+    /**
+     * Gets the stored session of this manager
+     * @returns The stored session
+     * @throws {Error} If the session has not been initialized
+     */
+    private getCurrentSession(): ExperimentData {
+        const session = this.sessionId ? this.store.sessions.get(this.sessionId) : undefined;
+        if (!session) {
+            throw new Error("Failed to store data: experiment has not been initialized");
+        }
+        return session;
+    }
+}
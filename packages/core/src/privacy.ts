@@ -0,0 +1,302 @@
+import { TrialData, ExperimentMetadata } from './DataManager';
+
+/**
+ * A named step of the privacy pipeline
+ */
+export interface TrialTransform {
+    /** Name recorded in the session's `transforms_applied` field */
+    name: string;
+    /**
+     * Transforms a trial
+     * @param trial The trial to transform; it must not be modified
+     * @returns The transformed trial
+     */
+    apply(trial: TrialData): TrialData;
+}
+
+/**
+ * Fields to keep or remove for a trial_type
+ */
+export interface FieldFilter {
+    /** Only these fields are uploaded (trial_type is always kept) */
+    allow?: string[];
+    /** These fields are never uploaded */
+    deny?: string[];
+}
+
+/**
+ * A pattern whose matches are redacted from string values
+ */
+export interface RedactionPattern {
+    /** Name of the pattern, used in the replacement and in `transforms_applied` */
+    name: string;
+    /** The pattern; it must have the global flag */
+    pattern: RegExp;
+    /** The replacement text (default: "[REDACTED:<name>]") */
+    replacement?: string;
+}
+
+/**
+ * Interface for privacy options
+ */
+export interface PrivacyOptions {
+    /** Field filters keyed by trial_type; "*" applies to trial types without their own filter */
+    fields?: Record<string, FieldFilter>;
+    /** Redact emails and phone numbers (true) or custom patterns from all string values (default: false) */
+    redact?: boolean | RedactionPattern[];
+    /** Trial and metadata fields whose values are replaced by a SHA-256 hash */
+    hashFields?: string[];
+    /** Salt prepended to values before hashing (default: none) */
+    hashSalt?: string;
+    /** Additional transforms that run after the built-in ones */
+    transforms?: TrialTransform[];
+}
+
+/**
+ * Pattern matching email addresses
+ */
+export const EMAIL_PATTERN: RedactionPattern = {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+};
+
+/**
+ * Pattern matching phone numbers such as "+1 (555) 123-4567" or "020 7946 0958"
+ */
+export const PHONE_PATTERN: RedactionPattern = {
+    name: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}(?!\w)/g
+};
+
+/**
+ * Removes, redacts and hashes fields of trials before they leave the browser
+ *
+ * The steps run in a fixed order: field filters, redaction, hashing, then
+ * custom transforms. The names of the configured steps are recorded in the
+ * session metadata as `transforms_applied`.
+ *
+ * @example
+ * ```typescript
+ * const scrubber = new TrialScrubber({
+ *     fields: { "*": { deny: ["stimulus"] }, "survey-text": { allow: ["rt", "response"] } },
+ *     redact: true,
+ *     hashFields: ["participant_id"]
+ * });
+ * const trial = scrubber.scrubTrial(data);
+ * ```
+ */
+export class TrialScrubber {
+    private readonly transforms: TrialTransform[];
+
+    /**
+     * Creates a new TrialScrubber instance
+     * @param options Privacy options
+     */
+    constructor(private readonly options: PrivacyOptions = {}) {
+        this.transforms = [];
+
+        for (const [trialType, filter] of Object.entries(options.fields ?? {})) {
+            this.transforms.push(createFieldFilter(trialType, filter, Object.keys(options.fields!)));
+        }
+
+        const patterns = options.redact === true ? [EMAIL_PATTERN, PHONE_PATTERN] : options.redact || [];
+        for (const pattern of patterns) {
+            this.transforms.push({
+                name: `redact:${pattern.name}`,
+                apply: trial => mapStrings(trial, value => redact(value, pattern))
+            });
+        }
+
+        for (const field of options.hashFields ?? []) {
+            this.transforms.push({
+                name: `hash:${field}`,
+                apply: trial => field in trial ? { ...trial, [field]: this.hash(trial[field]) } : trial
+            });
+        }
+
+        this.transforms.push(...options.transforms ?? []);
+    }
+
+    /**
+     * Runs all transforms on a trial
+     * @param trial The trial to scrub; it is not modified
+     * @returns The scrubbed trial
+     */
+    public scrubTrial(trial: TrialData): TrialData {
+        return this.transforms.reduce((result, transform) => transform.apply(result), trial);
+    }
+
+    /**
+     * Hashes the configured fields of the session metadata
+     * @param metadata The metadata; it is not modified
+     * @returns The metadata with hashed identifiers
+     */
+    public scrubMetadata<T extends Partial<ExperimentMetadata>>(metadata: T): T {
+        const result: Record<string, any> = { ...metadata };
+        for (const field of this.options.hashFields ?? []) {
+            if (field in result) {
+                result[field] = this.hash(result[field]);
+            }
+        }
+        return result as T;
+    }
+
+    /**
+     * Gets the names of the configured transforms, in the order they run
+     * @returns The transform names, e.g. ["fields:*", "redact:email", "hash:participant_id"]
+     */
+    public getAppliedTransforms(): string[] {
+        return this.transforms.map(transform => transform.name);
+    }
+
+    /**
+     * Hashes an identifier with the configured salt
+     * @param value The value to hash
+     * @returns The hex-encoded SHA-256 hash, or the value itself if it is null or undefined
+     */
+    private hash(value: any): any {
+        if (value === null || value === undefined) {
+            return value;
+        }
+        return sha256((this.options.hashSalt ?? '') + String(value));
+    }
+}
+
+/**
+ * Creates the transform that applies a field filter to one trial_type
+ * @param trialType The trial_type, or "*" for trial types without their own filter
+ * @param filter The fields to keep or remove
+ * @param filteredTypes All trial types that have a filter
+ * @returns The transform
+ */
+function createFieldFilter(trialType: string, filter: FieldFilter, filteredTypes: string[]): TrialTransform {
+    const allow = filter.allow ? new Set(['trial_type', ...filter.allow]) : undefined;
+    const deny = new Set(filter.deny ?? []);
+
+    return {
+        name: `fields:${trialType}`,
+        apply: trial => {
+            const applies = trialType === '*'
+                ? !filteredTypes.includes(trial.trial_type)
+                : trial.trial_type === trialType;
+            if (!applies) {
+                return trial;
+            }
+
+            const result: TrialData = { trial_type: trial.trial_type };
+            for (const [key, value] of Object.entries(trial)) {
+                if ((!allow || allow.has(key)) && !deny.has(key)) {
+                    result[key] = value;
+                }
+            }
+            return result;
+        }
+    };
+}
+
+/**
+ * Replaces the matches of a pattern in a string
+ * @param value The string
+ * @param pattern The pattern to redact
+ * @returns The redacted string
+ */
+function redact(value: string, pattern: RedactionPattern): string {
+    return value.replace(pattern.pattern, pattern.replacement ?? `[REDACTED:${pattern.name}]`);
+}
+
+/**
+ * Applies a function to every string in a value, including nested ones
+ * @param value The value
+ * @param fn The function to apply
+ * @returns A copy of the value with the strings replaced
+ */
+function mapStrings(value: any, fn: (value: string) => string): any {
+    if (typeof value === 'string') {
+        return fn(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => mapStrings(item, fn));
+    }
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        const result: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = mapStrings(item, fn);
+        }
+        return result;
+    }
+    return value;
+}
+
+/** SHA-256 round constants */
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/**
+ * Computes the SHA-256 hash of a string
+ *
+ * Synchronous, unlike WebCrypto, so trials can be hashed in the data update
+ * callback before they are queued.
+ * @param text The text to hash (encoded as UTF-8)
+ * @returns The hex-encoded hash
+ */
+export function sha256(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    const length = Math.ceil((bytes.length + 9) / 64) * 64;
+    const message = new Uint8Array(length);
+    message.set(bytes);
+    message[bytes.length] = 0x80;
+
+    const view = new DataView(message.buffer);
+    view.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+    view.setUint32(length - 4, bytes.length * 8);
+
+    const hash = new Uint32Array([
+        0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+    ]);
+    const w = new Uint32Array(64);
+    const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+    for (let offset = 0; offset < length; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            w[i] = view.getUint32(offset + i * 4);
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+
+        let [a, b, c, d, e, f, g, h] = hash;
+        for (let i = 0; i < 64; i++) {
+            const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+            const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) >>> 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) >>> 0;
+        }
+
+        hash[0] += a;
+        hash[1] += b;
+        hash[2] += c;
+        hash[3] += d;
+        hash[4] += e;
+        hash[5] += f;
+        hash[6] += g;
+        hash[7] += h;
+    }
+
+    return Array.from(hash, word => word.toString(16).padStart(8, '0')).join('');
+}
@@ -0,0 +1,65 @@
+import { ExperimentMetadata, SessionStatus } from './DataManager';
+import { StoredSession } from './export';
+
+/**
+ * Interface for the criteria and page of a session query
+ */
+export interface SessionQuery {
+    /** Only sessions with this experiment version */
+    version?: string;
+    /** Only sessions with this status (requires the `lifecycle` option) */
+    status?: SessionStatus;
+    /** Only sessions started on or after this date (YYYY-MM-DD) */
+    since?: string;
+    /** Only sessions started on or before this date (YYYY-MM-DD) */
+    until?: string;
+    /** Only sessions whose metadata fields equal these values */
+    where?: Record<string, string | number | boolean | null>;
+    /** Maximum number of sessions to return (default: all) */
+    limit?: number;
+    /** Number of matching sessions to skip (default: 0) */
+    offset?: number;
+    /** Read the trials of the sessions; without them, `trials` is empty (default: true) */
+    includeTrials?: boolean;
+}
+
+/**
+ * Checks whether a session matches the criteria of a query
+ * @param metadata The session metadata
+ * @param sessionQuery The query; its page is ignored
+ * @returns True if the session matches every criterion
+ */
+export function matchesSessionQuery(metadata: Partial<ExperimentMetadata>, sessionQuery: SessionQuery): boolean {
+    if (sessionQuery.version !== undefined && metadata.version !== sessionQuery.version) {
+        return false;
+    }
+    if (sessionQuery.status !== undefined && metadata.status !== sessionQuery.status) {
+        return false;
+    }
+    if (sessionQuery.since !== undefined && !(typeof metadata.date === 'string' && metadata.date >= sessionQuery.since)) {
+        return false;
+    }
+    if (sessionQuery.until !== undefined && !(typeof metadata.date === 'string' && metadata.date <= sessionQuery.until)) {
+        return false;
+    }
+
+    return Object.entries(sessionQuery.where ?? {}).every(([field, value]) => (metadata[field] ?? null) === value);
+}
+
+/**
+ * Selects the sessions matching a query and the requested page of them, in memory
+ *
+ * Used by managers whose backend cannot filter, e.g. browser storage.
+ * @param sessions All sessions, in a stable order
+ * @param sessionQuery The query
+ * @returns The matching sessions of the page
+ */
+export function querySessions(sessions: StoredSession[], sessionQuery: SessionQuery = {}): StoredSession[] {
+    const offset = sessionQuery.offset ?? 0;
+    const matching = sessions.filter(session => matchesSessionQuery(session.data, sessionQuery));
+    const page = matching.slice(offset, sessionQuery.limit === undefined ? undefined : offset + sessionQuery.limit);
+
+    return sessionQuery.includeTrials === false
+        ? page.map(session => ({ id: session.id, data: { ...session.data, trials: [] } }))
+        : page;
+}
@@ -0,0 +1,167 @@
+/**
+ * Supported recruitment platforms
+ */
+export type RecruitmentPlatform = 'prolific' | 'mturk' | 'sona';
+
+/**
+ * Interface for recruitment options
+ */
+export interface RecruitmentOptions {
+    /** The platform whose URL parameters should be parsed */
+    platform: RecruitmentPlatform;
+    /** Query string to parse (default: window.location.search) */
+    search?: string;
+    /** Use the participant ID as the backend session ID to deduplicate repeat attempts (default: false) */
+    useParticipantIdAsSessionId?: boolean;
+    /** Redirect to the completion URL once the finish callback has flushed all data (default: false) */
+    redirectOnFinish?: boolean;
+    /** Prolific completion code */
+    completionCode?: string;
+    /** SONA settings needed to build the credit granting URL */
+    sona?: {
+        /** SONA domain, e.g. "myschool.sona-systems.com" */
+        domain: string;
+        /** SONA experiment ID */
+        experimentId: string;
+        /** SONA credit token */
+        creditToken: string;
+    };
+}
+
+/**
+ * Interface for the parsed recruitment information
+ */
+export interface RecruitmentInfo {
+    /** The platform the participant came from */
+    platform: RecruitmentPlatform;
+    /** The participant ID on that platform, if present */
+    participantId?: string;
+    /** Metadata fields derived from the URL parameters */
+    metadata: Record<string, string>;
+}
+
+/**
+ * Hosts MTurk sends in `turkSubmitTo`; any other value is not used for the completion URL
+ */
+const MTURK_SUBMIT_HOSTS = ['www.mturk.com', 'workersandbox.mturk.com'];
+
+/**
+ * URL parameters per platform, mapped to the metadata fields they are stored in
+ */
+const PLATFORM_PARAMS: Record<RecruitmentPlatform, { participant: string; fields: Record<string, string> }> = {
+    prolific: {
+        participant: 'PROLIFIC_PID',
+        fields: {
+            PROLIFIC_PID: 'prolific_pid',
+            STUDY_ID: 'prolific_study_id',
+            SESSION_ID: 'prolific_session_id'
+        }
+    },
+    mturk: {
+        participant: 'workerId',
+        fields: {
+            workerId: 'mturk_worker_id',
+            assignmentId: 'mturk_assignment_id',
+            hitId: 'mturk_hit_id',
+            turkSubmitTo: 'mturk_submit_to'
+        }
+    },
+    sona: {
+        participant: 'id',
+        fields: {
+            id: 'sona_id'
+        }
+    }
+};
+
+/**
+ * Parses recruitment platform parameters from a query string
+ *
+ * Besides the platform-specific fields (e.g., `prolific_pid`,
+ * `mturk_assignment_id`, `sona_id`), the metadata contains
+ * `recruitment_platform` and, when present, `participant_id`.
+ *
+ * @example
+ * ```typescript
+ * // ?PROLIFIC_PID=abc&STUDY_ID=def&SESSION_ID=ghi
+ * const info = parseRecruitmentParams('prolific');
+ * info.participantId; // "abc"
+ * info.metadata;      // { recruitment_platform: "prolific", participant_id: "abc", prolific_pid: "abc", ... }
+ * ```
+ * @param platform The platform preset to use
+ * @param search Query string to parse (default: window.location.search)
+ * @returns The parsed recruitment information
+ */
+export function parseRecruitmentParams(
+    platform: RecruitmentPlatform,
+    search: string = typeof window !== 'undefined' ? window.location.search : ''
+): RecruitmentInfo {
+    const params = new URLSearchParams(search);
+    const preset = PLATFORM_PARAMS[platform];
+    const metadata: Record<string, string> = { recruitment_platform: platform };
+
+    for (const [param, field] of Object.entries(preset.fields)) {
+        const value = params.get(param);
+        if (value !== null && value !== '') {
+            metadata[field] = value;
+        }
+    }
+
+    const participantId = params.get(preset.participant) || undefined;
+    if (participantId) {
+        metadata.participant_id = participantId;
+    }
+
+    return { platform, participantId, metadata };
+}
+
+/**
+ * Builds the URL participants are sent to after completing the experiment
+ * @param info The parsed recruitment information
+ * @param options The recruitment options (completion code or SONA settings)
+ * @returns The completion URL, or undefined if it cannot be built or
+ * `turkSubmitTo` is not an https URL on an MTurk host
+ */
+export function buildCompletionUrl(info: RecruitmentInfo, options: RecruitmentOptions): string | undefined {
+    switch (info.platform) {
+        case 'prolific':
+            return options.completionCode
+                ? `https://app.prolific.com/submissions/complete?cc=${encodeURIComponent(options.completionCode)}`
+                : undefined;
+        case 'mturk': {
+            const submitTo = info.metadata.mturk_submit_to;
+            const assignmentId = info.metadata.mturk_assignment_id;
+            if (!submitTo || !assignmentId) {
+                return undefined;
+            }
+            if (!isMturkSubmitUrl(submitTo)) {
+                console.warn(`[DataManager] Ignoring turkSubmitTo "${submitTo}": not an https URL on ${MTURK_SUBMIT_HOSTS.join(' or ')}`);
+                return undefined;
+            }
+            return `${new URL(submitTo).origin}/mturk/externalSubmit?assignmentId=${encodeURIComponent(assignmentId)}`;
+        }
+        case 'sona': {
+            if (!options.sona || !info.participantId) {
+                return undefined;
+            }
+            const { domain, experimentId, creditToken } = options.sona;
+            return `https://${domain}/webstudy_credit.aspx?experiment_id=${encodeURIComponent(experimentId)}`
+                + `&credit_token=${encodeURIComponent(creditToken)}&survey_code=${encodeURIComponent(info.participantId)}`;
+        }
+    }
+}
+
+/**
+ * Checks that a `turkSubmitTo` value points at MTurk, so a crafted study link
+ * cannot redirect participants elsewhere
+ * @param value The URL parameter value
+ * @returns True if the value is an https URL on an MTurk host
+ */
+function isMturkSubmitUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'https:' && MTURK_SUBMIT_HOSTS.includes(url.hostname);
+    } catch {
+        return false;
+    }
+}
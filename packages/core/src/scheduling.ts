@@ -0,0 +1,147 @@
+/**
+ * When a manager processes the trials it receives from jsPsych
+ * - "immediate": inside on_data_update, before the next trial starts
+ * - "idle": in idle periods of the main thread, so that privacy transforms,
+ *   validation, hashing, encryption, queue persistence and backend writes
+ *   usually run between stimuli. The work still runs on the main thread, so
+ *   a long task can still delay a stimulus.
+ */
+export type SchedulingMode = 'immediate' | 'idle';
+
+/**
+ * Interface for scheduling options
+ */
+export interface SchedulingOptions {
+    /** When trials are processed and written (default: "immediate") */
+    mode?: SchedulingMode;
+    /** Longest time in milliseconds work waits for an idle period before it runs anyway (default: 2000) */
+    timeout?: number;
+}
+
+/**
+ * Runs tasks in order during idle periods of the main thread
+ *
+ * Uses requestIdleCallback where available and runs as many tasks as fit
+ * into each idle period, but at least one, so work is never postponed for
+ * longer than the timeout. Without requestIdleCallback (Safari), one task
+ * runs per macrotask. Once the page is hidden, tasks run immediately, as
+ * a hidden page may never become idle again.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new IdleScheduler(1000);
+ * scheduler.schedule(() => expensiveWork());
+ * await scheduler.whenDone();
+ * ```
+ */
+export class IdleScheduler {
+    private tasks: (() => void)[] = [];
+    private cancel?: () => void;
+    private hidden: boolean = false;
+
+    /**
+     * Creates a new IdleScheduler instance
+     * @param timeout Longest time in milliseconds a task waits for an idle period
+     */
+    constructor(private readonly timeout: number) {
+        if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+            window.addEventListener('pagehide', () => {
+                this.hidden = true;
+                this.runAll();
+            });
+            document.addEventListener('visibilitychange', () => {
+                this.hidden = document.visibilityState === 'hidden';
+                if (this.hidden) {
+                    this.runAll();
+                }
+            });
+        }
+    }
+
+    /**
+     * Adds a task that runs after all previously scheduled tasks
+     * @param task The task
+     */
+    public schedule(task: () => void): void {
+        this.tasks.push(task);
+
+        if (this.hidden) {
+            this.runAll();
+        } else {
+            this.request();
+        }
+    }
+
+    /**
+     * Waits until all tasks scheduled so far have run
+     *
+     * Code after `await scheduler.whenDone()` itself runs in an idle period.
+     * @returns A promise that resolves once the tasks have run
+     */
+    public whenDone(): Promise<void> {
+        return new Promise(resolve => this.schedule(resolve));
+    }
+
+    /**
+     * Runs all scheduled tasks now
+     */
+    public runAll(): void {
+        this.cancel?.();
+        this.cancel = undefined;
+
+        while (this.tasks.length > 0) {
+            this.runNext();
+        }
+    }
+
+    /**
+     * Gets the number of tasks waiting to run
+     * @returns The number of tasks
+     */
+    public getSize(): number {
+        return this.tasks.length;
+    }
+
+    /**
+     * Requests an idle period for the waiting tasks, unless one is requested already
+     */
+    private request(): void {
+        if (this.cancel || this.tasks.length === 0) {
+            return;
+        }
+
+        if (typeof requestIdleCallback === 'function') {
+            const handle = requestIdleCallback(deadline => this.runIdle(deadline), { timeout: this.timeout });
+            this.cancel = () => cancelIdleCallback(handle);
+        } else {
+            const handle = setTimeout(() => this.runIdle(), 0);
+            this.cancel = () => clearTimeout(handle);
+        }
+    }
+
+    /**
+     * Runs tasks until the idle period ends, then requests the next one
+     * @param deadline The idle period, or undefined without requestIdleCallback
+     */
+    private runIdle(deadline?: IdleDeadline): void {
+        this.cancel = undefined;
+
+        do {
+            this.runNext();
+        } while (this.tasks.length > 0 && deadline !== undefined && deadline.timeRemaining() > 0);
+
+        this.request();
+    }
+
+    /**
+     * Runs the oldest task
+     */
+    private runNext(): void {
+        const task = this.tasks.shift()!;
+        try {
+            task();
+        } catch (error) {
+            console.error("[IdleScheduler] Error in scheduled task:", error);
+        }
+    }
+}
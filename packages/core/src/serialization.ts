@@ -0,0 +1,193 @@
+import { ExperimentData, TrialData } from './DataManager';
+
+/**
+ * Interface for a pluggable, reversible trial encoder/decoder
+ */
+export interface TrialCodec {
+    /** Name of the codec, for documentation and debugging */
+    name: string;
+    /**
+     * Encodes a trial into a form the backend can store
+     * @param trial The original trial data
+     * @returns The encoded trial data
+     */
+    encode(trial: TrialData): TrialData;
+    /**
+     * Decodes a stored trial back into the original trial data
+     * @param encoded The encoded trial data
+     * @returns The original trial data
+     */
+    decode(encoded: TrialData): TrialData;
+}
+
+/**
+ * Key that marks a tagged value in the lossless format
+ */
+export const TYPE_TAG = '$type';
+
+const TYPED_ARRAYS = {
+    Int8Array,
+    Uint8Array,
+    Uint8ClampedArray,
+    Int16Array,
+    Uint16Array,
+    Int32Array,
+    Uint32Array,
+    Float32Array,
+    Float64Array
+};
+
+type TypedArrayName = keyof typeof TYPED_ARRAYS;
+
+/**
+ * Encodes a value into the lossless format
+ *
+ * The result only contains JSON-safe values and never nests an array directly
+ * inside another array, so it can be stored in Firestore, Postgres JSON
+ * columns and localStorage alike. Values JSON cannot represent are replaced
+ * by tagged objects of the form `{ "$type": <type>, "value": <payload> }`:
+ *
+ * - `undefined` → `{ "$type": "undefined" }`
+ * - `NaN`, `Infinity`, `-Infinity`, `-0` → `{ "$type": "number", "value": "NaN" }` etc.
+ * - `Date` → `{ "$type": "Date", "value": "<ISO string>" }` (invalid dates use `null`)
+ * - typed arrays → `{ "$type": "Float32Array", "value": [...] }` etc.
+ * - an array directly inside an array → `{ "$type": "Array", "value": [...] }`
+ * - an object that has its own `$type` key → `{ "$type": "Object", "value": {...} }`
+ *
+ * Other values (strings, finite numbers, booleans, null, plain objects and
+ * arrays) are kept as they are. Functions and symbols are not supported.
+ * @param value The value to encode
+ * @param insideArray Whether the value is an element of an array
+ * @returns The encoded value
+ */
+export function encodeValue(value: any, insideArray: boolean = false): any {
+    if (value === undefined) {
+        return { [TYPE_TAG]: 'undefined' };
+    }
+
+    if (typeof value === 'number') {
+        if (Number.isNaN(value) || !Number.isFinite(value) || Object.is(value, -0)) {
+            return { [TYPE_TAG]: 'number', value: Object.is(value, -0) ? '-0' : String(value) };
+        }
+        return value;
+    }
+
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    if (value instanceof Date) {
+        return { [TYPE_TAG]: 'Date', value: Number.isNaN(value.getTime()) ? null : value.toISOString() };
+    }
+
+    if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+        const name = value.constructor.name as TypedArrayName;
+        if (name in TYPED_ARRAYS) {
+            return { [TYPE_TAG]: name, value: Array.from(value as unknown as ArrayLike<number>, item => encodeValue(item, true)) };
+        }
+    }
+
+    if (Array.isArray(value)) {
+        const items = value.map(item => encodeValue(item, true));
+        return insideArray ? { [TYPE_TAG]: 'Array', value: items } : items;
+    }
+
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+        result[key] = encodeValue(value[key]);
+    }
+
+    return Object.prototype.hasOwnProperty.call(value, TYPE_TAG)
+        ? { [TYPE_TAG]: 'Object', value: result }
+        : result;
+}
+
+/**
+ * Decodes a value from the lossless format
+ * @param value The encoded value
+ * @returns The original value
+ */
+export function decodeValue(value: any): any {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => decodeValue(item));
+    }
+
+    const tag = value[TYPE_TAG];
+    if (typeof tag === 'string') {
+        switch (tag) {
+            case 'undefined':
+                return undefined;
+            case 'number':
+                return value.value === '-0' ? -0 : Number(value.value);
+            case 'Date':
+                return new Date(value.value === null ? NaN : value.value);
+            case 'Array':
+                return value.value.map((item: any) => decodeValue(item));
+            case 'Object':
+                return decodeObject(value.value);
+            default:
+                if (tag in TYPED_ARRAYS) {
+                    return TYPED_ARRAYS[tag as TypedArrayName].from(value.value.map((item: any) => decodeValue(item)));
+                }
+        }
+    }
+
+    return decodeObject(value);
+}
+
+/**
+ * Encodes a trial into the lossless format
+ * @param trial The original trial data
+ * @returns The encoded trial data
+ */
+export function encodeTrialData(trial: TrialData): TrialData {
+    return encodeValue(trial);
+}
+
+/**
+ * Decodes a trial from the lossless format
+ * @param encoded The encoded trial data
+ * @returns The original trial data
+ */
+export function decodeTrialData(encoded: TrialData): TrialData {
+    return decodeValue(encoded);
+}
+
+/**
+ * Decodes every trial of a stored session
+ * @param data The stored experiment data
+ * @param codec The codec the trials were encoded with (default: losslessCodec)
+ * @returns The experiment data with decoded trials
+ */
+export function decodeExperimentData(data: ExperimentData, codec: TrialCodec = losslessCodec): ExperimentData {
+    return {
+        ...data,
+        trials: (data.trials || []).map(trial => codec.decode(trial))
+    };
+}
+
+/**
+ * Codec for the documented, reversible lossless format (see encodeValue)
+ */
+export const losslessCodec: TrialCodec = {
+    name: 'lossless-v1',
+    encode: encodeTrialData,
+    decode: decodeTrialData
+};
+
+/**
+ * Decodes the properties of a plain object
+ * @param value The encoded object
+ * @returns The decoded object
+ */
+function decodeObject(value: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+        result[key] = decodeValue(value[key]);
+    }
+    return result;
+}
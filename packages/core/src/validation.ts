@@ -0,0 +1,347 @@
+import { TrialData } from './DataManager';
+
+/**
+ * JSON Schema types supported by the built-in validator
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema supported by the built-in validator
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    /** With `false`, unknown properties are errors, or removed when `stripUnknown` is set */
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    enum?: any[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minItems?: number;
+    maxItems?: number;
+}
+
+/**
+ * A custom validator function
+ * @param trial The trial to validate
+ * @returns The validation errors (empty if the trial is valid)
+ */
+export type TrialValidatorFunction = (trial: TrialData) => string[];
+
+/**
+ * A schema for one trial_type: a JSON Schema or a validator function
+ */
+export type TrialSchema = JsonSchema | TrialValidatorFunction;
+
+/**
+ * What to do with a trial that fails validation
+ * - "reject": do not upload it
+ * - "tag": upload it with the errors in a `_validation_errors` field
+ * - "quarantine": send it, with the errors, to the quarantine store instead
+ */
+export type InvalidTrialPolicy = 'reject' | 'tag' | 'quarantine';
+
+/**
+ * Interface for validation options
+ */
+export interface ValidationOptions {
+    /** Schemas keyed by trial_type; "*" applies to all trial types without their own schema */
+    schemas?: Record<string, TrialSchema>;
+    /** Maximum size of a trial serialized as UTF-8 JSON, in bytes (optional) */
+    maxTrialBytes?: number;
+    /** Convert strings to numbers/booleans and numbers/booleans to strings where the schema asks for it (default: false) */
+    coerce?: boolean;
+    /** Remove properties not listed in a schema with `additionalProperties: false` (default: false) */
+    stripUnknown?: boolean;
+    /** What to do with invalid trials (default: "tag") */
+    onInvalid?: InvalidTrialPolicy;
+    /** Where quarantined trials go: a data manager, or a function that receives them */
+    quarantine?: { enqueueTrialData(trial: TrialData): void } | ((trial: TrialData, errors: string[]) => void | Promise<void>);
+}
+
+/**
+ * Interface for the result of validating a trial
+ */
+export interface ValidationResult {
+    /** Whether the trial is valid */
+    valid: boolean;
+    /** The validation errors, as "path: message" strings */
+    errors: string[];
+    /** The trial after coercion and stripping */
+    trial: TrialData;
+}
+
+/**
+ * Validates, coerces and strips trials against per-trial_type schemas
+ *
+ * Schema patterns are compiled when a schema is registered, so an invalid
+ * pattern fails at setup instead of on every trial. A validator function
+ * that throws makes the trial invalid instead of throwing from validate().
+ *
+ * @example
+ * ```typescript
+ * const validator = new TrialValidator({ coerce: true, maxTrialBytes: 100000 });
+ * validator.register("html-keyboard-response", {
+ *     type: "object",
+ *     required: ["rt", "response"],
+ *     properties: { rt: { type: ["number", "null"], minimum: 0 } }
+ * });
+ * const { valid, errors, trial } = validator.validate(data);
+ * ```
+ */
+export class TrialValidator {
+    private readonly schemas: Map<string, TrialSchema> = new Map();
+    /** Compiled schema patterns by pattern source */
+    private readonly patterns: Map<string, RegExp> = new Map();
+
+    /**
+     * Creates a new TrialValidator instance
+     * @param options Validation options
+     * @throws {Error} If a schema has an invalid pattern
+     */
+    constructor(private readonly options: ValidationOptions = {}) {
+        for (const [trialType, schema] of Object.entries(options.schemas ?? {})) {
+            this.register(trialType, schema);
+        }
+    }
+
+    /**
+     * Registers the schema for a trial_type, replacing any previous one
+     * @param trialType The trial_type the schema applies to, or "*" for all others
+     * @param schema The JSON Schema or validator function
+     * @throws {Error} If the schema has an invalid pattern
+     */
+    public register(trialType: string, schema: TrialSchema): void {
+        if (typeof schema !== 'function') {
+            this.compilePatterns(schema, trialType);
+        }
+        this.schemas.set(trialType, schema);
+    }
+
+    /**
+     * Validates a trial
+     * @param trial The trial to validate; it is not modified
+     * @param checkSize Whether to check the trial against `maxTrialBytes` (default: true)
+     * @returns The validation result with the coerced and stripped copy of the trial
+     */
+    public validate(trial: TrialData, checkSize: boolean = true): ValidationResult {
+        const errors: string[] = [];
+        const schema = this.schemas.get(trial.trial_type) ?? this.schemas.get('*');
+        let result: TrialData = trial;
+
+        if (typeof schema === 'function') {
+            try {
+                errors.push(...schema(trial));
+            } catch (error) {
+                errors.push(`$: validator failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        } else if (schema) {
+            result = this.check(trial, { type: 'object', ...schema }, '$', errors);
+        }
+
+        if (checkSize) {
+            errors.push(...this.checkSize(result));
+        }
+
+        return { valid: errors.length === 0, errors, trial: result };
+    }
+
+    /**
+     * Checks the serialized size of a trial against `maxTrialBytes`
+     * @param trial The trial as it will be stored
+     * @returns The size error, or an empty list if the trial fits or no limit is set
+     */
+    public checkSize(trial: TrialData): string[] {
+        if (this.options.maxTrialBytes === undefined) {
+            return [];
+        }
+
+        const bytes = new TextEncoder().encode(JSON.stringify(trial)).length;
+        return bytes > this.options.maxTrialBytes
+            ? [`$: trial is ${bytes} bytes, more than the maximum of ${this.options.maxTrialBytes}`]
+            : [];
+    }
+
+    /**
+     * Compiles the patterns of a schema and its nested schemas
+     * @param schema The schema
+     * @param trialType The trial_type of the schema, for error messages
+     * @throws {Error} If a pattern is not a valid regular expression
+     */
+    private compilePatterns(schema: JsonSchema, trialType: string): void {
+        if (schema.pattern !== undefined && !this.patterns.has(schema.pattern)) {
+            try {
+                this.patterns.set(schema.pattern, new RegExp(schema.pattern));
+            } catch (error) {
+                throw new Error(`Invalid pattern ${schema.pattern} in the schema for "${trialType}": ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        Object.values(schema.properties ?? {}).forEach(property => this.compilePatterns(property, trialType));
+        if (schema.items) {
+            this.compilePatterns(schema.items, trialType);
+        }
+    }
+
+    /**
+     * Checks a value against a JSON Schema
+     * @param value The value to check
+     * @param schema The schema
+     * @param path The path of the value, for error messages
+     * @param errors The list errors are added to
+     * @returns The value after coercion and stripping
+     */
+    private check(value: any, schema: JsonSchema, path: string, errors: string[]): any {
+        const types = schema.type === undefined ? undefined : ([] as JsonSchemaType[]).concat(schema.type);
+
+        if (types && !types.some(type => matchesType(value, type))) {
+            const coerced = this.options.coerce ? coerceValue(value, types) : undefined;
+            if (coerced === undefined) {
+                errors.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+                return value;
+            }
+            value = coerced;
+        }
+
+        if (schema.enum && !schema.enum.some(option => option === value)) {
+            errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+        }
+
+        if (typeof value === 'number') {
+            if (schema.minimum !== undefined && value < schema.minimum) {
+                errors.push(`${path}: must be >= ${schema.minimum}`);
+            }
+            if (schema.maximum !== undefined && value > schema.maximum) {
+                errors.push(`${path}: must be <= ${schema.maximum}`);
+            }
+        }
+
+        if (typeof value === 'string') {
+            if (schema.minLength !== undefined && value.length < schema.minLength) {
+                errors.push(`${path}: must have at least ${schema.minLength} characters`);
+            }
+            if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+                errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+            }
+            if (schema.pattern !== undefined && !this.patterns.get(schema.pattern)!.test(value)) {
+                errors.push(`${path}: must match ${schema.pattern}`);
+            }
+        }
+
+        if (Array.isArray(value)) {
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                errors.push(`${path}: must have at least ${schema.minItems} items`);
+            }
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+                errors.push(`${path}: must have at most ${schema.maxItems} items`);
+            }
+            if (schema.items) {
+                value = value.map((item, i) => this.check(item, schema.items!, `${path}[${i}]`, errors));
+            }
+            return value;
+        }
+
+        if (value !== null && typeof value === 'object') {
+            return this.checkObject(value, schema, path, errors);
+        }
+
+        return value;
+    }
+
+    /**
+     * Checks the properties of an object against a JSON Schema
+     * @param value The object to check
+     * @param schema The schema
+     * @param path The path of the object, for error messages
+     * @param errors The list errors are added to
+     * @returns A copy of the object after coercion and stripping
+     */
+    private checkObject(value: Record<string, any>, schema: JsonSchema, path: string, errors: string[]): Record<string, any> {
+        const result: Record<string, any> = {};
+        const properties = schema.properties ?? {};
+
+        for (const key of schema.required ?? []) {
+            if (value[key] === undefined) {
+                errors.push(`${path}.${key}: is required`);
+            }
+        }
+
+        for (const key of Object.keys(value)) {
+            if (properties[key]) {
+                result[key] = this.check(value[key], properties[key], `${path}.${key}`, errors);
+            } else if (schema.additionalProperties === false && key !== 'trial_type') {
+                if (!this.options.stripUnknown) {
+                    errors.push(`${path}.${key}: is not allowed`);
+                    result[key] = value[key];
+                }
+            } else {
+                result[key] = value[key];
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Checks whether a value matches a JSON Schema type
+ * @param value The value
+ * @param type The JSON Schema type
+ * @returns True if the value has the type
+ */
+function matchesType(value: any, type: JsonSchemaType): boolean {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+/**
+ * Converts a value to the first of the given types it can be converted to
+ * @param value The value to convert
+ * @param types The accepted JSON Schema types
+ * @returns The converted value, or undefined if no conversion applies
+ */
+function coerceValue(value: any, types: JsonSchemaType[]): any {
+    for (const type of types) {
+        if ((type === 'number' || type === 'integer') && typeof value === 'string' && value.trim() !== '') {
+            const number = Number(value);
+            if (matchesType(number, type)) {
+                return number;
+            }
+        }
+        if (type === 'boolean' && (value === 'true' || value === 'false')) {
+            return value === 'true';
+        }
+        if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+            return String(value);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Describes the JSON type of a value for error messages
+ * @param value The value
+ * @returns The type name
+ */
+function describeType(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createLatinSquare, createMockStore, MockDataManager, MockStore } from '@jspsych-datamanager/core';
+
+/**
+ * Starts a participant's session on a shared store
+ * @param store The store shared by all participants
+ * @returns The participant's manager
+ */
+async function startParticipant(store: MockStore): Promise<MockDataManager> {
+    const manager = new MockDataManager({ store, lifecycle: true, queue: { storage: 'memory' } });
+    await manager.initializeExperiment({});
+    return manager;
+}
+
+describe('assignCondition', () => {
+    it('spreads participants arriving at the same time over the conditions', async () => {
+        const store = createMockStore();
+        const participants = await Promise.all([0, 1, 2, 3].map(() => startParticipant(store)));
+
+        const conditions = await Promise.all(participants.map(manager => manager.assignCondition(['control', 'treatment'])));
+
+        expect(conditions.map(assignment => assignment.condition).sort()).toEqual(['control', 'control', 'treatment', 'treatment']);
+        expect(store.counters.get('condition')).toEqual({ assigned: [2, 2], completed: [] });
+    });
+
+    it('writes the condition and its index to the session and counts completed sessions', async () => {
+        const store = createMockStore();
+        const first = await startParticipant(store);
+
+        const assignment = await first.assignCondition(['control', 'treatment']);
+        expect(assignment).toEqual({ index: 0, condition: 'control', order: ['control'] });
+        expect(first.getStoredData()).toMatchObject({ condition: 'control', condition_index: 0 });
+
+        await first.createFinishCallback()();
+        expect(store.counters.get('condition')).toEqual({ assigned: [1, 0], completed: [1] });
+    });
+
+    it('prefers the condition with fewer completed sessions when loads are equal', async () => {
+        const store = createMockStore();
+        store.counters.set('condition', { assigned: [3, 3], completed: [2, 1] });
+
+        const manager = await startParticipant(store);
+        expect((await manager.assignCondition(['a', 'b'])).condition).toBe('b');
+    });
+
+    it('assigns the rows of a balanced Latin square with "latin-square"', async () => {
+        const store = createMockStore();
+        const blocks = ['A', 'B', 'C', 'D'];
+        const orders: string[][] = [];
+
+        for (let i = 0; i < 4; i++) {
+            const manager = await startParticipant(store);
+            const assignment = await manager.assignCondition(blocks, { strategy: 'latin-square', field: 'block_order' });
+            orders.push(assignment.order);
+            expect(manager.getStoredData()).toMatchObject({ block_order: assignment.order, block_order_index: assignment.index });
+        }
+
+        expect(orders).toEqual(createLatinSquare(4).map(row => row.map(index => blocks[index])));
+        expect(createLatinSquare(4)).toEqual([[0, 1, 3, 2], [1, 2, 0, 3], [2, 3, 1, 0], [3, 0, 2, 1]]);
+    });
+
+    it('rejects an empty list of conditions', async () => {
+        const manager = await startParticipant(createMockStore());
+        await expect(manager.assignCondition([])).rejects.toThrow('no conditions given');
+    });
+});
@@ -0,0 +1,36 @@
+import { vi } from 'vitest';
+
+/**
+ * Creates an in-memory stand-in for window.localStorage
+ * @returns The storage
+ */
+export function createStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        get length() {
+            return items.size;
+        },
+        key: (index: number) => [...items.keys()][index] ?? null,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, String(value));
+        },
+        removeItem: (key: string) => {
+            items.delete(key);
+        },
+        clear: () => items.clear()
+    };
+}
+
+/**
+ * Stubs the window and document globals of a visible page with the given localStorage
+ *
+ * Undo with `vi.unstubAllGlobals()`.
+ * @param storage The localStorage of the page (default: a new, empty one)
+ * @returns The storage
+ */
+export function stubPage(storage: Storage = createStorage()): Storage {
+    vi.stubGlobal('window', Object.assign(new EventTarget(), { localStorage: storage }));
+    vi.stubGlobal('document', Object.assign(new EventTarget(), { visibilityState: 'visible' }));
+    return storage;
+}
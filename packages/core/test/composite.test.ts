@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { CompositeDataManager, MockDataManager, TrialData } from '@jspsych-datamanager/core';
+
+/**
+ * Creates mock backends with in-memory queues
+ * @param count Number of backends
+ * @returns The backends
+ */
+function createBackends(count: number): MockDataManager[] {
+    return Array.from({ length: count }, () => new MockDataManager({ queue: { storage: 'memory' } }));
+}
+
+/**
+ * Gets the trial indices a backend stored
+ * @param backend The backend
+ * @returns The trial indices, in stored order
+ */
+function storedIndices(backend: MockDataManager): number[] {
+    return (backend.getStoredData()?.trials ?? []).map((trial: TrialData) => trial.trial_index);
+}
+
+describe('CompositeDataManager in "all" mode', () => {
+    it('retries a failed write only on the backends that failed', async () => {
+        const [first, second] = createBackends(2);
+        const composite = new CompositeDataManager([first, second], { mode: 'all', queue: { storage: 'memory' } });
+        await composite.initializeExperiment({});
+
+        second.failNext(1);
+        await expect(composite.addTrialBatch([{ trial_type: 'html', trial_index: 0 }])).rejects.toThrow('only 1 of 2 backends succeeded');
+        expect(storedIndices(first)).toEqual([0]);
+        expect(storedIndices(second)).toEqual([]);
+    });
+
+    it('writes a trial to every backend once through the write queue', async () => {
+        const [first, second] = createBackends(2);
+        const composite = new CompositeDataManager([first, second], { mode: 'all', queue: { storage: 'memory', initialDelay: 10 } });
+        await composite.initializeExperiment({});
+
+        second.failNext(1);
+        composite.enqueueTrialData({ trial_type: 'html', trial_index: 0 });
+        await composite.flush();
+
+        expect(storedIndices(first)).toEqual([0]);
+        expect(storedIndices(second)).toEqual([0]);
+        expect(first.getCalls('addTrialBatch')).toHaveLength(1);
+        expect(second.getCalls('addTrialBatch')).toHaveLength(2);
+    });
+});
+
+describe('CompositeDataManager in "fallback" mode', () => {
+    it('writes to the next backend only while the primary fails', async () => {
+        const [primary, backup] = createBackends(2);
+        const composite = new CompositeDataManager([primary, backup], { mode: 'fallback', queue: { storage: 'memory' } });
+        await composite.initializeExperiment({});
+
+        primary.setOffline(true);
+        await composite.addTrialBatch([{ trial_type: 'html', trial_index: 0 }]);
+        primary.setOffline(false);
+        await composite.addTrialBatch([{ trial_type: 'html', trial_index: 1 }]);
+
+        expect(storedIndices(primary)).toEqual([1]);
+        expect(storedIndices(backup)).toEqual([0]);
+    });
+
+    it('fails when every backend fails, so the write queue keeps the trials', async () => {
+        const [primary, backup] = createBackends(2);
+        const composite = new CompositeDataManager([primary, backup], { mode: 'fallback', queue: { storage: 'memory', initialDelay: 60000 } });
+        await composite.initializeExperiment({});
+
+        primary.setOffline(true);
+        backup.setOffline(true);
+        await expect(composite.addTrialBatch([{ trial_type: 'html', trial_index: 0 }])).rejects.toThrow('Failed to store trial data in any backend: Simulated backend is offline');
+
+        composite.enqueueTrialData({ trial_type: 'html', trial_index: 1 });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(composite.getQueueStatus().pending).toBe(1);
+
+        backup.setOffline(false);
+        await composite.flush();
+        expect(storedIndices(backup)).toEqual([1]);
+    });
+
+    it('leaves out a primary that failed to initialize', async () => {
+        const [primary, backup] = createBackends(2);
+        primary.failNext(1);
+        const composite = new CompositeDataManager([
+            { name: 'primary', manager: primary },
+            { name: 'backup', manager: backup }
+        ], { mode: 'fallback', queue: { storage: 'memory' } });
+        await composite.initializeExperiment({});
+
+        await composite.addTrialBatch([{ trial_type: 'html', trial_index: 0 }]);
+        expect(primary.getCalls('addTrialBatch')).toHaveLength(0);
+        expect(storedIndices(backup)).toEqual([0]);
+        expect(composite.getStatusPerBackend().map(status => [status.name, status.initialized])).toEqual([['primary', false], ['backup', true]]);
+    });
+});
+
+describe('CompositeDataManager in "quorum" mode', () => {
+    it('succeeds once the quorum stored a batch and lets the other backends catch up', async () => {
+        const [first, second, third] = createBackends(3);
+        const composite = new CompositeDataManager([first, second, third], { mode: 'quorum', queue: { storage: 'memory', initialDelay: 10 } });
+        await composite.initializeExperiment({});
+
+        third.failNext(2);
+        await composite.addTrialBatch([{ trial_type: 'html', trial_index: 0 }]);
+        expect(storedIndices(third)).toEqual([]);
+        expect(composite.getStatusPerBackend()[2].pending).toBe(1);
+
+        await composite.createFinishCallback()();
+        for (const backend of [first, second, third]) {
+            expect(storedIndices(backend)).toEqual([0]);
+        }
+        expect(composite.getStatusPerBackend().map(status => status.pending)).toEqual([0, 0, 0]);
+    });
+
+    it('fails when fewer backends than the quorum stored a batch', async () => {
+        const [first, second, third] = createBackends(3);
+        const composite = new CompositeDataManager([first, second, third], { mode: 'quorum', queue: { storage: 'memory' } });
+        await composite.initializeExperiment({});
+
+        second.setOffline(true);
+        third.setOffline(true);
+        await expect(composite.addTrialBatch([{ trial_type: 'html', trial_index: 0 }])).rejects.toThrow('only 1 of 3 backends succeeded');
+    });
+
+    it('counts a backend as failed once it runs out of catch-up attempts', async () => {
+        const [first, second, third] = createBackends(3);
+        const composite = new CompositeDataManager([first, second, third], {
+            mode: 'quorum',
+            queue: { storage: 'memory', maxAttempts: 2, initialDelay: 5, maxDelay: 5 }
+        });
+        await composite.initializeExperiment({});
+
+        third.setOffline(true);
+        await composite.addTrialBatch([{ trial_type: 'html', trial_index: 0 }]);
+        await composite.createFinishCallback()();
+
+        expect(composite.getStatusPerBackend()[2]).toMatchObject({ pending: 0, failed: 1 });
+        expect(third.getCalls('addTrialBatch')).toHaveLength(3);
+    });
+
+    it('fails initialization when fewer backends than the quorum initialized', async () => {
+        const [first, second, third] = createBackends(3);
+        second.failNext(1);
+        third.failNext(1);
+        const composite = new CompositeDataManager([first, second, third], { mode: 'quorum', queue: { storage: 'memory' } });
+
+        await expect(composite.initializeExperiment({})).rejects.toThrow('only 1 of 3 backends initialized');
+    });
+});
@@ -0,0 +1,10 @@
+import { describe, it } from 'vitest';
+import { getConformanceTests, MockDataManager } from '@jspsych-datamanager/core';
+
+describe('MockDataManager conformance', () => {
+    for (const test of getConformanceTests(() => new MockDataManager(), {
+        readSession: async manager => (manager as MockDataManager).getStoredData()
+    })) {
+        it(test.name, test.run);
+    }
+});
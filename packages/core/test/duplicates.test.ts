@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createMockStore, DuplicateSessionPolicy, MockDataManager, MockStore, TabGuard } from '@jspsych-datamanager/core';
+
+/**
+ * Creates a manager for participant P1 that only looks for stored sessions
+ * @param store The store shared by the participant's sessions
+ * @param policy What happens when a duplicate is found
+ * @returns The manager
+ */
+function createManager(store: MockStore, policy: DuplicateSessionPolicy): MockDataManager {
+    return new MockDataManager({
+        store,
+        metadata: { participant_id: 'P1' },
+        queue: { storage: 'memory' },
+        // A key per manager, so that the managers of this process are not other tabs of each other
+        duplicates: { policy, key: `server-only-${Math.random()}` }
+    });
+}
+
+describe('duplicate sessions in the backend', () => {
+    it('are ignored for the first session of a participant', async () => {
+        const manager = createManager(createMockStore(), 'block');
+        await manager.initializeExperiment({});
+
+        expect(manager.getDuplicateSession()).toBeUndefined();
+    });
+
+    it('block initialization with the "block" policy', async () => {
+        const store = createMockStore();
+        await createManager(store, 'warn').initializeExperiment({});
+
+        const second = createManager(store, 'block');
+        const duplicates: string[][] = [];
+        second.on('session:duplicate', ({ sources, sessionIds, policy }) => {
+            expect(policy).toBe('block');
+            expect(sources).toEqual(['server']);
+            duplicates.push(sessionIds);
+        });
+
+        await expect(second.initializeExperiment({})).rejects.toThrow('another session of this participant exists (server)');
+        expect(duplicates).toEqual([[...store.sessions.keys()]]);
+        expect(store.sessions.size).toBe(1);
+    });
+
+    it('are recorded in the session metadata with the "flag" policy', async () => {
+        const store = createMockStore();
+        await createManager(store, 'warn').initializeExperiment({});
+        const [firstId] = store.sessions.keys();
+
+        const second = createManager(store, 'flag');
+        await second.initializeExperiment({});
+
+        expect(second.getDuplicateSession()).toMatchObject({ sources: ['server'], sessionIds: [firstId] });
+        expect(second.getStoredData()?.duplicate_session).toEqual({ sources: ['server'], session_ids: [firstId] });
+    });
+
+    it('only emit the event with the "warn" policy', async () => {
+        const store = createMockStore();
+        await createManager(store, 'warn').initializeExperiment({});
+
+        const second = createManager(store, 'warn');
+        let emitted = false;
+        second.on('session:duplicate', () => {
+            emitted = true;
+        });
+        await second.initializeExperiment({});
+
+        expect(emitted).toBe(true);
+        expect(second.getDuplicateSession()?.sources).toEqual(['server']);
+        expect(second.getStoredData()?.duplicate_session).toBeUndefined();
+    });
+});
+
+describe('TabGuard', () => {
+    it('detects another holder of the key until it is released', async () => {
+        const key = `tab-${Math.random()}`;
+        const first = new TabGuard(key, 50);
+        const second = new TabGuard(key, 50);
+        const third = new TabGuard(key, 50);
+
+        expect(await first.claim()).toBe(false);
+        expect(await second.claim()).toBe(true);
+
+        first.release();
+        second.release();
+        expect(await third.claim()).toBe(false);
+        third.release();
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createMockStore, decryptValue, isEncryptedPayload, MockDataManager } from '@jspsych-datamanager/core';
+
+/**
+ * Creates an AES-GCM key for the tests
+ * @returns The key
+ */
+function createKey(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+describe('encrypted metadata fields', () => {
+    it('are encrypted when the session is updated later', async () => {
+        const key = await createKey();
+        const manager = new MockDataManager({
+            lifecycle: true,
+            encryption: { key, metadataFields: ['condition', 'status'] }
+        });
+        await manager.initializeExperiment({});
+        await manager.assignCondition(['control', 'treatment']);
+        await manager.createFinishCallback()();
+
+        const session = manager.getStoredData()!;
+        expect(isEncryptedPayload(session.condition)).toBe(true);
+        expect(await decryptValue(session.condition, key)).toBe('control');
+        expect(isEncryptedPayload(session.status)).toBe(true);
+        expect(await decryptValue(session.status, key)).toBe('completed');
+        const updates = JSON.stringify(manager.getCalls('updateSession').map(call => call.args));
+        expect(updates).not.toContain('"control"');
+        expect(updates).not.toContain('"completed"');
+    });
+
+    it('refuse an encrypted participant ID as session ID', async () => {
+        const key = await createKey();
+        const recruitment = { platform: 'prolific' as const, search: '?PROLIFIC_PID=p-123', useParticipantIdAsSessionId: true };
+
+        expect(() => new MockDataManager({ recruitment, encryption: { key, metadataFields: ['participant_id'] } }))
+            .toThrow(/participant_id is encrypted/);
+
+        const store = createMockStore();
+        const hashed = new MockDataManager({
+            store,
+            recruitment,
+            privacy: { hashFields: ['participant_id'] },
+            encryption: { key, metadataFields: ['participant_id'] }
+        });
+        await hashed.initializeExperiment({});
+        expect([...store.sessions.keys()]).toEqual([expect.stringMatching(/^[0-9a-f]{64}$/)]);
+    });
+});
+
+describe('encryption with media uploads', () => {
+    it('is refused, as media files are not encrypted, unless they are allowed explicitly', async () => {
+        const key = await createKey();
+
+        expect(() => new MockDataManager({ encryption: { key }, media: { fields: ['response'] } }))
+            .toThrow(/media.allowUnencrypted/);
+
+        const store = createMockStore();
+        const manager = new MockDataManager({
+            store,
+            queue: { storage: 'memory' },
+            encryption: { key },
+            media: { fields: ['response'], contentTypes: { response: 'audio/webm' }, allowUnencrypted: true }
+        });
+        await manager.initializeExperiment({});
+        manager.enqueueTrialData({ trial_type: 'audio', response: btoa('recording') });
+        await manager.flush();
+
+        expect(store.media.size).toBe(1);
+        expect(isEncryptedPayload(manager.getStoredData()!.trials[0].$encrypted)).toBe(true);
+    });
+});
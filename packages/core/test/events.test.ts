@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MockDataManager } from '@jspsych-datamanager/core';
+
+describe('events', () => {
+    it('report queued, saved and failed trials and completed flushes', async () => {
+        const manager = new MockDataManager({ queue: { storage: 'memory', maxAttempts: 2, initialDelay: 5 } });
+        const events: string[] = [];
+        manager.on('initialized', ({ resumed }) => events.push(`initialized:${resumed}`));
+        manager.on('trial:queued', ({ trial }) => events.push(`queued:${trial.trial_index}`));
+        manager.on('trial:saved', ({ trial }) => events.push(`saved:${trial.trial_index}`));
+        manager.on('trial:failed', ({ trial, attempts, willRetry }) => events.push(`failed:${trial.trial_index}:${attempts}:${willRetry}`));
+        manager.on('flush:complete', ({ status }) => events.push(`flushed:${status.pending}:${status.failed}`));
+        await manager.initializeExperiment({});
+
+        manager.failNext(1);
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 0 });
+        await manager.flush();
+
+        manager.setOffline(true);
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 1 });
+        await manager.flush();
+
+        expect(events).toEqual([
+            'initialized:false',
+            'queued:0',
+            'failed:0:1:true',
+            'saved:0',
+            'flushed:0:0',
+            'queued:1',
+            'failed:1:1:true',
+            'failed:1:2:false',
+            'flushed:0:1'
+        ]);
+    });
+
+    it('can be listened to once and unsubscribed', async () => {
+        const manager = new MockDataManager({ queue: { storage: 'memory' } });
+        await manager.initializeExperiment({});
+        const once = vi.fn();
+        const always = vi.fn();
+        manager.once('trial:saved', once);
+        const unsubscribe = manager.on('trial:saved', always);
+
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 0 });
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 1 });
+        await manager.flush();
+        unsubscribe();
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 2 });
+        await manager.flush();
+
+        expect(once).toHaveBeenCalledTimes(1);
+        expect(always).toHaveBeenCalledTimes(2);
+    });
+
+    it('do not interrupt writing when a listener throws', async () => {
+        const manager = new MockDataManager({ queue: { storage: 'memory' } });
+        await manager.initializeExperiment({});
+        manager.on('trial:queued', () => {
+            throw new Error('broken status UI');
+        });
+
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 0 });
+        await manager.flush();
+
+        expect(manager.getStoredData()?.trials).toHaveLength(1);
+    });
+});
+
+describe('write hooks', () => {
+    it('write the trials returned by beforeWrite and pass them to afterWrite', async () => {
+        const afterWrite = vi.fn();
+        const manager = new MockDataManager({
+            queue: { storage: 'memory' },
+            hooks: {
+                beforeWrite: trials => trials.map(trial => ({ ...trial, checked: true })),
+                afterWrite
+            }
+        });
+        await manager.initializeExperiment({});
+
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 0 });
+        await manager.flush();
+
+        expect(manager.getStoredData()?.trials).toEqual([{ trial_type: 'html', trial_index: 0, checked: true }]);
+        expect(afterWrite).toHaveBeenCalledWith([{ trial_type: 'html', trial_index: 0, checked: true }]);
+    });
+
+    it('retry the write when beforeWrite fails, but not when afterWrite fails', async () => {
+        let beforeFailures = 1;
+        const manager = new MockDataManager({
+            queue: { storage: 'memory', initialDelay: 5 },
+            hooks: {
+                beforeWrite: () => {
+                    if (beforeFailures-- > 0) {
+                        throw new Error('not ready');
+                    }
+                },
+                afterWrite: () => {
+                    throw new Error('analytics unavailable');
+                }
+            }
+        });
+        await manager.initializeExperiment({});
+
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 0 });
+        await manager.flush();
+
+        expect(manager.getCalls('addTrialBatch')).toHaveLength(1);
+        expect(manager.getStoredData()?.trials).toHaveLength(1);
+        expect(manager.getQueueStatus()).toEqual({ pending: 0, failed: 0 });
+    });
+});
+
+describe('whenIdle', () => {
+    it('waits for every queued trial, including held-back batches, without forcing them', async () => {
+        const manager = new MockDataManager({ queue: { storage: 'memory' }, batch: { maxTrials: 2, maxWaitMs: 50 } });
+        await manager.initializeExperiment({});
+        const flushed = vi.fn();
+        manager.on('flush:complete', flushed);
+
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 0 });
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 1 });
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 2 });
+        const start = Date.now();
+        await manager.whenIdle();
+
+        expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+        expect(manager.getCalls('addTrialBatch').map(call => call.args[0].length)).toEqual([2, 1]);
+        expect(manager.getQueueStatus().pending).toBe(0);
+        expect(flushed).not.toHaveBeenCalled();
+    });
+});
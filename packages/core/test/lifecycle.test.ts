@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockDataManager } from '@jspsych-datamanager/core';
+
+describe('session lifecycle', () => {
+    let page: EventTarget;
+    let tab: EventTarget & { visibilityState: DocumentVisibilityState };
+
+    /**
+     * Changes the visibility of the stubbed page
+     * @param visibilityState The new visibility
+     */
+    function setVisibility(visibilityState: DocumentVisibilityState): void {
+        tab.visibilityState = visibilityState;
+        tab.dispatchEvent(new Event('visibilitychange'));
+    }
+
+    beforeEach(() => {
+        page = new EventTarget();
+        tab = Object.assign(new EventTarget(), { visibilityState: 'visible' as DocumentVisibilityState });
+        vi.stubGlobal('window', page);
+        vi.stubGlobal('document', tab);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('is not abandoned when the page is only hidden', async () => {
+        const manager = new MockDataManager({ lifecycle: true, queue: { storage: 'memory' } });
+        await manager.initializeExperiment({});
+
+        setVisibility('hidden');
+        setVisibility('visible');
+        expect(manager.getSessionStatus()).toBe('started');
+        expect(manager.getStoredData()?.status).toBe('started');
+    });
+
+    it('is abandoned when the page is closed and resumed when it is restored', async () => {
+        const manager = new MockDataManager({ lifecycle: true, queue: { storage: 'memory' } });
+        await manager.initializeExperiment({});
+
+        setVisibility('hidden');
+        page.dispatchEvent(new Event('pagehide'));
+        expect(manager.getSessionStatus()).toBe('abandoned');
+
+        page.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true }));
+        expect(manager.getSessionStatus()).toBe('in_progress');
+    });
+
+    it('is abandoned once the page has been hidden for abandonAfterHiddenMs', async () => {
+        vi.useFakeTimers();
+        const manager = new MockDataManager({ lifecycle: { abandonAfterHiddenMs: 60000 }, queue: { storage: 'memory' } });
+        await manager.initializeExperiment({});
+
+        setVisibility('hidden');
+        vi.advanceTimersByTime(59000);
+        setVisibility('visible');
+        setVisibility('hidden');
+        vi.advanceTimersByTime(59000);
+        expect(manager.getSessionStatus()).toBe('started');
+
+        vi.advanceTimersByTime(1000);
+        expect(manager.getSessionStatus()).toBe('abandoned');
+
+        setVisibility('visible');
+        expect(manager.getSessionStatus()).toBe('in_progress');
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createMockStore, DataManagerEvents, MockDataManager } from '@jspsych-datamanager/core';
+
+describe('media uploads', () => {
+    it('store a field that cannot be decoded with its original value and report it', async () => {
+        const store = createMockStore();
+        const manager = new MockDataManager({ store, media: { fields: ['response'] } });
+        const invalid: DataManagerEvents['media:invalid'][] = [];
+        manager.on('media:invalid', event => invalid.push(event));
+        await manager.initializeExperiment({});
+
+        // Five base64 characters cannot be decoded
+        const update = manager.createDataUpdateCallback();
+        expect(() => update({ trial_type: 'audio', trial_index: 0, response: 'abcde' })).not.toThrow();
+        update({ trial_type: 'audio', trial_index: 1, response: 'data:audio/webm;base64,AAAA' });
+        await manager.flush();
+
+        expect(invalid.map(event => event.field)).toEqual(['response']);
+        const trials = manager.getStoredData()!.trials;
+        expect(trials[0].response).toBe('abcde');
+        expect(trials[1].response).toMatchObject({ content_type: 'audio/webm', bytes: 3 });
+        expect(store.media.size).toBe(1);
+    });
+
+    it('are not extracted from trials that validation rejects', async () => {
+        const store = createMockStore();
+        const manager = new MockDataManager({
+            store,
+            media: { fields: ['response'] },
+            validation: {
+                onInvalid: 'reject',
+                schemas: { audio: { type: 'object', required: ['rt'] } }
+            }
+        });
+        await manager.initializeExperiment({});
+
+        const update = manager.createDataUpdateCallback();
+        update({ trial_type: 'audio', trial_index: 0, response: 'data:audio/webm;base64,AAAA' });
+        update({ trial_type: 'audio', trial_index: 1, rt: 500, response: 'data:audio/webm;base64,AAAA' });
+        await manager.flush();
+
+        expect(manager.getStoredData()!.trials.map(trial => trial.trial_index)).toEqual([1]);
+        expect(store.media.size).toBe(1);
+    });
+
+    it('count against maxTrialBytes as references, not as recordings', async () => {
+        const store = createMockStore();
+        const manager = new MockDataManager({
+            store,
+            media: { fields: ['response'] },
+            validation: { onInvalid: 'reject', maxTrialBytes: 1000 }
+        });
+        await manager.initializeExperiment({});
+
+        const update = manager.createDataUpdateCallback();
+        update({ trial_type: 'audio', trial_index: 0, response: `data:audio/webm;base64,${'A'.repeat(100000)}` });
+        update({ trial_type: 'audio', trial_index: 1, response: 'data:audio/webm;base64,AAAA', notes: 'x'.repeat(2000) });
+        await manager.flush();
+
+        const trials = manager.getStoredData()!.trials;
+        expect(trials.map(trial => trial.trial_index)).toEqual([0]);
+        expect(trials[0].response).toMatchObject({ content_type: 'audio/webm', bytes: 75000 });
+        expect(store.media.size).toBe(1);
+    });
+
+    it('keep the earlier validation errors when a tagged trial is too large', async () => {
+        const manager = new MockDataManager({
+            media: { fields: ['response'] },
+            validation: { maxTrialBytes: 1000, schemas: { audio: { type: 'object', required: ['rt'] } } }
+        });
+        await manager.initializeExperiment({});
+
+        manager.createDataUpdateCallback()({ trial_type: 'audio', trial_index: 0, response: 'data:audio/webm;base64,AAAA', notes: 'x'.repeat(2000) });
+        await manager.flush();
+
+        const [trial] = manager.getStoredData()!.trials;
+        expect(trial.response).toMatchObject({ content_type: 'audio/webm' });
+        expect(trial._validation_errors).toEqual([
+            '$.rt: is required',
+            expect.stringMatching(/^\$: trial is \d+ bytes, more than the maximum of 1000$/)
+        ]);
+    });
+});
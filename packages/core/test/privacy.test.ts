@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MockDataManager, sha256, TrialScrubber } from '@jspsych-datamanager/core';
+
+describe('TrialScrubber', () => {
+    it('keeps only the allowed fields and removes the denied ones per trial_type', () => {
+        const scrubber = new TrialScrubber({
+            fields: { '*': { deny: ['stimulus'] }, 'survey-text': { allow: ['rt', 'response'] } }
+        });
+
+        expect(scrubber.scrubTrial({ trial_type: 'html', stimulus: '<p>face</p>', rt: 500 }))
+            .toEqual({ trial_type: 'html', rt: 500 });
+        expect(scrubber.scrubTrial({ trial_type: 'survey-text', rt: 900, response: 'ok', stimulus: 'q', time_elapsed: 1 }))
+            .toEqual({ trial_type: 'survey-text', rt: 900, response: 'ok' });
+    });
+
+    it('redacts emails and phone numbers in nested string values', () => {
+        const scrubber = new TrialScrubber({ redact: true });
+        const trial = { trial_type: 'survey-text', response: { Q0: 'mail me at ada@example.org', Q1: ['call +1 (555) 123-4567'] } };
+
+        expect(scrubber.scrubTrial(trial).response).toEqual({
+            Q0: 'mail me at [REDACTED:email]',
+            Q1: ['call [REDACTED:phone]']
+        });
+        expect(trial.response.Q0).toBe('mail me at ada@example.org');
+    });
+
+    it('hashes identifiers with the salt in trials and metadata', () => {
+        const scrubber = new TrialScrubber({ hashFields: ['participant_id'], hashSalt: 'study-1' });
+
+        expect(scrubber.scrubTrial({ trial_type: 'html', participant_id: 'P1' }).participant_id).toBe(sha256('study-1P1'));
+        expect(scrubber.scrubMetadata({ participant_id: 'P1' }).participant_id).toBe(sha256('study-1P1'));
+        expect(scrubber.scrubMetadata({ participant_id: null }).participant_id).toBeNull();
+    });
+
+    it('runs the steps in a fixed order and names them', () => {
+        const scrubber = new TrialScrubber({
+            transforms: [{ name: 'round-rt', apply: trial => ({ ...trial, rt: Math.round(trial.rt) }) }],
+            hashFields: ['participant_id'],
+            redact: true,
+            fields: { '*': { deny: ['stimulus'] } }
+        });
+
+        expect(scrubber.getAppliedTransforms()).toEqual(['fields:*', 'redact:email', 'redact:phone', 'hash:participant_id', 'round-rt']);
+    });
+});
+
+describe('privacy option', () => {
+    it('scrubs trials and metadata before they are written and records the transforms', async () => {
+        const manager = new MockDataManager({
+            metadata: { participant_id: 'P1' },
+            queue: { storage: 'memory' },
+            privacy: { fields: { '*': { deny: ['stimulus'] } }, redact: true, hashFields: ['participant_id'] }
+        });
+        await manager.initializeExperiment({});
+
+        manager.enqueueTrialData({ trial_type: 'html', stimulus: 'secret', response: 'ada@example.org' });
+        await manager.flush();
+
+        const stored = manager.getStoredData()!;
+        expect(stored.participant_id).toBe(sha256('P1'));
+        expect(stored.transforms_applied).toEqual(['fields:*', 'redact:email', 'redact:phone', 'hash:participant_id']);
+        expect(stored.trials).toEqual([{ trial_type: 'html', response: '[REDACTED:email]' }]);
+    });
+});
@@ -0,0 +1,60 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createMockStore, matchesSessionQuery, MockDataManager, MockStore } from '@jspsych-datamanager/core';
+
+let store: MockStore;
+
+beforeAll(() => {
+    store = createMockStore();
+    store.sessions.set('s1', { version: '1.0.0', status: 'completed', date: '2026-03-01', condition: 'a', trials: [{ trial_type: 'html', trial_index: 0 }] });
+    store.sessions.set('s2', { version: '1.0.0', status: 'abandoned', date: '2026-03-04', condition: 'b', trials: [] });
+    store.sessions.set('s3', { version: '1.1.0', status: 'completed', date: '2026-03-08', condition: 'a', trials: [{ trial_type: 'html', trial_index: 0 }] });
+    store.sessions.set('s4', { version: '1.1.0', status: 'completed', date: '2026-03-12', condition: 'b', trials: [] });
+});
+
+/**
+ * Creates a manager reading the shared store
+ * @returns The manager
+ */
+function createManager(): MockDataManager {
+    return new MockDataManager({ store, queue: { storage: 'memory' } });
+}
+
+describe('session queries', () => {
+    it('list the sessions matching every criterion, in the order they were created', async () => {
+        const ids = async (query: Parameters<MockDataManager['listSessions']>[0]) =>
+            (await createManager().listSessions(query)).map(session => session.id);
+
+        expect(await ids({})).toEqual(['s1', 's2', 's3', 's4']);
+        expect(await ids({ version: '1.1.0' })).toEqual(['s3', 's4']);
+        expect(await ids({ status: 'completed', where: { condition: 'a' } })).toEqual(['s1', 's3']);
+        expect(await ids({ since: '2026-03-04', until: '2026-03-08' })).toEqual(['s2', 's3']);
+    });
+
+    it('return a page of the matching sessions', async () => {
+        const page = await createManager().listSessions({ status: 'completed', offset: 1, limit: 1 });
+        expect(page.map(session => session.id)).toEqual(['s3']);
+    });
+
+    it('leave out the trials when asked to', async () => {
+        const [session] = await createManager().listSessions({ where: { condition: 'a' }, limit: 1, includeTrials: false });
+        expect(session.data.trials).toEqual([]);
+        expect(store.sessions.get('s1')?.trials).toHaveLength(1);
+    });
+
+    it('count the matching sessions regardless of the page', async () => {
+        expect(await createManager().countSessions({ status: 'completed', limit: 1 })).toBe(3);
+        expect(await createManager().countSessions({ where: { condition: 'c' } })).toBe(0);
+    });
+
+    it('read a single session', async () => {
+        const manager = createManager();
+        expect((await manager.getSession('s2'))?.condition).toBe('b');
+        expect(await manager.getSession('missing')).toBeUndefined();
+    });
+
+    it('treat missing metadata fields as null', () => {
+        expect(matchesSessionQuery({}, { where: { condition: null } })).toBe(true);
+        expect(matchesSessionQuery({ condition: 'a' }, { where: { condition: null } })).toBe(false);
+        expect(matchesSessionQuery({}, { until: '2026-03-01' })).toBe(false);
+    });
+});
@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryQueueStorage, TrialData, WriteQueue } from '@jspsych-datamanager/core';
+
+/**
+ * Interface for a writer that records its calls
+ */
+interface RecordingWriter {
+    /** Writes a batch, or fails while failures are switched on */
+    write: (trials: TrialData[]) => Promise<void>;
+    /** Time and trials of every call */
+    calls: { time: number; trials: TrialData[] }[];
+    /** Switches failures on or off */
+    setFailing: (failing: boolean) => void;
+}
+
+/**
+ * Creates a writer that records the trials of every call
+ * @returns The writer
+ */
+function createWriter(): RecordingWriter {
+    const calls: { time: number; trials: TrialData[] }[] = [];
+    let failing = false;
+    return {
+        write: async trials => {
+            calls.push({ time: Date.now(), trials });
+            if (failing) {
+                throw new Error('backend unavailable');
+            }
+        },
+        calls,
+        setFailing: value => {
+            failing = value;
+        }
+    };
+}
+
+describe('WriteQueue', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('retries failed writes with exponential backoff up to maxDelay and gives up after maxAttempts', async () => {
+        const writer = createWriter();
+        writer.setFailing(true);
+        const failures: boolean[] = [];
+        const queue = new WriteQueue(writer.write, { storage: 'memory', maxAttempts: 4, initialDelay: 100, maxDelay: 300 }, {
+            onFailure: (_trials, _error, _attempts, willRetry) => failures.push(willRetry)
+        });
+        const start = Date.now();
+        queue.start('session-1');
+
+        queue.enqueue({ trial_type: 'html', trial_index: 0 });
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(writer.calls.map(call => call.time - start)).toEqual([0, 100, 300, 600]);
+        expect(failures).toEqual([true, true, true, false]);
+        expect(queue.getStatus()).toEqual({ pending: 0, failed: 1 });
+        expect(queue.getFailedEntries()[0]).toMatchObject({ attempts: 4, lastError: 'backend unavailable' });
+    });
+
+    it('keeps the order of trials while a failed write is retried', async () => {
+        const writer = createWriter();
+        writer.setFailing(true);
+        const queue = new WriteQueue(writer.write, { storage: 'memory', initialDelay: 100 });
+        queue.start('session-1');
+
+        queue.enqueue({ trial_type: 'html', trial_index: 0 });
+        queue.enqueue({ trial_type: 'html', trial_index: 1 });
+        await vi.advanceTimersByTimeAsync(50);
+        writer.setFailing(false);
+        await vi.advanceTimersByTimeAsync(100);
+
+        const written = writer.calls.slice(1).flatMap(call => call.trials.map(trial => trial.trial_index));
+        expect(written).toEqual([0, 1]);
+        expect(queue.getStatus()).toEqual({ pending: 0, failed: 0 });
+    });
+
+    it('writes failed entries again with retryFailed()', async () => {
+        const writer = createWriter();
+        writer.setFailing(true);
+        const queue = new WriteQueue(writer.write, { storage: 'memory', maxAttempts: 1 });
+        queue.start('session-1');
+
+        queue.enqueue({ trial_type: 'html', trial_index: 0 });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(queue.getStatus()).toEqual({ pending: 0, failed: 1 });
+
+        writer.setFailing(false);
+        queue.retryFailed();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(queue.getStatus()).toEqual({ pending: 0, failed: 0 });
+        expect(writer.calls).toHaveLength(2);
+    });
+
+    it('replays the trials of a session after a reload', async () => {
+        const storage = new MemoryQueueStorage();
+        const offline = createWriter();
+        offline.setFailing(true);
+        const before = new WriteQueue(offline.write, { storage, initialDelay: 60000 });
+        before.start('session-1');
+        before.enqueue({ trial_type: 'html', trial_index: 0 });
+        before.enqueue({ trial_type: 'html', trial_index: 1 });
+        await vi.advanceTimersByTimeAsync(0);
+
+        // The page is reloaded and the session resumed
+        const online = createWriter();
+        const after = new WriteQueue(online.write, { storage });
+        expect(after.getOrphanedEntries()).toHaveLength(2);
+        after.start('session-1');
+        after.enqueue({ trial_type: 'html', trial_index: 2 });
+        await after.flush();
+
+        expect(online.calls.flatMap(call => call.trials.map(trial => trial.trial_index))).toEqual([0, 1, 2]);
+        expect(after.getOrphanedEntries()).toEqual([]);
+        expect(storage.load()).toEqual([]);
+    });
+
+    it('keeps the trials of other sessions as orphaned entries until they are discarded', async () => {
+        const storage = new MemoryQueueStorage();
+        const offline = createWriter();
+        offline.setFailing(true);
+        const before = new WriteQueue(offline.write, { storage, initialDelay: 60000 });
+        before.start('session-1');
+        before.enqueue({ trial_type: 'html', trial_index: 0 });
+        await vi.advanceTimersByTimeAsync(0);
+
+        // A new session starts after the reload
+        const online = createWriter();
+        const after = new WriteQueue(online.write, { storage });
+        after.start('session-2');
+        after.enqueue({ trial_type: 'html', trial_index: 5 });
+        await after.flush();
+
+        expect(online.calls.flatMap(call => call.trials.map(trial => trial.trial_index))).toEqual([5]);
+        expect(after.getOrphanedEntries().map(entry => [entry.sessionId, entry.trial.trial_index])).toEqual([['session-1', 0]]);
+        expect(storage.load().map(entry => entry.sessionId)).toEqual(['session-1']);
+
+        after.discardOrphaned();
+        expect(after.getOrphanedEntries()).toEqual([]);
+        expect(storage.load()).toEqual([]);
+    });
+
+    it('holds trials back until a batch limit is reached', async () => {
+        const writer = createWriter();
+        const queue = new WriteQueue(writer.write, { storage: 'memory', batch: { maxTrials: 3, maxWaitMs: 1000 } });
+        queue.start('session-1');
+
+        queue.enqueue({ trial_type: 'html', trial_index: 0 });
+        queue.enqueue({ trial_type: 'html', trial_index: 1 });
+        await vi.advanceTimersByTimeAsync(500);
+        expect(writer.calls).toHaveLength(0);
+
+        queue.enqueue({ trial_type: 'html', trial_index: 2 });
+        queue.enqueue({ trial_type: 'html', trial_index: 3 });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(writer.calls.map(call => call.trials.length)).toEqual([3]);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(writer.calls.map(call => call.trials.length)).toEqual([3, 1]);
+    });
+
+    it('writes a batch once its size reaches maxBytes and keeps batches under it', async () => {
+        const trials = [0, 1, 2, 3].map(index => ({ trial_type: 'html', trial_index: index, response: 'x'.repeat(60) }));
+        const trialBytes = JSON.stringify(trials[0]).length;
+        const writer = createWriter();
+        const queue = new WriteQueue(writer.write, { storage: 'memory', batch: { maxTrials: 100, maxWaitMs: 60000, maxBytes: trialBytes * 2.5 } });
+        queue.start('session-1');
+
+        trials.forEach(trial => queue.enqueue(trial));
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(writer.calls.map(call => call.trials.length)).toEqual([2]);
+        expect(queue.getStatus().pending).toBe(2);
+    });
+
+    it('rejects flush() for trials queued before the queue was started', async () => {
+        const queue = new WriteQueue(createWriter().write, { storage: 'memory' });
+        queue.enqueue({ trial_type: 'html', trial_index: 0 });
+
+        await expect(queue.flush()).rejects.toThrow('the queue has not been started');
+    });
+});
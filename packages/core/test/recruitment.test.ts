@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildCompletionUrl, MockDataManager, parseRecruitmentParams } from '@jspsych-datamanager/core';
+
+describe('MTurk completion URL', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('is built for the MTurk submit hosts', () => {
+        for (const host of ['www.mturk.com', 'workersandbox.mturk.com']) {
+            const info = parseRecruitmentParams('mturk', `?workerId=w1&assignmentId=a1&turkSubmitTo=https%3A%2F%2F${host}`);
+            expect(buildCompletionUrl(info, { platform: 'mturk' })).toBe(`https://${host}/mturk/externalSubmit?assignmentId=a1`);
+        }
+    });
+
+    it('is not built for a hostile turkSubmitTo', () => {
+        const hostile = [
+            'javascript:alert(document.cookie)//www.mturk.com',
+            'https://evil.example',
+            'https://www.mturk.com.evil.example',
+            'http://www.mturk.com',
+            'https://user@evil.example',
+            'not a url'
+        ];
+
+        for (const submitTo of hostile) {
+            const info = parseRecruitmentParams('mturk', `?workerId=w1&assignmentId=a1&turkSubmitTo=${encodeURIComponent(submitTo)}`);
+            expect(buildCompletionUrl(info, { platform: 'mturk' })).toBeUndefined();
+        }
+    });
+
+    it('does not redirect to a hostile turkSubmitTo when the session completes', async () => {
+        const assign = vi.fn();
+        vi.stubGlobal('window', { location: { assign } });
+
+        const manager = new MockDataManager({
+            queue: { storage: 'memory' },
+            recruitment: {
+                platform: 'mturk',
+                search: `?workerId=w1&assignmentId=a1&turkSubmitTo=${encodeURIComponent('javascript:alert(1)')}`,
+                redirectOnFinish: true
+            }
+        });
+        await manager.initializeExperiment({});
+        await manager.createFinishCallback()();
+
+        expect(manager.getCompletionUrl()).toBeUndefined();
+        expect(assign).not.toHaveBeenCalled();
+    });
+});
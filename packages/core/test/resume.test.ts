@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockStore, MockDataManager } from '@jspsych-datamanager/core';
+import { stubPage } from './browser';
+
+describe('resuming a session', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('continues the unfinished session after a reload', async () => {
+        stubPage();
+        const store = createMockStore();
+
+        const before = new MockDataManager({ store, resume: true, queue: { storage: 'memory' } });
+        await before.initializeExperiment({});
+        const onData = before.createDataUpdateCallback();
+        onData({ trial_type: 'html', trial_index: 0 });
+        onData({ trial_type: 'html', trial_index: 1 });
+        await before.flush();
+
+        // The page is reloaded with the same localStorage
+        const after = new MockDataManager({ store, resume: true, queue: { storage: 'memory' } });
+        expect(after.getResumableSession()).toMatchObject({ lastTrialIndex: 1 });
+        expect(after.isTrialCompleted(1)).toBe(true);
+        expect(after.isTrialCompleted(2)).toBe(false);
+
+        const info = await after.resumeSession();
+        expect(info.completedTrials).toBe(2);
+        expect(after.getCalls('initializeExperiment')).toHaveLength(0);
+
+        after.createDataUpdateCallback()({ trial_type: 'html', trial_index: 2 });
+        await after.flush();
+        expect(store.sessions.size).toBe(1);
+        expect(store.sessions.get(info.sessionId)?.trials.map(trial => trial.trial_index)).toEqual([0, 1, 2]);
+    });
+
+    it('does not offer a finished session', async () => {
+        stubPage();
+        const store = createMockStore();
+
+        const before = new MockDataManager({ store, resume: true, queue: { storage: 'memory' } });
+        await before.initializeExperiment({});
+        before.createDataUpdateCallback()({ trial_type: 'html', trial_index: 0 });
+        await before.createFinishCallback()();
+
+        const after = new MockDataManager({ store, resume: true, queue: { storage: 'memory' } });
+        expect(after.getResumableSession()).toBeUndefined();
+        await expect(after.resumeSession()).rejects.toThrow('no unfinished session found');
+    });
+
+    it('starts a new session when initializeExperiment is called instead', async () => {
+        stubPage();
+        const store = createMockStore();
+
+        const before = new MockDataManager({ store, resume: true, queue: { storage: 'memory' } });
+        await before.initializeExperiment({});
+        before.createDataUpdateCallback()({ trial_type: 'html', trial_index: 0 });
+
+        const after = new MockDataManager({ store, resume: true, queue: { storage: 'memory' } });
+        await after.initializeExperiment({});
+
+        expect(store.sessions.size).toBe(2);
+        expect(after.isTrialCompleted(0)).toBe(false);
+    });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IdleScheduler, MockDataManager } from '@jspsych-datamanager/core';
+import { stubPage } from './browser';
+
+describe('IdleScheduler', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('runs tasks in order after the current task', async () => {
+        const scheduler = new IdleScheduler(1000);
+        const ran: number[] = [];
+
+        scheduler.schedule(() => ran.push(1));
+        scheduler.schedule(() => ran.push(2));
+        expect(ran).toEqual([]);
+        expect(scheduler.getSize()).toBe(2);
+
+        await scheduler.whenDone();
+        expect(ran).toEqual([1, 2]);
+    });
+
+    it('runs tasks immediately once the page is hidden', () => {
+        stubPage();
+        const scheduler = new IdleScheduler(1000);
+        const ran: number[] = [];
+        scheduler.schedule(() => ran.push(1));
+
+        Object.assign(document, { visibilityState: 'hidden' });
+        document.dispatchEvent(new Event('visibilitychange'));
+        expect(ran).toEqual([1]);
+
+        scheduler.schedule(() => ran.push(2));
+        expect(ran).toEqual([1, 2]);
+    });
+});
+
+describe('idle scheduling', () => {
+    it('returns from the data update callback before the trial is processed', async () => {
+        const manager = new MockDataManager({
+            queue: { storage: 'memory' },
+            scheduling: { mode: 'idle' },
+            privacy: { fields: { '*': { deny: ['stimulus'] } } }
+        });
+        await manager.initializeExperiment({});
+        const queued = vi.fn();
+        manager.on('trial:queued', queued);
+
+        const data = { trial_type: 'html', trial_index: 0, stimulus: 'face.png' };
+        expect(manager.createDataUpdateCallback()(data)).toBe(data);
+        data.stimulus = 'changed by jsPsych';
+
+        expect(queued).not.toHaveBeenCalled();
+        expect(manager.getQueueStatus()).toEqual({ pending: 1, failed: 0 });
+
+        await manager.whenIdle();
+        expect(manager.getStoredData()?.trials).toEqual([{ trial_type: 'html', trial_index: 0 }]);
+        expect(manager.getQueueStatus()).toEqual({ pending: 0, failed: 0 });
+    });
+
+    it('processes the scheduled trials in order when flushed', async () => {
+        const manager = new MockDataManager({ queue: { storage: 'memory' }, scheduling: { mode: 'idle' } });
+        await manager.initializeExperiment({});
+        const onData = manager.createDataUpdateCallback();
+
+        for (let i = 0; i < 5; i++) {
+            onData({ trial_type: 'html', trial_index: i });
+        }
+        await manager.flush();
+
+        expect(manager.getStoredData()?.trials.map(trial => trial.trial_index)).toEqual([0, 1, 2, 3, 4]);
+    });
+});
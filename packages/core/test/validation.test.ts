@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { MockDataManager, TrialValidator } from '@jspsych-datamanager/core';
+
+describe('TrialValidator', () => {
+    it('rejects an invalid pattern when the schema is registered', () => {
+        expect(() => new TrialValidator({ schemas: { survey: { properties: { response: { pattern: '([a-z' } } } } }))
+            .toThrow(/Invalid pattern \(\[a-z in the schema for "survey"/);
+        expect(() => new TrialValidator().register('list', { properties: { items: { type: 'array', items: { pattern: '*' } } } }))
+            .toThrow(/Invalid pattern \*/);
+    });
+
+    it('checks compiled patterns', () => {
+        const validator = new TrialValidator({ schemas: { survey: { properties: { response: { pattern: '^[a-z]+$' } } } } });
+
+        expect(validator.validate({ trial_type: 'survey', response: 'yes' }).valid).toBe(true);
+        expect(validator.validate({ trial_type: 'survey', response: 'Yes!' }).errors).toEqual(['$.response: must match ^[a-z]+$']);
+    });
+
+    it('turns a throwing validator function into a failed validation', () => {
+        const validator = new TrialValidator({
+            schemas: { survey: trial => trial.response.trim() ? [] : ['response is empty'] }
+        });
+
+        const result = validator.validate({ trial_type: 'survey' });
+        expect(result.valid).toBe(false);
+        expect(result.errors[0]).toMatch(/^\$: validator failed: /);
+    });
+
+    it('measures maxTrialBytes in UTF-8 bytes', () => {
+        const validator = new TrialValidator({ maxTrialBytes: 100 });
+        // The response is 40 characters, but 120 bytes in UTF-8
+        const trial = { trial_type: 'survey', response: '日本語'.repeat(13) + '語' };
+
+        expect(JSON.stringify(trial).length).toBeLessThan(100);
+        expect(validator.validate(trial).errors).toEqual([expect.stringMatching(/^\$: trial is 1\d\d bytes, more than the maximum of 100$/)]);
+    });
+});
+
+describe('DataManager validation', () => {
+    it('handles a trial whose validator throws according to onInvalid', async () => {
+        const manager = new MockDataManager({
+            validation: { onInvalid: 'reject', schemas: { survey: trial => trial.response.trim() ? [] : ['response is empty'] } }
+        });
+        await manager.initializeExperiment({});
+
+        const update = manager.createDataUpdateCallback();
+        expect(() => update({ trial_type: 'survey', trial_index: 0 })).not.toThrow();
+        update({ trial_type: 'survey', trial_index: 1, response: 'yes' });
+        await manager.flush();
+
+        expect(manager.getStoredData()!.trials.map(trial => trial.trial_index)).toEqual([1]);
+    });
+});
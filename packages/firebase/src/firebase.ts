@@ -1,6 +1,10 @@
 import { initializeApp, FirebaseApp } from "firebase/app";
-import { getFirestore, Firestore, collection, doc, setDoc, updateDoc, arrayUnion, DocumentReference } from "firebase/firestore";
-import { DataManager, ExperimentData, TrialData, BaseManagerOptions } from "@jspsych-datamanager/core";
+import { getFirestore, Firestore, collection, doc, getDoc, getDocs, setDoc, updateDoc, arrayUnion, writeBatch, getCountFromServer, runTransaction, query, where, limit, serverTimestamp, DocumentReference, QueryConstraint } from "firebase/firestore";
+import { getStorage, ref, uploadBytesResumable } from "firebase/storage";
+import { getAuth, signInAnonymously, signInWithCustomToken } from "firebase/auth";
+import { DataManager, ExperimentData, TrialData, BaseManagerOptions, AssignmentCounter, AssignmentSlotRequest, MediaUpload, SessionQuery, StoredSession, pickLeastFilledSlot, incrementSlot, decodeExperimentData } from "@jspsych-datamanager/core";
+import { FirestoreStorageMode, getTrialDocumentId, reassembleExperimentData, restoreFlattenedArrays } from "./reassemble";
+import { getFirestoreRules } from "./rules";
 
 /**
  * Configuration interface for Firebase initialization
@@ -20,6 +24,15 @@ export interface FirebaseConfig {
     appId: string;
 }
 
+/**
+ * How FirebaseManager signs in to Firebase Authentication
+ * - "anonymous": as an anonymous user, reusing the user from an earlier page load
+ * - "customToken": with a custom token minted by your server, or a function that fetches one
+ */
+export type FirebaseAuthOptions =
+    | { method: 'anonymous' }
+    | { method: 'customToken'; token: string | (() => string | Promise<string>) };
+
 /**
  * Options specific to FirebaseManager initialization
  */
@@ -28,6 +41,14 @@ export interface FirebaseManagerOptions extends BaseManagerOptions {
     collectionName?: string;
     /** Specific document ID to use (optional) */
     documentId?: string;
+    /** How trials are stored (default: "array") */
+    storageMode?: FirestoreStorageMode;
+    /** Name of the trials subcollection in "subcollection" mode (default: "trials") */
+    trialsCollectionName?: string;
+    /** Name of the collection holding condition assignment counters (default: "<collectionName>_assignments") */
+    assignmentsCollectionName?: string;
+    /** Sign in before writing and store the user ID as `auth_uid`, for use with getFirestoreRules (optional) */
+    auth?: FirebaseAuthOptions;
 }
 
 /**
@@ -36,6 +57,27 @@ export interface FirebaseManagerOptions extends BaseManagerOptions {
  * This class extends DataManager to provide Firebase-specific implementation
  * for storing and managing experiment data.
  * 
+ * With `storageMode: "subcollection"`, each trial is written as its own
+ * document in a `trials` subcollection of the session document, which keeps
+ * long sessions below Firestore's 1 MiB document limit. Use
+ * `reassembleExperimentData` to read such a session back.
+ * 
+ * By default, undefined values are dropped and arrays are turned into
+ * `{0: ..., 1: ...}` objects. Pass `codec: losslessCodec` to store trials in
+ * the reversible format from core instead.
+ * 
+ * With `useParticipantIdAsSessionId`, a participant's repeated attempts
+ * continue the same document: the session metadata is updated and the
+ * trials of earlier attempts are kept.
+ * 
+ * With the `media` option, media fields are uploaded to the project's
+ * Cloud Storage bucket (`storageBucket` in the configuration).
+ * 
+ * With the `auth` option, the manager signs in to Firebase Authentication
+ * before its first request and stores the user ID in the session's
+ * `auth_uid` field. `getSecurityRules()` returns Firestore rules that let a
+ * participant write only their own session and never read others.
+ * 
  * @example
  * ```typescript
  * const firebaseManager = new FirebaseManager(firebaseConfig, {
@@ -47,8 +89,18 @@ export interface FirebaseManagerOptions extends BaseManagerOptions {
 export class FirebaseManager extends DataManager {
     private readonly app: FirebaseApp;
     private readonly db: Firestore;
-    private readonly docRef: DocumentReference;
+    private readonly collectionName: string;
+    private docRef: DocumentReference;
+    private readonly participantDocument: boolean;
+    private readonly storageMode: FirestoreStorageMode;
+    private readonly trialsCollectionName: string;
+    private readonly assignmentsCollectionName: string;
+    private readonly authOptions?: FirebaseAuthOptions;
+    private signingIn?: Promise<void>;
     private numberOfWrites: number = 0;
+    private nextTrialIndex: number = 0;
+    /** Trial document writes, chained so that each one numbers its trials after the previous one */
+    private trialWrites: Promise<void> = Promise.resolve();
 
     /**
      * Creates a new FirebaseManager instance
@@ -59,17 +111,25 @@ export class FirebaseManager extends DataManager {
         firebaseConfig: FirebaseConfig,
         options: FirebaseManagerOptions = {}
     ) {
-        super(options.metadata);
+        super(options.metadata, options, `${firebaseConfig.projectId}/${options.collectionName || "experiments"}`);
         
         this.app = initializeApp(firebaseConfig);
         this.db = getFirestore(this.app);
         
-        const collectionName = options.collectionName || "experiments";
-        const documentId = options.documentId || undefined;
+        this.collectionName = options.collectionName || "experiments";
+        const participantDocumentId = options.documentId ? undefined : this.getParticipantSessionId();
+        const documentId = options.documentId || participantDocumentId;
+        // A document keyed by participant ID may hold an earlier attempt, which initialization continues
+        this.participantDocument = !!participantDocumentId;
         
         this.docRef = documentId 
-            ? doc(this.db, collectionName, documentId)
-            : doc(collection(this.db, collectionName));
+            ? doc(this.db, this.collectionName, documentId)
+            : doc(collection(this.db, this.collectionName));
+
+        this.storageMode = options.storageMode || "array";
+        this.trialsCollectionName = options.trialsCollectionName || "trials";
+        this.assignmentsCollectionName = options.assignmentsCollectionName || `${this.collectionName}_assignments`;
+        this.authOptions = options.auth;
     }
 
     /**
@@ -78,20 +138,45 @@ export class FirebaseManager extends DataManager {
      * @throws {Error} If initialization fails
      */
     public async initializeExperiment(additionalData: Partial<ExperimentData> = {}): Promise<void> {
-        const initialData: ExperimentData = {
+        await this.signIn();
+        await this.checkDuplicateSession();
+
+        const initialData: Partial<ExperimentData> = await this.encryptMetadata({
             ...this.metadata,
             trials: [],
             ...additionalData
-        };
+        });
+
+        // In subcollection mode, trials live in their own documents
+        if (this.storageMode === 'subcollection') {
+            delete initialData.trials;
+        }
 
         try {
-            await setDoc(this.docRef, initialData);
-            this.numberOfWrites++;
-            console.log("[FirebaseManager] Document successfully created!");
+            const existing = this.participantDocument ? await getDoc(this.docRef) : undefined;
+
+            if (existing?.exists()) {
+                // Keep the trials of the earlier attempt and continue numbering after them
+                delete initialData.trials;
+                await setDoc(this.docRef, initialData, { merge: true });
+                if (this.storageMode === 'subcollection') {
+                    const count = await getCountFromServer(collection(this.docRef, this.trialsCollectionName));
+                    this.nextTrialIndex = count.data().count;
+                }
+                this.numberOfWrites++;
+                console.log(`[FirebaseManager] Continuing the participant's document ${this.docRef.id}`);
+            } else {
+                await setDoc(this.docRef, initialData);
+                this.numberOfWrites++;
+                console.log("[FirebaseManager] Document successfully created!");
+            }
         } catch (error) {
             console.error("[FirebaseManager] Error creating document:", error);
             throw new Error("Failed to initialize experiment document");
         }
+
+        this.trackSessionStart(this.docRef.id);
+        this.startWriteQueue();
     }
 
     /**
@@ -100,16 +185,32 @@ export class FirebaseManager extends DataManager {
      * @throws {Error} If storing the trial fails
      */
     public async addTrialData(trialData: TrialData): Promise<void> {
-        // Clean undefined values before flattening
-        const cleanedData = this.removeUndefinedValues(trialData);
-        const flattenedData = this.flattenNestedArrays(cleanedData);
+        await this.addTrialBatch([trialData]);
+    }
+
+    /**
+     * Adds several trials to the experiment document in a single write
+     * @param trials The trials to add, in order
+     * @throws {Error} If storing the trials fails
+     */
+    public async addTrialBatch(trials: TrialData[]): Promise<void> {
+        // Without a codec, clean undefined values before flattening
+        const encodedData = trials.map(trial => this.codec
+            ? this.codec.encode(trial)
+            : this.flattenNestedArrays(this.removeUndefinedValues(trial)));
 
         try {
-            await updateDoc(this.docRef, {
-                trials: arrayUnion(flattenedData),
-            });
-            this.numberOfWrites++;
-            console.log("[FirebaseManager] Added trial data:", flattenedData);
+            if (this.storageMode === 'subcollection') {
+                await this.writeTrialDocuments(encodedData);
+            } else {
+                // Array elements cannot hold server timestamps, so the session records the last write instead
+                await updateDoc(this.docRef, {
+                    trials: arrayUnion(...encodedData),
+                    ...(this.integrity ? { last_write_at: serverTimestamp() } : {})
+                });
+                this.numberOfWrites++;
+            }
+            console.log("[FirebaseManager] Added trial data:", encodedData);
         } catch (error) {
             console.error("[FirebaseManager] Error storing trial data:", error);
             throw new Error("Failed to store trial data");
@@ -125,36 +226,421 @@ export class FirebaseManager extends DataManager {
     }
 
     /**
-     * Creates a callback function for jsPsych's on_data_update event
-     * @returns A function that handles trial data updates
+     * Creates a callback function for jsPsych's on_finish event
+     * @returns A function that handles experiment completion
      */
-    public createDataUpdateCallback(): (data: TrialData) => TrialData {
-        return (data: TrialData) => {
-            if (data.no_upload) {
-                delete data.no_upload;
-                return data;
+    public createFinishCallback(): () => Promise<void> {
+        return async () => {
+            await this.completeSession();
+            console.log("[FirebaseManager] Total writes to Firestore:", this.getNumberOfOperations());
+
+            const { failed } = this.getQueueStatus();
+            if (failed > 0) {
+                console.warn(`[FirebaseManager] Warning: ${failed} trials failed in the write queue`);
             }
-            
-            this.addTrialData(data).catch(error => {
-                console.error("[FirebaseManager] Error in data update callback:", error);
-            });
-            
-            return data;
         };
     }
 
     /**
-     * Creates a callback function for jsPsych's on_finish event
-     * @returns A function that handles experiment completion
+     * Writes lifecycle fields to the experiment document
+     * @param fields The fields to set
+     * @throws {Error} If the update fails
      */
-    public createFinishCallback(): () => void {
-        return () => {
-            console.log("[FirebaseManager] Total writes to Firestore:", this.getNumberOfOperations());
-        };
+    protected async updateSession(fields: Partial<ExperimentData>): Promise<void> {
+        await updateDoc(this.docRef, fields);
+        this.numberOfWrites++;
+    }
+
+    /**
+     * Gets the ID of the signed-in user
+     * @returns The user ID, or undefined without the `auth` option or before signing in
+     */
+    public getAuthUid(): string | undefined {
+        return this.metadata.auth_uid;
+    }
+
+    /**
+     * Gets the recommended Firestore security rules for this manager's collections
+     * @returns The rules for firestore.rules
+     */
+    public getSecurityRules(): string {
+        return getFirestoreRules({
+            collectionName: this.collectionName,
+            trialsCollectionName: this.trialsCollectionName,
+            assignmentsCollectionName: this.assignmentsCollectionName
+        });
+    }
+
+    /**
+     * Gets the ID of the experiment document
+     * @returns The Firestore document ID
+     */
+    public getDocumentId(): string {
+        return this.docRef.id;
+    }
+
+    /**
+     * Reads a session document, with decoded trials in order
+     * @param sessionId The Firestore document ID
+     * @returns The session, or undefined if the document does not exist
+     * @throws {Error} If reading fails, e.g. because the security rules do not allow it
+     */
+    public async getSession(sessionId: string): Promise<ExperimentData | undefined> {
+        await this.signIn();
+
+        try {
+            const snapshot = await getDoc(doc(this.db, this.collectionName, sessionId));
+            return snapshot.exists()
+                ? await this.readSession(sessionId, snapshot.data() as ExperimentData, true)
+                : undefined;
+        } catch (error) {
+            console.error("[FirebaseManager] Error reading session:", error);
+            throw new Error(`Failed to read session ${sessionId}`);
+        }
+    }
+
+    /**
+     * Reads the session documents that match a query, with decoded trials in order
+     *
+     * Sessions are ordered by document ID, or by date with `since` or
+     * `until`. Firestore has no offset, so skipped sessions are read as well.
+     * Combining a date range with other criteria needs a composite index;
+     * the error message links to its creation.
+     * @param sessionQuery Metadata fields, date range, status and page to select (default: all sessions)
+     * @returns The matching sessions of the page
+     * @throws {Error} If reading fails, e.g. because the security rules do not allow it
+     */
+    public async listSessions(sessionQuery: SessionQuery = {}): Promise<StoredSession[]> {
+        await this.signIn();
+        const offset = sessionQuery.offset ?? 0;
+        const constraints = this.getSessionConstraints(sessionQuery);
+        if (sessionQuery.limit !== undefined) {
+            constraints.push(limit(offset + sessionQuery.limit));
+        }
+
+        try {
+            const snapshot = await getDocs(query(collection(this.db, this.collectionName), ...constraints));
+            return await Promise.all(snapshot.docs.slice(offset).map(async sessionDoc => ({
+                id: sessionDoc.id,
+                data: await this.readSession(sessionDoc.id, sessionDoc.data() as ExperimentData, sessionQuery.includeTrials ?? true)
+            })));
+        } catch (error) {
+            console.error("[FirebaseManager] Error listing sessions:", error);
+            throw new Error("Failed to list sessions");
+        }
+    }
+
+    /**
+     * Counts the session documents that match a query with a single aggregation query
+     * @param sessionQuery Metadata fields, date range and status to select; the page is ignored
+     * @returns The number of matching sessions
+     * @throws {Error} If counting fails, e.g. because the security rules do not allow it
+     */
+    public async countSessions(sessionQuery: SessionQuery = {}): Promise<number> {
+        await this.signIn();
+
+        try {
+            const snapshot = await getCountFromServer(query(
+                collection(this.db, this.collectionName),
+                ...this.getSessionConstraints(sessionQuery)
+            ));
+            return snapshot.data().count;
+        } catch (error) {
+            console.error("[FirebaseManager] Error counting sessions:", error);
+            throw new Error("Failed to count sessions");
+        }
+    }
+
+    /**
+     * Points the manager at an existing experiment document
+     * @param sessionId The Firestore document ID
+     * @throws {Error} If the document does not exist
+     */
+    protected async restoreSession(sessionId: string): Promise<void> {
+        await this.signIn();
+        const docRef = doc(this.db, this.collectionName, sessionId);
+        const snapshot = await getDoc(docRef);
+
+        if (!snapshot.exists()) {
+            throw new Error(`Failed to resume session: document ${sessionId} not found`);
+        }
+
+        // Continue numbering after the trial documents that were already written
+        if (this.storageMode === 'subcollection') {
+            const count = await getCountFromServer(collection(docRef, this.trialsCollectionName));
+            this.nextTrialIndex = count.data().count;
+        }
+
+        this.docRef = docRef;
+        console.log(`[FirebaseManager] Resuming document ${sessionId}`);
+    }
+
+    /**
+     * Claims the least-filled slot of a condition assignment counter in a transaction
+     *
+     * A new counter starts from the number of completed sessions per slot.
+     * @param request The counter name, number of slots and index field
+     * @returns The index of the claimed slot
+     * @throws {Error} If the transaction fails
+     */
+    protected async claimAssignmentSlot(request: AssignmentSlotRequest): Promise<number> {
+        const counterRef = doc(this.db, this.assignmentsCollectionName, request.name);
+        await this.signIn();
+
+        try {
+            const seed = (await getDoc(counterRef)).exists() ? [] : await this.countCompletedSessions(request);
+            const slot = await runTransaction(this.db, async transaction => {
+                const snapshot = await transaction.get(counterRef);
+                const counter = snapshot.exists()
+                    ? snapshot.data() as AssignmentCounter
+                    : { assigned: [], completed: seed };
+                const slot = pickLeastFilledSlot(counter, request.slotCount);
+
+                transaction.set(counterRef, {
+                    ...counter,
+                    assigned: incrementSlot(counter.assigned, slot, request.slotCount)
+                });
+                return slot;
+            });
+            this.numberOfWrites++;
+            return slot;
+        } catch (error) {
+            console.error("[FirebaseManager] Error assigning condition:", error);
+            throw new Error(`Failed to assign condition "${request.name}"`);
+        }
+    }
+
+    /**
+     * Counts a slot of a condition assignment counter as completed
+     * @param name Name of the counter
+     * @param slot Index of the slot
+     * @throws {Error} If the transaction fails
+     */
+    protected async completeAssignmentSlot(name: string, slot: number): Promise<void> {
+        const counterRef = doc(this.db, this.assignmentsCollectionName, name);
+
+        await runTransaction(this.db, async transaction => {
+            const snapshot = await transaction.get(counterRef);
+            const counter = snapshot.exists()
+                ? snapshot.data() as AssignmentCounter
+                : { assigned: [], completed: [] };
+
+            transaction.set(counterRef, {
+                ...counter,
+                completed: incrementSlot(counter.completed, slot, slot + 1)
+            });
+        });
+        this.numberOfWrites++;
+    }
+
+    /**
+     * Uploads one media file to Cloud Storage
+     * @param upload The file to upload
+     * @param onProgress Reports the number of bytes uploaded so far
+     * @throws {Error} If the upload fails
+     */
+    protected async uploadMedia(upload: MediaUpload, onProgress: (loaded: number, total: number) => void): Promise<void> {
+        await this.signIn();
+        const task = uploadBytesResumable(ref(getStorage(this.app), upload.path), upload.blob, {
+            contentType: upload.contentType
+        });
+        task.on('state_changed', snapshot => onProgress(snapshot.bytesTransferred, snapshot.totalBytes));
+
+        try {
+            await task;
+        } catch (error) {
+            console.error(`[FirebaseManager] Error uploading ${upload.path}:`, error);
+            throw new Error(`Failed to upload ${upload.path}`);
+        }
+    }
+
+    /**
+     * Finds session documents with a participant ID
+     * @param participantId The stored participant_id value
+     * @returns IDs of the matching documents
+     * @throws The Firestore error if the query fails
+     */
+    protected async findParticipantSessions(participantId: string): Promise<string[]> {
+        const snapshot = await getDocs(query(
+            collection(this.db, this.collectionName),
+            where('participant_id', '==', participantId)
+        ));
+        return snapshot.docs.map(sessionDoc => sessionDoc.id);
+    }
+
+    /**
+     * Counts the completed sessions in each slot, to start a new counter
+     *
+     * Security rules that do not allow listing sessions, such as those from
+     * getFirestoreRules, make the counter start at zero instead.
+     * @param request The counter name, number of slots and index field
+     * @returns The number of completed sessions per slot
+     */
+    private async countCompletedSessions(request: AssignmentSlotRequest): Promise<number[]> {
+        const counts: number[] = [];
+
+        for (let slot = 0; slot < request.slotCount; slot++) {
+            try {
+                const snapshot = await getCountFromServer(query(
+                    collection(this.db, this.collectionName),
+                    where(request.indexField, '==', slot),
+                    where('status', '==', 'completed')
+                ));
+                counts.push(snapshot.data().count);
+            } catch (error) {
+                console.warn("[FirebaseManager] Could not count completed sessions, starting the counter at zero:", error);
+                return [];
+            }
+        }
+
+        return counts;
+    }
+
+    /**
+     * Translates the criteria of a session query into Firestore filters
+     * @param sessionQuery The query
+     * @returns The filters
+     */
+    private getSessionConstraints(sessionQuery: SessionQuery): QueryConstraint[] {
+        const constraints: QueryConstraint[] = [];
+
+        if (sessionQuery.version !== undefined) {
+            constraints.push(where('version', '==', sessionQuery.version));
+        }
+        if (sessionQuery.status !== undefined) {
+            constraints.push(where('status', '==', sessionQuery.status));
+        }
+        if (sessionQuery.since !== undefined) {
+            constraints.push(where('date', '>=', sessionQuery.since));
+        }
+        if (sessionQuery.until !== undefined) {
+            constraints.push(where('date', '<=', sessionQuery.until));
+        }
+        for (const [field, value] of Object.entries(sessionQuery.where ?? {})) {
+            constraints.push(where(field, '==', value));
+        }
+
+        return constraints;
+    }
+
+    /**
+     * Completes and decodes a stored session document
+     * @param sessionId The Firestore document ID
+     * @param data The document data
+     * @param includeTrials Whether to read the trials; in "subcollection" mode this reads the subcollection
+     * @returns The session with decoded trials
+     */
+    private async readSession(sessionId: string, data: ExperimentData, includeTrials: boolean): Promise<ExperimentData> {
+        if (!includeTrials) {
+            return { ...data, trials: [] };
+        }
+
+        if (this.storageMode === 'subcollection') {
+            data = await reassembleExperimentData(this.db, this.collectionName, sessionId, {
+                trialsCollectionName: this.trialsCollectionName
+            });
+        }
+
+        // Without a codec, arrays were stored as index-keyed objects
+        return this.codec
+            ? decodeExperimentData(data, this.codec)
+            : { ...data, trials: (data.trials || []).map(trial => restoreFlattenedArrays(trial)) };
+    }
+
+    /**
+     * Signs in once with the configured method and records the user ID
+     * @throws {Error} If signing in fails; the next request tries again
+     */
+    private async signIn(): Promise<void> {
+        if (!this.authOptions) {
+            return;
+        }
+
+        if (!this.signingIn) {
+            this.signingIn = this.authenticate(this.authOptions).catch(error => {
+                this.signingIn = undefined;
+                throw error;
+            });
+        }
+        await this.signingIn;
+    }
+
+    /**
+     * Signs in to Firebase Authentication
+     * @param options The sign-in method
+     * @throws {Error} If signing in fails
+     */
+    private async authenticate(options: FirebaseAuthOptions): Promise<void> {
+        const auth = getAuth(this.app);
+
+        try {
+            await auth.authStateReady();
+            let user = options.method === 'anonymous' ? auth.currentUser : null;
+
+            if (!user) {
+                const credential = options.method === 'customToken'
+                    ? await signInWithCustomToken(auth, typeof options.token === 'function' ? await options.token() : options.token)
+                    : await signInAnonymously(auth);
+                user = credential.user;
+            }
+
+            this.metadata.auth_uid = user.uid;
+            console.log(`[FirebaseManager] Signed in as ${user.uid}`);
+        } catch (error) {
+            console.error("[FirebaseManager] Error signing in:", error);
+            throw new Error("Failed to sign in to Firebase");
+        }
+    }
+
+    /**
+     * Writes trials as ordered documents of the trials subcollection ("subcollection" mode)
+     *
+     * Document IDs are zero-padded trial indices, so a retried batch overwrites
+     * its own documents instead of duplicating them. Writes run one after
+     * another, as concurrent writes (e.g. addTrialData next to the write
+     * queue) would otherwise number their trials from the same index.
+     * @param trials The Firestore-compatible trials to write, in order
+     * @returns A promise that resolves once the trials are written
+     */
+    private writeTrialDocuments(trials: TrialData[]): Promise<void> {
+        const write = this.trialWrites.then(() => this.commitTrialDocuments(trials));
+        this.trialWrites = write.catch(() => {});
+        return write;
+    }
+
+    /**
+     * Commits trial documents from the next trial index, in batches of at most 500 writes
+     *
+     * The index only advances once all batches are committed, so a failed
+     * write is retried under the same document IDs.
+     * @param trials The Firestore-compatible trials to write, in order
+     */
+    private async commitTrialDocuments(trials: TrialData[]): Promise<void> {
+        const trialsCollection = collection(this.docRef, this.trialsCollectionName);
+
+        // Firestore allows at most 500 writes per batch
+        for (let start = 0; start < trials.length; start += 500) {
+            const batch = writeBatch(this.db);
+            trials.slice(start, start + 500).forEach((trial, i) => {
+                const trialIndex = this.nextTrialIndex + start + i;
+                batch.set(doc(trialsCollection, getTrialDocumentId(trialIndex)), {
+                    ...trial,
+                    trial_index_in_session: trialIndex,
+                    ...(this.integrity ? { _server_time: serverTimestamp() } : {})
+                });
+            });
+            await batch.commit();
+            this.numberOfWrites++;
+        }
+
+        this.nextTrialIndex += trials.length;
     }
 
     /**
      * Flattens nested arrays in an object to make it Firestore-compatible
+     *
+     * Empty arrays are kept as they are, since an index-keyed object for
+     * them would read back as an empty object.
      * @param obj The object to flatten
      * @returns A new object with flattened arrays
      */
@@ -164,12 +650,12 @@ export class FirebaseManager extends DataManager {
         for (const key in result) {
             const value = result[key];
             
-            if (Array.isArray(value)) {
+            if (Array.isArray(value) && value.length > 0) {
                 (result[key] as any) = value.reduce((acc: Record<number, any>, val: any, i: number) => {
                     acc[i] = val;
                     return acc;
                 }, {});
-            } else if (typeof value === "object" && value !== null) {
+            } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
                 (result[key] as any) = this.flattenNestedArrays(value);
             }
         }
@@ -1,2 +1,6 @@
 // Export all interfaces and classes from firebase.ts
-export * from './firebase'; 
\ No newline at end of file
+export * from './firebase';
+// Export the session reassembly helpers from reassemble.ts
+export * from './reassemble';
+// Export the recommended security rules from rules.ts
+export * from './rules';
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { Firestore, collection, doc, getDoc, getDocs, orderBy, query, documentId, Timestamp } from "firebase/firestore";
+import { ExperimentData, TrialData, TrialCodec } from "@jspsych-datamanager/core";
+
+/**
+ * How FirebaseManager stores trials
+ * - "array": all trials in the `trials` array of the session document
+ * - "subcollection": one document per trial in a subcollection of the session document
+ */
+export type FirestoreStorageMode = 'array' | 'subcollection';
+
+/**
+ * Options for reassembling a stored session
+ */
+export interface ReassembleOptions {
+    /** Name of the trials subcollection (default: "trials") */
+    trialsCollectionName?: string;
+    /** Codec the trials were encoded with, used to decode them (optional) */
+    codec?: TrialCodec;
+}
+
+/**
+ * Gets the ID of a trial document in the trials subcollection
+ *
+ * IDs are zero-padded so that ordering by document ID matches trial order.
+ * @param trialIndex The index of the trial within the session
+ * @returns The trial document ID
+ */
+export function getTrialDocumentId(trialIndex: number): string {
+    return `trial_${String(trialIndex).padStart(6, '0')}`;
+}
+
+/**
+ * Reads a stored session back into a single ExperimentData object
+ *
+ * Works for both storage modes: trials from the subcollection are used when
+ * it has any documents, otherwise the session document's `trials` array.
+ * Pass the codec the manager was configured with to decode the trials.
+ *
+ * @example
+ * ```typescript
+ * const db = getFirestore(initializeApp(firebaseConfig));
+ * const data = await reassembleExperimentData(db, "experiments", documentId);
+ * console.log(data.trials.length);
+ * ```
+ * @param db The Firestore instance to read from
+ * @param collectionName Name of the experiments collection
+ * @param sessionId ID of the session document
+ * @param options Additional options
+ * @returns The session metadata with all trials in order
+ * @throws {Error} If the session document does not exist
+ */
+export async function reassembleExperimentData(
+    db: Firestore,
+    collectionName: string,
+    sessionId: string,
+    options: ReassembleOptions = {}
+): Promise<ExperimentData> {
+    const sessionRef = doc(db, collectionName, sessionId);
+    const sessionSnapshot = await getDoc(sessionRef);
+
+    if (!sessionSnapshot.exists()) {
+        throw new Error(`Session ${sessionId} not found in collection ${collectionName}`);
+    }
+
+    const session = sessionSnapshot.data() as ExperimentData;
+    const trialsSnapshot = await getDocs(query(
+        collection(sessionRef, options.trialsCollectionName || "trials"),
+        orderBy(documentId())
+    ));
+
+    const trials = trialsSnapshot.empty
+        ? session.trials || []
+        : trialsSnapshot.docs.map(trialDoc => {
+            const { trial_index_in_session, ...trial } = trialDoc.data();
+            // Server timestamps of the `integrity` option are returned as ISO 8601 strings
+            if (trial._server_time instanceof Timestamp) {
+                trial._server_time = trial._server_time.toDate().toISOString();
+            }
+            return trial as TrialData;
+        });
+
+    return {
+        ...session,
+        trials: options.codec ? trials.map(trial => options.codec!.decode(trial)) : trials
+    };
+}
+
+/**
+ * Turns the index-keyed objects written by FirebaseManager without a codec
+ * back into arrays
+ *
+ * Without a codec, arrays inside trials are stored as objects with the keys
+ * "0", "1", ... because Firestore does not support nested arrays. Objects
+ * whose keys are exactly the indices 0..n-1 are converted back, so a genuine
+ * object with such keys is converted as well. Empty arrays are stored as
+ * empty arrays; trials written before that was the case hold them as empty
+ * objects, which cannot be told apart from genuine empty objects and are
+ * left as they are.
+ * @param value A stored trial or value
+ * @returns The value with arrays restored
+ */
+export function restoreFlattenedArrays<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map(item => restoreFlattenedArrays(item)) as T;
+    }
+    if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) {
+        return value;
+    }
+
+    const record = value as Record<string, any>;
+    const keys = Object.keys(record);
+
+    // Integer keys are enumerated in ascending order
+    if (keys.length > 0 && keys.every((key, index) => key === String(index))) {
+        return keys.map(key => restoreFlattenedArrays(record[key])) as T;
+    }
+
+    const result: Record<string, any> = {};
+    for (const key of keys) {
+        result[key] = restoreFlattenedArrays(record[key]);
+    }
+    return result as T;
+}
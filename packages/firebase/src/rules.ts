@@ -0,0 +1,84 @@
+/**
+ * Options for generating the recommended Firebase security rules
+ */
+export interface FirebaseRulesOptions {
+    /** Name of the Firestore collection (default: "experiments") */
+    collectionName?: string;
+    /** Name of the trials subcollection in "subcollection" mode (default: "trials") */
+    trialsCollectionName?: string;
+    /** Name of the collection holding condition assignment counters (default: "<collectionName>_assignments") */
+    assignmentsCollectionName?: string;
+    /** Folder that media files are stored in (default: "jspsych-media") */
+    mediaPathPrefix?: string;
+}
+
+/**
+ * Generates Firestore security rules for FirebaseManager with the `auth` option
+ *
+ * Every signed-in participant can create a session document that carries
+ * their own `auth_uid`, and can only read and update that document and its
+ * trials. Reading a document that does not exist is allowed, so that
+ * FirebaseManager can check for an earlier attempt of the participant.
+ * Sessions cannot be listed or deleted from the client, so reading the data
+ * requires the Admin SDK or the Firebase console. Condition assignment
+ * counters hold no personal data and can be used by every signed-in
+ * participant.
+ * @param options Collection names
+ * @returns The rules for firestore.rules
+ */
+export function getFirestoreRules(options: FirebaseRulesOptions = {}): string {
+    const collectionName = options.collectionName || "experiments";
+    const trialsCollectionName = options.trialsCollectionName || "trials";
+    const assignmentsCollectionName = options.assignmentsCollectionName || `${collectionName}_assignments`;
+
+    return `rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    function isOwner(data) {
+      return request.auth != null && data.auth_uid == request.auth.uid;
+    }
+
+    match /${collectionName}/{sessionId} {
+      allow create: if isOwner(request.resource.data);
+      // Reading a missing document is allowed, so a participant-keyed session can be checked before it is created
+      allow get: if resource == null || isOwner(resource.data);
+      allow update: if isOwner(resource.data) && request.resource.data.auth_uid == resource.data.auth_uid;
+      allow list, delete: if false;
+
+      match /${trialsCollectionName}/{trialId} {
+        allow read, create, update: if isOwner(get(/databases/$(database)/documents/${collectionName}/$(sessionId)).data);
+        allow delete: if false;
+      }
+    }
+
+    match /${assignmentsCollectionName}/{name} {
+      allow read, create, update: if request.auth != null;
+      allow delete: if false;
+    }
+  }
+}
+`;
+}
+
+/**
+ * Generates Cloud Storage security rules for media uploads with the `auth` option
+ *
+ * Signed-in participants can upload new files below the media folder but
+ * cannot read, replace or delete any file.
+ * @param options The media folder
+ * @returns The rules for storage.rules
+ */
+export function getStorageRules(options: FirebaseRulesOptions = {}): string {
+    const mediaPathPrefix = options.mediaPathPrefix || "jspsych-media";
+
+    return `rules_version = '2';
+service firebase.storage {
+  match /b/{bucket}/o {
+    match /${mediaPathPrefix}/{allPaths=**} {
+      allow create: if request.auth != null;
+      allow read, update, delete: if false;
+    }
+  }
+}
+`;
+}
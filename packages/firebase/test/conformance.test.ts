@@ -0,0 +1,35 @@
+import { beforeAll, describe, it } from 'vitest';
+import { initializeApp } from 'firebase/app';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { getConformanceTests } from '@jspsych-datamanager/core';
+import { FirebaseManager, FirestoreStorageMode } from '../src';
+
+// Started by `pnpm test:firebase`, which runs the tests inside the Firestore emulator
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+const firebaseConfig = {
+    apiKey: 'demo-api-key',
+    authDomain: 'demo-jspsych-datamanager.firebaseapp.com',
+    projectId: 'demo-jspsych-datamanager',
+    storageBucket: 'demo-jspsych-datamanager.appspot.com',
+    messagingSenderId: '0',
+    appId: 'demo-app'
+};
+
+describe.skipIf(!emulatorHost)('FirebaseManager conformance on the Firestore emulator', () => {
+    beforeAll(() => {
+        // FirebaseManager reuses the default app, so connecting it here routes every manager to the emulator
+        const [host, port] = emulatorHost!.split(':');
+        connectFirestoreEmulator(getFirestore(initializeApp(firebaseConfig)), host, Number(port));
+    });
+
+    for (const storageMode of ['array', 'subcollection'] as FirestoreStorageMode[]) {
+        describe(`${storageMode} mode`, () => {
+            for (const test of getConformanceTests(() => new FirebaseManager(firebaseConfig, { storageMode }), {
+                readSession: manager => (manager as FirebaseManager).getSession((manager as FirebaseManager).getDocumentId())
+            })) {
+                it(test.name, test.run);
+            }
+        });
+    }
+});
@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initializeApp } from 'firebase/app';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { stampTrial, verifyTrials } from '@jspsych-datamanager/core';
+import { FirebaseManager, FirebaseManagerOptions, restoreFlattenedArrays } from '../src';
+
+// Started by `pnpm test:firebase`, which runs the tests inside the Firestore emulator
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+const firebaseConfig = {
+    apiKey: 'demo-api-key',
+    authDomain: 'demo-jspsych-datamanager.firebaseapp.com',
+    projectId: 'demo-jspsych-datamanager',
+    storageBucket: 'demo-jspsych-datamanager.appspot.com',
+    messagingSenderId: '0',
+    appId: 'demo-app'
+};
+
+beforeAll(() => {
+    if (emulatorHost) {
+        const [host, port] = emulatorHost.split(':');
+        connectFirestoreEmulator(getFirestore(initializeApp(firebaseConfig)), host, Number(port));
+    }
+});
+
+describe.skipIf(!emulatorHost)('FirebaseManager with useParticipantIdAsSessionId', () => {
+    for (const storageMode of ['array', 'subcollection'] as const) {
+        it(`keeps the trials of an earlier attempt in ${storageMode} mode`, async () => {
+            const participantId = `repeat-participant-${storageMode}-${Date.now()}`;
+            const options: FirebaseManagerOptions = {
+                storageMode,
+                recruitment: { platform: 'prolific', search: `?PROLIFIC_PID=${participantId}`, useParticipantIdAsSessionId: true }
+            };
+
+            for (const attempt of [1, 2]) {
+                const manager = new FirebaseManager(firebaseConfig, options);
+                await manager.initializeExperiment({ attempt });
+                await manager.addTrialBatch([{ trial_index: 0, response: `attempt ${attempt}` }]);
+            }
+
+            const session = await new FirebaseManager(firebaseConfig, { storageMode }).getSession(participantId);
+            expect(session?.attempt).toBe(2);
+            expect(session?.trials.map(trial => trial.response)).toEqual(['attempt 1', 'attempt 2']);
+        });
+    }
+});
+
+describe.skipIf(!emulatorHost)('FirebaseManager in subcollection mode', () => {
+    it('numbers concurrent writes one after another', async () => {
+        const manager = new FirebaseManager(firebaseConfig, { storageMode: 'subcollection' });
+        await manager.initializeExperiment({});
+
+        await Promise.all([
+            manager.addTrialBatch([{ trial_index: 0 }, { trial_index: 1 }]),
+            manager.addTrialData({ trial_index: 2 }),
+            manager.addTrialBatch([{ trial_index: 3 }, { trial_index: 4 }])
+        ]);
+
+        const session = await manager.getSession(manager.getDocumentId());
+        expect(session?.trials.map(trial => trial.trial_index)).toEqual([0, 1, 2, 3, 4]);
+    });
+});
+
+describe('restoreFlattenedArrays', () => {
+    it('keeps empty arrays and empty objects apart', () => {
+        expect(restoreFlattenedArrays({ a: [], b: {}, c: { 0: [], 1: {} } })).toEqual({ a: [], b: {}, c: [[], {}] });
+    });
+});
+
+describe.skipIf(!emulatorHost)('FirebaseManager without a codec', () => {
+    for (const storageMode of ['array', 'subcollection'] as const) {
+        it(`reads back empty arrays so integrity hashes match in ${storageMode} mode`, async () => {
+            const manager = new FirebaseManager(firebaseConfig, { storageMode });
+            await manager.initializeExperiment({});
+            await manager.addTrialBatch([
+                stampTrial({ trial_index: 0, responses: [], nested: { keys: [] }, grid: [[1, 2], []] }, 0),
+                stampTrial({ trial_index: 1, empty: {} }, 1)
+            ]);
+
+            const session = await manager.getSession(manager.getDocumentId());
+            expect(session?.trials[0]).toMatchObject({ responses: [], nested: { keys: [] }, grid: [[1, 2], []] });
+            expect(session?.trials[1]).toMatchObject({ empty: {} });
+            expect(verifyTrials(session?.trials ?? []).hashMismatches).toEqual([]);
+        });
+    }
+});
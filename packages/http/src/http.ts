@@ -0,0 +1,292 @@
+import { DataManager, ExperimentData, TrialData, BaseManagerOptions } from "@jspsych-datamanager/core";
+
+/**
+ * Largest request body in bytes that browsers accept for keepalive requests
+ */
+const KEEPALIVE_BODY_LIMIT = 65536;
+
+/**
+ * Configuration interface for the HTTP endpoint
+ */
+export interface HttpConfig {
+    /** URL that receives the initial experiment payload via POST */
+    endpoint: string;
+    /** Headers sent with every request, or a function that returns them (e.g., for auth tokens) */
+    headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+}
+
+/**
+ * Options specific to HttpManager initialization
+ */
+export interface HttpManagerOptions extends BaseManagerOptions {
+    /** Specific session ID to use; skips reading it from the initialization response (optional) */
+    sessionId?: string;
+    /** Builds the URL that trials are POSTed to (default: "<endpoint>/<sessionId>/trials") */
+    sessionUrl?: (sessionId: string, endpoint: string) => string;
+    /** Builds the initialization request body (default: the experiment data as is) */
+    buildInitPayload?: (data: ExperimentData) => any;
+    /** Builds the request body for a single trial (default: the trial data as is) */
+    buildTrialPayload?: (trial: TrialData, sessionId: string) => any;
+    /** Builds the body of the final beacon flush (default: `{ trials }`) */
+    buildBeaconPayload?: (trials: TrialData[], sessionId: string) => any;
+    /** Reads the session ID from the parsed initialization response (default: `body.id`) */
+    getSessionId?: (responseBody: any) => string | undefined;
+    /** HTTP status codes treated as success (default: any 2xx status) */
+    successStatuses?: number[];
+    /** Builds the URL that session updates (e.g., lifecycle status) are PATCHed to (default: "<endpoint>/<sessionId>") */
+    updateUrl?: (sessionId: string, endpoint: string) => string;
+}
+
+/**
+ * A class to manage HTTP/REST operations for jsPsych experiments
+ *
+ * This class extends DataManager to send experiment data to a self-hosted
+ * server. The initial payload is POSTed to the configured endpoint, which
+ * must respond with a session ID, and each trial is POSTed to a session URL.
+ * Requests are sent with `keepalive` (up to the browsers' 64 KiB limit), so a
+ * trial that is being written when the page is hidden still arrives. When the
+ * experiment finishes or the page is hidden, trials still in the write queue
+ * are sent with `navigator.sendBeacon`.
+ *
+ * @example
+ * ```typescript
+ * const httpManager = new HttpManager({
+ *     endpoint: "https://lab.example.edu/api/sessions",
+ *     headers: { Authorization: "Bearer <token>" }
+ * }, {
+ *     metadata: { version: "1.0.0" }
+ * });
+ * ```
+ *
+ * NOTE: `navigator.sendBeacon` cannot set custom headers, so the server must
+ * accept the final beacon POST to the session URL without them.
+ */
+export class HttpManager extends DataManager {
+    private readonly config: HttpConfig;
+    private readonly options: HttpManagerOptions;
+    private sessionId?: string;
+    private numberOfRequests: number = 0;
+
+    /**
+     * Creates a new HttpManager instance
+     * @param httpConfig HTTP endpoint configuration
+     * @param options Additional options for initialization
+     */
+    constructor(
+        httpConfig: HttpConfig,
+        options: HttpManagerOptions = {}
+    ) {
+        super(options.metadata, options, httpConfig.endpoint);
+
+        this.config = httpConfig;
+        this.options = options;
+        this.sessionId = options.sessionId || this.getParticipantSessionId();
+
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pagehide', () => this.flushWithBeacon());
+        }
+    }
+
+    /**
+     * POSTs the initial experiment payload to the configured endpoint
+     * @param additionalData Additional data to include in the payload
+     * @throws {Error} If initialization fails
+     */
+    public async initializeExperiment(additionalData: Partial<ExperimentData> = {}): Promise<void> {
+        await this.checkDuplicateSession();
+
+        const initialData: ExperimentData = await this.encryptMetadata({
+            ...this.metadata,
+            trials: [],
+            ...additionalData
+        });
+        const payload = this.options.buildInitPayload
+            ? this.options.buildInitPayload(initialData)
+            : initialData;
+
+        try {
+            const response = await this.post(this.config.endpoint, payload);
+
+            if (!this.sessionId) {
+                const body = await response.json().catch(() => undefined);
+                const sessionId = this.options.getSessionId
+                    ? this.options.getSessionId(body)
+                    : body?.id;
+
+                if (!sessionId) {
+                    throw new Error("No session ID returned from the endpoint");
+                }
+                this.sessionId = String(sessionId);
+            }
+
+            console.log(`[HttpManager] Session created with ID: ${this.sessionId}`);
+        } catch (error) {
+            console.error("[HttpManager] Error initializing session:", error);
+            throw new Error("Failed to initialize experiment session: " + (error instanceof Error ? error.message : String(error)));
+        }
+
+        this.trackSessionStart(this.sessionId);
+        this.startWriteQueue();
+    }
+
+    /**
+     * POSTs a new trial to the session URL
+     * @param trialData The trial data to add
+     * @throws {Error} If storing the trial fails
+     */
+    public async addTrialData(trialData: TrialData): Promise<void> {
+        if (!this.sessionId) {
+            throw new Error("Failed to store trial data: experiment has not been initialized");
+        }
+
+        const encodedTrial = this.encodeTrial(trialData);
+        const payload = this.options.buildTrialPayload
+            ? this.options.buildTrialPayload(encodedTrial, this.sessionId)
+            : encodedTrial;
+
+        try {
+            await this.post(this.getSessionUrl(this.sessionId), payload);
+            console.log("[HttpManager] Added trial data:", trialData);
+        } catch (error) {
+            console.error("[HttpManager] Error storing trial data:", error);
+            throw new Error("Failed to store trial data: " + (error instanceof Error ? error.message : String(error)));
+        }
+    }
+
+    /**
+     * Gets the total number of requests sent to the server
+     * @returns The number of requests performed
+     */
+    public getNumberOfOperations(): number {
+        return this.numberOfRequests;
+    }
+
+    /**
+     * Creates a callback function for jsPsych's on_finish event
+     * @returns A function that handles experiment completion
+     */
+    public createFinishCallback(): () => Promise<void> {
+        return async () => {
+            this.flushWithBeacon();
+            await this.completeSession();
+            console.log("[HttpManager] Total requests sent:", this.getNumberOfOperations());
+        };
+    }
+
+    /**
+     * Gets the ID of the current session
+     * @returns The session ID, or undefined before initialization
+     */
+    public getSessionId(): string | undefined {
+        return this.sessionId;
+    }
+
+    /**
+     * PATCHes lifecycle fields to the session update URL
+     * @param fields The fields to set
+     * @throws {Error} If the request fails
+     */
+    protected async updateSession(fields: Partial<ExperimentData>): Promise<void> {
+        if (!this.sessionId) {
+            return;
+        }
+
+        const url = this.options.updateUrl
+            ? this.options.updateUrl(this.sessionId, this.config.endpoint)
+            : `${this.config.endpoint.replace(/\/+$/, '')}/${encodeURIComponent(this.sessionId)}`;
+        await this.post(url, fields, 'PATCH');
+    }
+
+    /**
+     * Points the manager at an existing server-side session
+     * @param sessionId The session ID
+     */
+    protected async restoreSession(sessionId: string): Promise<void> {
+        this.sessionId = sessionId;
+        console.log(`[HttpManager] Resuming session ${sessionId}`);
+    }
+
+    /**
+     * Sends all trials still waiting in the write queue with navigator.sendBeacon
+     *
+     * The beacon survives page unloads. The trial the queue is writing at that
+     * moment is not included; its keepalive request survives the unload as
+     * well. Trials are only removed from the queue if the browser accepted
+     * the beacon.
+     */
+    private flushWithBeacon(): void {
+        if (!this.sessionId || typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+            return;
+        }
+
+        const entries = this.writeQueue.getPendingEntries();
+        if (entries.length === 0) {
+            return;
+        }
+
+        const trials = entries.map(entry => this.encodeTrial(entry.trial));
+        const payload = this.options.buildBeaconPayload
+            ? this.options.buildBeaconPayload(trials, this.sessionId)
+            : { trials };
+        const blob = new Blob([JSON.stringify(payload)], { type: 'application/json' });
+
+        if (navigator.sendBeacon(this.getSessionUrl(this.sessionId), blob)) {
+            this.numberOfRequests++;
+            this.writeQueue.remove(entries.map(entry => entry.id));
+            console.log(`[HttpManager] Flushed ${entries.length} pending trials via sendBeacon`);
+        } else {
+            console.warn(`[HttpManager] Browser rejected the final beacon, ${entries.length} trials remain queued`);
+        }
+    }
+
+    /**
+     * Builds the URL that trials for a session are sent to
+     * @param sessionId The session ID
+     * @returns The session URL
+     */
+    private getSessionUrl(sessionId: string): string {
+        return this.options.sessionUrl
+            ? this.options.sessionUrl(sessionId, this.config.endpoint)
+            : `${this.config.endpoint.replace(/\/+$/, '')}/${encodeURIComponent(sessionId)}/trials`;
+    }
+
+    /**
+     * POSTs a JSON payload and checks the response status
+     *
+     * Payloads within the keepalive limit are sent with `keepalive`, so the
+     * request completes even if the page unloads meanwhile.
+     * @param url The URL to POST to
+     * @param payload The request body
+     * @param method The HTTP method to use (default: "POST")
+     * @returns The response
+     * @throws {Error} If the request fails or the status is not a success status
+     */
+    private async post(url: string, payload: any, method: string = 'POST'): Promise<Response> {
+        const headers = typeof this.config.headers === 'function'
+            ? await this.config.headers()
+            : this.config.headers;
+
+        const body = JSON.stringify(payload);
+
+        const response = await fetch(url, {
+            method,
+            keepalive: new TextEncoder().encode(body).length <= KEEPALIVE_BODY_LIMIT,
+            headers: {
+                'Content-Type': 'application/json',
+                ...headers
+            },
+            body
+        });
+        this.numberOfRequests++;
+
+        const isSuccess = this.options.successStatuses
+            ? this.options.successStatuses.includes(response.status)
+            : response.ok;
+
+        if (!isSuccess) {
+            throw new Error(`Request to ${url} failed with status ${response.status}`);
+        }
+
+        return response;
+    }
+}
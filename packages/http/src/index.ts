@@ -0,0 +1,2 @@
+// Export all interfaces and classes from http.ts
+export * from './http';
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getConformanceTests, TrialData } from '@jspsych-datamanager/core';
+import { HttpManager } from '../src';
+import { SessionServer, startSessionServer } from './server';
+
+let server: SessionServer;
+
+beforeAll(async () => {
+    server = await startSessionServer();
+});
+
+afterAll(async () => {
+    await server.close();
+});
+
+describe('HttpManager conformance on a stand-in server', () => {
+    for (const test of getConformanceTests(() => new HttpManager({ endpoint: server.endpoint }), {
+        readSession: async manager => server.sessions.get((manager as HttpManager).getSessionId()!) as any
+    })) {
+        it(test.name, test.run);
+    }
+});
+
+describe('HttpManager when the page is hidden', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('sends the trial being written with keepalive and the rest with a beacon', async () => {
+        // A browser-like page with a beacon that POSTs like the browser would
+        const page = new EventTarget();
+        const beacons: { url: string; trials: TrialData[] }[] = [];
+        vi.stubGlobal('window', page);
+        vi.stubGlobal('document', Object.assign(new EventTarget(), { visibilityState: 'visible' }));
+        vi.stubGlobal('navigator', {
+            sendBeacon: (url: string, blob: Blob) => {
+                blob.text().then(text => {
+                    beacons.push({ url, trials: JSON.parse(text).trials });
+                    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: text });
+                });
+                return true;
+            }
+        });
+        const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+        const manager = new HttpManager({ endpoint: server.endpoint });
+        await manager.initializeExperiment({});
+        const sessionId = manager.getSessionId()!;
+        const trialsUrl = `${server.endpoint}/${sessionId}/trials`;
+
+        const release = server.holdTrials();
+        const update = manager.createDataUpdateCallback();
+        for (let i = 0; i < 3; i++) {
+            update({ trial_type: 'keepalive', trial_index: i, time_elapsed: i * 1000 });
+        }
+        await vi.waitFor(() => expect(server.requests.filter(request => request.path === `/sessions/${sessionId}/trials`)).toHaveLength(1));
+
+        page.dispatchEvent(new Event('pagehide'));
+        release();
+
+        await vi.waitFor(() => expect(server.sessions.get(sessionId)!.trials).toHaveLength(3));
+        const [, trialRequest] = fetchSpy.mock.calls.find(([url]) => url === trialsUrl)!;
+        expect(trialRequest?.keepalive).toBe(true);
+        expect(beacons).toHaveLength(1);
+        expect(beacons[0].url).toBe(trialsUrl);
+        expect(beacons[0].trials.map(trial => trial.trial_index)).toEqual([1, 2]);
+        expect(server.sessions.get(sessionId)!.trials.map((trial: TrialData) => trial.trial_index)).toEqual([0, 1, 2]);
+        expect(manager.getQueueStatus()).toEqual({ pending: 0, failed: 0 });
+    });
+});
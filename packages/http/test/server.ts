@@ -0,0 +1,87 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * Interface for a running stand-in session server
+ */
+export interface SessionServer {
+    /** Endpoint to pass to HttpManager */
+    endpoint: string;
+    /** Stored sessions by ID: the initial payload, lifecycle updates and trials */
+    sessions: Map<string, Record<string, any>>;
+    /** Method, path and body of every request, in order */
+    requests: { method: string; path: string; body: any }[];
+    /** Holds trial responses until the returned function is called */
+    holdTrials: () => () => void;
+    /** Stops the server */
+    close: () => Promise<void>;
+}
+
+/**
+ * Starts a stand-in for a self-hosted session server
+ *
+ * POST `/sessions` creates a session and responds with its ID, POST
+ * `/sessions/<id>/trials` appends a trial (or the `trials` of a beacon
+ * payload) and PATCH `/sessions/<id>` merges fields into the session.
+ * @returns The running server
+ */
+export async function startSessionServer(): Promise<SessionServer> {
+    const sessions = new Map<string, Record<string, any>>();
+    const requests: { method: string; path: string; body: any }[] = [];
+    let held: Promise<void> | undefined;
+    let counter = 0;
+
+    const server = createServer(async (request, response) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of request) {
+            chunks.push(chunk as Buffer);
+        }
+        const text = Buffer.concat(chunks).toString('utf8');
+        const body = text ? JSON.parse(text) : undefined;
+        const path = request.url ?? '/';
+        requests.push({ method: request.method ?? 'GET', path, body });
+
+        const [, collection, id, trials] = path.split('/');
+        const session = id ? sessions.get(decodeURIComponent(id)) : undefined;
+
+        if (collection !== 'sessions') {
+            response.writeHead(404).end();
+        } else if (request.method === 'POST' && !id) {
+            const sessionId = `session-${++counter}`;
+            sessions.set(sessionId, { ...body, trials: [] });
+            response.writeHead(201, { 'Content-Type': 'application/json' }).end(JSON.stringify({ id: sessionId }));
+        } else if (!session) {
+            response.writeHead(404).end();
+        } else if (request.method === 'POST' && trials === 'trials') {
+            await held;
+            session.trials.push(...(Array.isArray(body.trials) ? body.trials : [body]));
+            response.writeHead(204).end();
+        } else if (request.method === 'PATCH' && !trials) {
+            Object.assign(session, body);
+            response.writeHead(204).end();
+        } else {
+            response.writeHead(405).end();
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        endpoint: `http://127.0.0.1:${port}/sessions`,
+        sessions,
+        requests,
+        holdTrials: () => {
+            let release!: () => void;
+            held = new Promise(resolve => release = resolve);
+            return () => {
+                held = undefined;
+                release();
+            };
+        },
+        close: () => new Promise(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        })
+    };
+}
@@ -0,0 +1,189 @@
+import { JsPsych, JsPsychExtension, JsPsychExtensionInfo } from "jspsych";
+import { DataManager, ExperimentData, TrialData } from "@jspsych-datamanager/core";
+import { version } from "../package.json";
+
+/**
+ * Parameters of the datamanager extension, passed in `initJsPsych`
+ */
+export interface DataManagerExtensionParams {
+    /** The manager trials are saved with */
+    manager: DataManager;
+    /** Additional data to include in the session on initialization (optional) */
+    data?: Partial<ExperimentData>;
+    /** Initialize the session when the experiment starts (default: true); disable if you call initializeExperiment yourself */
+    initialize?: boolean;
+    /** Save every trial through the manager (default: true); disable if `on_data_update` already uses createDataUpdateCallback */
+    save_trials?: boolean;
+}
+
+/**
+ * Interface for the jsPsych options the extension wraps `on_data_update` in
+ */
+interface DataUpdateOptions {
+    /** Called by jsPsych with the data of every finished trial */
+    on_data_update?: (data: TrialData) => void;
+}
+
+/** The extension of each jsPsych instance, for the save-data plugin */
+const extensions: WeakMap<JsPsych, DataManagerExtension> = new WeakMap();
+
+/**
+ * Gets the datamanager extension of a jsPsych instance
+ * @param jsPsych The jsPsych instance
+ * @returns The extension, or undefined if it is not loaded
+ */
+export function getDataManagerExtension(jsPsych: JsPsych): DataManagerExtension | undefined {
+    return extensions.get(jsPsych);
+}
+
+/**
+ * A jsPsych extension that connects a DataManager to the experiment
+ *
+ * When the experiment starts, it initializes the session and saves every
+ * trial through the manager, replacing the manual `initializeExperiment`
+ * and `on_data_update` wiring. Trials finished before initialization
+ * completes wait in the write queue. Use the save-data plugin to wait for
+ * the data before the debrief screen.
+ *
+ * @example
+ * ```typescript
+ * const jsPsych = initJsPsych({
+ *     extensions: [{ type: DataManagerExtension, params: { manager: dataManager } }]
+ * });
+ * ```
+ */
+export class DataManagerExtension implements JsPsychExtension {
+    static info: JsPsychExtensionInfo = {
+        name: "datamanager",
+        version,
+        data: {}
+    };
+
+    private manager?: DataManager;
+    private data: Partial<ExperimentData> = {};
+    private initialization?: Promise<void>;
+
+    /**
+     * Creates a new DataManagerExtension instance (called by jsPsych)
+     * @param jsPsych The jsPsych instance
+     */
+    constructor(private readonly jsPsych: JsPsych) {
+        extensions.set(jsPsych, this);
+    }
+
+    /**
+     * Starts initializing the session and saving trials
+     *
+     * jsPsych 8 does not wait for extensions to initialize, so this does not
+     * wait for the backend either; the save-data plugin does.
+     * @param params The extension parameters
+     * @throws {Error} If no manager is given
+     */
+    public async initialize(params?: DataManagerExtensionParams): Promise<void> {
+        if (!params?.manager) {
+            throw new Error("The datamanager extension needs a manager parameter");
+        }
+
+        this.manager = params.manager;
+        this.data = params.data ?? {};
+
+        if (params.save_trials !== false) {
+            this.saveTrials(params.manager);
+        }
+
+        if (params.initialize === false) {
+            this.initialization = Promise.resolve();
+        } else {
+            this.ensureInitialized().catch(error => {
+                console.error("[DataManagerExtension] Error initializing the experiment:", error);
+            });
+        }
+    }
+
+    /**
+     * Gets the manager the extension was initialized with
+     * @returns The manager, or undefined before the experiment started
+     */
+    public getManager(): DataManager | undefined {
+        return this.manager;
+    }
+
+    /**
+     * Waits until the session is initialized, starting a new attempt if the last one failed
+     * @returns A promise that resolves once the session exists
+     * @throws {Error} If initialization fails
+     */
+    public ensureInitialized(): Promise<void> {
+        if (!this.manager) {
+            return Promise.reject(new Error("Failed to initialize experiment: the datamanager extension has not started"));
+        }
+
+        if (!this.initialization) {
+            this.initialization = this.manager.initializeExperiment(this.data).catch(error => {
+                this.initialization = undefined;
+                throw error;
+            });
+        }
+        return this.initialization;
+    }
+
+    /**
+     * Called by jsPsych at the start of trials that list the extension; nothing to do
+     */
+    public on_start(): void {}
+
+    /**
+     * Called by jsPsych once trials that list the extension are loaded; nothing to do
+     */
+    public on_load(): void {}
+
+    /**
+     * Called by jsPsych at the end of trials that list the extension
+     * @returns No additional trial data
+     */
+    public on_finish(): Record<string, any> {
+        return {};
+    }
+
+    /**
+     * Passes every finished trial to the manager
+     *
+     * The extension `on_finish` hook only runs for trials that list the
+     * extension, and before their own `on_finish` has changed the data, so
+     * the `on_data_update` callback of the jsPsych instance is wrapped.
+     * @param manager The manager to save trials with
+     */
+    private saveTrials(manager: DataManager): void {
+        const options = getDataUpdateOptions(this.jsPsych);
+        if (!options) {
+            console.warn("[DataManagerExtension] Cannot save trials automatically; use createDataUpdateCallback in on_data_update");
+            return;
+        }
+
+        const saveTrial = manager.createDataUpdateCallback();
+        const onDataUpdate = options.on_data_update;
+        options.on_data_update = (data: TrialData) => {
+            saveTrial(data);
+            onDataUpdate?.(data);
+        };
+    }
+}
+
+/**
+ * Gets the options of a jsPsych instance that hold `on_data_update`
+ *
+ * They are internal: jsPsych 8 keeps them in `options`, jsPsych 7 in
+ * `opts`. Anything else is not recognized, so the caller can fall back.
+ * @param jsPsych The jsPsych instance
+ * @returns The options, or undefined if the instance has neither shape
+ */
+function getDataUpdateOptions(jsPsych: object): DataUpdateOptions | undefined {
+    const options: unknown = 'options' in jsPsych ? jsPsych.options : 'opts' in jsPsych ? jsPsych.opts : undefined;
+    if (typeof options !== 'object' || options === null) {
+        return undefined;
+    }
+    if ('on_data_update' in options && options.on_data_update !== undefined && typeof options.on_data_update !== 'function') {
+        return undefined;
+    }
+    return options;
+}
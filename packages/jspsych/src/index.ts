@@ -0,0 +1,4 @@
+// Export the jsPsych extension from extension.ts
+export * from './extension';
+// Export the save-data plugin from plugin.ts
+export * from './plugin';
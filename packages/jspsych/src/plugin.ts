@@ -0,0 +1,233 @@
+import { JsPsych, JsPsychPlugin, ParameterType, TrialType } from "jspsych";
+import { DataManager } from "@jspsych-datamanager/core";
+import { version } from "../package.json";
+import { getDataManagerExtension } from "./extension";
+
+const info = <const>{
+    name: "save-data",
+    version,
+    parameters: {
+        /** The manager to save with (default: the manager of the datamanager extension) */
+        manager: {
+            type: ParameterType.OBJECT,
+            default: null
+        },
+        /** Finish the session after saving: status, condition counters and completion redirect */
+        finish_session: {
+            type: ParameterType.BOOL,
+            default: true
+        },
+        /** Milliseconds to wait for the data before offering a retry */
+        timeout: {
+            type: ParameterType.INT,
+            default: 30000
+        },
+        /** Shown while saving */
+        message: {
+            type: ParameterType.HTML_STRING,
+            default: "<p>Saving your data. Please do not close this page.</p>"
+        },
+        /** Shown when saving failed or timed out */
+        failure_message: {
+            type: ParameterType.HTML_STRING,
+            default: "<p>Your data could not be saved yet. Please check your internet connection and try again.</p>"
+        },
+        /** Label of the button that retries saving */
+        retry_button_label: {
+            type: ParameterType.STRING,
+            default: "Try again"
+        },
+        /** Label of a button that continues without the data being saved (default: no such button) */
+        continue_button_label: {
+            type: ParameterType.STRING,
+            default: null
+        }
+    },
+    data: {
+        /** "saved", or "unsaved" if the participant continued without the data being saved */
+        save_status: {
+            type: ParameterType.STRING
+        },
+        /** Number of save attempts */
+        save_attempts: {
+            type: ParameterType.INT
+        },
+        /** Trials still waiting to be written when the trial ended */
+        pending_trials: {
+            type: ParameterType.INT
+        },
+        /** Trials that ran out of write attempts when the trial ended */
+        failed_trials: {
+            type: ParameterType.INT
+        }
+    }
+};
+
+type Info = typeof info;
+
+/**
+ * A jsPsych plugin that waits until all data is saved before continuing
+ *
+ * Place it before the debrief screen. It waits for the session to be
+ * initialized, flushes the write queue and media uploads and, with
+ * `finish_session`, finishes the session like the finish callback. If that
+ * takes longer than `timeout` or trials run out of write attempts, it shows a
+ * retry button. With `finish_session`, the plugin's own data is not uploaded,
+ * as the session is already complete.
+ *
+ * @example
+ * ```typescript
+ * const save = {
+ *     type: SaveDataPlugin,
+ *     timeout: 20000,
+ *     continue_button_label: "Continue without saving"
+ * };
+ * ```
+ */
+export class SaveDataPlugin implements JsPsychPlugin<Info> {
+    static info = info;
+
+    /** Finishing the session, started once and shared by all attempts */
+    private finishing?: Promise<void>;
+
+    /**
+     * Creates a new SaveDataPlugin instance (called by jsPsych)
+     * @param jsPsych The jsPsych instance
+     */
+    constructor(private readonly jsPsych: JsPsych) {}
+
+    /**
+     * Runs the trial
+     * @param display_element The element the trial is shown in
+     * @param trial The trial parameters
+     * @throws {Error} If there is no manager to save with
+     */
+    public async trial(display_element: HTMLElement, trial: TrialType<Info>): Promise<void> {
+        const extension = getDataManagerExtension(this.jsPsych);
+        const manager = (trial.manager as DataManager | null) ?? extension?.getManager();
+        if (!manager) {
+            throw new Error("The save-data plugin needs a manager parameter or the datamanager extension");
+        }
+
+        this.finishing = undefined;
+        let attempts = 0;
+
+        for (;;) {
+            attempts++;
+            display_element.innerHTML = trial.message ?? '';
+
+            if (attempts > 1) {
+                manager.retryFailedTrials();
+                manager.retryFailedUploads();
+            }
+
+            const saved = await this.save(manager, trial, manager === extension?.getManager()
+                ? () => extension.ensureInitialized()
+                : undefined);
+
+            if (saved) {
+                this.finish(display_element, manager, trial, 'saved', attempts);
+                return;
+            }
+
+            const choice = await this.showFailure(display_element, trial);
+            if (choice === 'continue') {
+                this.finish(display_element, manager, trial, 'unsaved', attempts);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Makes one attempt to save all data
+     * @param manager The manager to save with
+     * @param trial The trial parameters
+     * @param initialize Waits for the session to be initialized, if the extension manages it
+     * @returns True if everything was saved within the timeout
+     */
+    private async save(manager: DataManager, trial: TrialType<Info>, initialize?: () => Promise<void>): Promise<boolean> {
+        const work = (async () => {
+            await initialize?.();
+
+            if (trial.finish_session && !this.finishing) {
+                this.finishing = Promise.resolve(manager.createFinishCallback()()).catch(error => {
+                    this.finishing = undefined;
+                    throw error;
+                });
+            }
+            await Promise.all([this.finishing, manager.flush()]);
+        })();
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<'timeout'>(resolve => {
+            timer = setTimeout(() => resolve('timeout'), trial.timeout);
+        });
+
+        const result = await Promise.race([
+            work.then(() => 'done' as const, error => {
+                console.error("[SaveDataPlugin] Error saving data:", error);
+                return 'error' as const;
+            }),
+            timeout
+        ]);
+        clearTimeout(timer);
+
+        const status = manager.getQueueStatus();
+        return result === 'done'
+            && status.pending === 0
+            && status.failed === 0
+            && manager.getMediaStatus().failed === 0;
+    }
+
+    /**
+     * Shows the failure message and waits for the participant's choice
+     * @param display_element The element the trial is shown in
+     * @param trial The trial parameters
+     * @returns "retry" or "continue"
+     */
+    private showFailure(display_element: HTMLElement, trial: TrialType<Info>): Promise<'retry' | 'continue'> {
+        display_element.innerHTML = trial.failure_message ?? '';
+
+        return new Promise(resolve => {
+            const addButton = (label: string, choice: 'retry' | 'continue') => {
+                const button = document.createElement('button');
+                button.className = 'jspsych-btn';
+                button.textContent = label;
+                button.addEventListener('click', () => resolve(choice));
+                display_element.appendChild(button);
+            };
+
+            addButton(trial.retry_button_label ?? '', 'retry');
+            if (trial.continue_button_label) {
+                addButton(trial.continue_button_label, 'continue');
+            }
+        });
+    }
+
+    /**
+     * Ends the trial with the save status
+     * @param display_element The element the trial is shown in
+     * @param manager The manager that saved the data
+     * @param trial The trial parameters
+     * @param status "saved" or "unsaved"
+     * @param attempts Number of save attempts
+     */
+    private finish(
+        display_element: HTMLElement,
+        manager: DataManager,
+        trial: TrialType<Info>,
+        status: 'saved' | 'unsaved',
+        attempts: number
+    ): void {
+        const queue = manager.getQueueStatus();
+        display_element.innerHTML = '';
+
+        this.jsPsych.finishTrial({
+            save_status: status,
+            save_attempts: attempts,
+            pending_trials: queue.pending,
+            failed_trials: queue.failed,
+            ...(trial.finish_session ? { no_upload: true } : {})
+        });
+    }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { JsPsych } from 'jspsych';
+import { MockDataManager, TrialData } from '@jspsych-datamanager/core';
+import { DataManagerExtension, getDataManagerExtension } from '../src/extension';
+
+/**
+ * Creates a stand-in for a jsPsych instance, as jsPsych itself needs a browser
+ * @param instance The internal fields of the instance
+ * @returns The stand-in
+ */
+function createJsPsych(instance: object): JsPsych {
+    return instance as unknown as JsPsych;
+}
+
+/**
+ * Starts the extension with a new mock manager
+ * @param jsPsych The jsPsych instance
+ * @returns The manager
+ */
+async function startExtension(jsPsych: JsPsych): Promise<MockDataManager> {
+    const manager = new MockDataManager({ queue: { storage: 'memory' } });
+    const extension = new DataManagerExtension(jsPsych);
+    await extension.initialize({ manager, data: { condition: 'a' } });
+    await extension.ensureInitialized();
+    return manager;
+}
+
+describe('DataManagerExtension', () => {
+    it('saves every trial of jsPsych 8 and keeps the existing on_data_update callback', async () => {
+        const onDataUpdate = vi.fn();
+        const options = { on_data_update: onDataUpdate as (data: TrialData) => void };
+        const jsPsych = createJsPsych({ options });
+        const manager = await startExtension(jsPsych);
+
+        options.on_data_update({ trial_type: 'html', trial_index: 0 });
+        await manager.flush();
+
+        expect(manager.getStoredData()).toMatchObject({ condition: 'a', trials: [{ trial_type: 'html', trial_index: 0 }] });
+        expect(onDataUpdate).toHaveBeenCalledWith({ trial_type: 'html', trial_index: 0 });
+        expect(getDataManagerExtension(jsPsych)?.getManager()).toBe(manager);
+    });
+
+    it('saves every trial of jsPsych 7', async () => {
+        const opts: { on_data_update?: (data: TrialData) => void } = {};
+        const manager = await startExtension(createJsPsych({ opts }));
+
+        opts.on_data_update!({ trial_type: 'html', trial_index: 0 });
+        await manager.flush();
+
+        expect(manager.getStoredData()?.trials).toHaveLength(1);
+    });
+
+    it('does not wrap options of an unknown shape', async () => {
+        const options = { on_data_update: 'not a function' };
+        await startExtension(createJsPsych({ options }));
+
+        expect(options.on_data_update).toBe('not a function');
+    });
+
+    it('leaves on_data_update alone with save_trials: false', async () => {
+        const onDataUpdate = vi.fn();
+        const options = { on_data_update: onDataUpdate };
+        const extension = new DataManagerExtension(createJsPsych({ options }));
+
+        await extension.initialize({ manager: new MockDataManager({ queue: { storage: 'memory' } }), save_trials: false, initialize: false });
+
+        expect(options.on_data_update).toBe(onDataUpdate);
+    });
+
+    it('needs a manager', async () => {
+        const extension = new DataManagerExtension(createJsPsych({ options: {} }));
+
+        await expect(extension.initialize()).rejects.toThrow('needs a manager parameter');
+        await expect(extension.ensureInitialized()).rejects.toThrow('the datamanager extension has not started');
+    });
+});
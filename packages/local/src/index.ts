@@ -0,0 +1,2 @@
+// Export all interfaces and classes from local.ts
+export * from './local';
\ No newline at end of file
@@ -0,0 +1,446 @@
+import { DataManager, ExperimentData, TrialData, BaseManagerOptions, StoredSession, SessionQuery, toLongFormatRows, toCsv, decodeExperimentData, querySessions } from "@jspsych-datamanager/core";
+
+/**
+ * Interface for a browser store that holds experiment sessions
+ */
+export interface SessionStore {
+    /**
+     * Gets a stored session
+     * @param id The session ID
+     * @returns The session data, or undefined if it does not exist
+     */
+    get(id: string): Promise<ExperimentData | undefined>;
+
+    /**
+     * Stores a session, replacing any existing data
+     * @param id The session ID
+     * @param data The session data
+     */
+    put(id: string, data: ExperimentData): Promise<void>;
+
+    /**
+     * Lists all stored sessions
+     * @returns The stored sessions
+     */
+    list(): Promise<StoredSession[]>;
+
+    /**
+     * Removes stored sessions
+     * @param ids The session IDs to remove (default: all sessions)
+     */
+    clear(ids?: string[]): Promise<void>;
+}
+
+/**
+ * Options specific to LocalManager initialization
+ */
+export interface LocalManagerOptions extends BaseManagerOptions {
+    /** Browser storage to use (default: "localStorage") */
+    storage?: 'localStorage' | 'indexedDB';
+    /** Namespace used as key prefix or database name (default: "experiments") */
+    namespace?: string;
+    /** Specific session ID to use (optional) */
+    sessionId?: string;
+}
+
+/**
+ * Options for exporting stored sessions
+ */
+export interface LocalExportOptions {
+    /** Remove the exported sessions from storage afterwards, except this manager's session while it is running (default: false) */
+    clearAfterExport?: boolean;
+}
+
+/**
+ * Session store backed by window.localStorage, one key per session
+ */
+export class LocalStorageSessionStore implements SessionStore {
+    /**
+     * Creates a new LocalStorageSessionStore instance
+     * @param namespace Prefix for all keys written by this store
+     */
+    constructor(private readonly namespace: string) {}
+
+    public async get(id: string): Promise<ExperimentData | undefined> {
+        const raw = window.localStorage.getItem(this.key(id));
+        return raw ? JSON.parse(raw) : undefined;
+    }
+
+    public async put(id: string, data: ExperimentData): Promise<void> {
+        window.localStorage.setItem(this.key(id), JSON.stringify(data));
+    }
+
+    public async list(): Promise<StoredSession[]> {
+        const prefix = this.key('');
+        const sessions: StoredSession[] = [];
+
+        for (let i = 0; i < window.localStorage.length; i++) {
+            const key = window.localStorage.key(i);
+            if (key && key.startsWith(prefix)) {
+                sessions.push({
+                    id: key.slice(prefix.length),
+                    data: JSON.parse(window.localStorage.getItem(key) as string)
+                });
+            }
+        }
+
+        return sessions;
+    }
+
+    public async clear(ids?: string[]): Promise<void> {
+        const targets = ids ?? (await this.list()).map(session => session.id);
+        for (const id of targets) {
+            window.localStorage.removeItem(this.key(id));
+        }
+    }
+
+    private key(id: string): string {
+        return `jspsych-datamanager:${this.namespace}:${id}`;
+    }
+}
+
+/**
+ * Session store backed by IndexedDB, for sessions too large for localStorage
+ */
+export class IndexedDBSessionStore implements SessionStore {
+    private static readonly STORE_NAME = 'sessions';
+    private dbPromise?: Promise<IDBDatabase>;
+
+    /**
+     * Creates a new IndexedDBSessionStore instance
+     * @param databaseName Name of the IndexedDB database to use
+     */
+    constructor(private readonly databaseName: string) {}
+
+    public async get(id: string): Promise<ExperimentData | undefined> {
+        return this.request('readonly', store => store.get(id));
+    }
+
+    public async put(id: string, data: ExperimentData): Promise<void> {
+        await this.request('readwrite', store => store.put(data, id));
+    }
+
+    public async list(): Promise<StoredSession[]> {
+        const [ids, values] = await Promise.all([
+            this.request<IDBValidKey[]>('readonly', store => store.getAllKeys()),
+            this.request<ExperimentData[]>('readonly', store => store.getAll())
+        ]);
+        return ids.map((id, i) => ({ id: String(id), data: values[i] }));
+    }
+
+    public async clear(ids?: string[]): Promise<void> {
+        if (!ids) {
+            await this.request('readwrite', store => store.clear());
+            return;
+        }
+        for (const id of ids) {
+            await this.request('readwrite', store => store.delete(id));
+        }
+    }
+
+    /**
+     * Runs a single request against the sessions object store
+     * @param mode The transaction mode
+     * @param run Function that issues the request
+     * @returns The request result
+     */
+    private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const store = db.transaction(IndexedDBSessionStore.STORE_NAME, mode).objectStore(IndexedDBSessionStore.STORE_NAME);
+            const request = run(store);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /**
+     * Opens the database, creating the object store on first use
+     * @returns The opened database
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = window.indexedDB.open(`jspsych-datamanager:${this.databaseName}`, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(IndexedDBSessionStore.STORE_NAME);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+}
+
+/**
+ * A class to manage browser-local storage for jsPsych experiments
+ *
+ * This class extends DataManager to store experiment data in localStorage or
+ * IndexedDB, for pilots and lab machines without internet access. Stored
+ * sessions can be listed and exported as JSON or CSV.
+ *
+ * @example
+ * ```typescript
+ * const localManager = new LocalManager({
+ *     storage: "indexedDB",
+ *     namespace: "my-pilot",
+ *     metadata: { version: "1.0.0" }
+ * });
+ *
+ * // Later, e.g. at the end of a lab day
+ * await localManager.downloadSessions("csv", { clearAfterExport: true });
+ * ```
+ */
+export class LocalManager extends DataManager {
+    private readonly store: SessionStore;
+    private sessionId: string;
+    private numberOfWrites: number = 0;
+    private initialized: boolean = false;
+    private completed: boolean = false;
+
+    /**
+     * Creates a new LocalManager instance
+     * @param options Additional options for initialization
+     */
+    constructor(options: LocalManagerOptions = {}) {
+        super(options.metadata, options, `${options.storage || 'localStorage'}/${options.namespace || "experiments"}`);
+
+        const namespace = options.namespace || "experiments";
+        this.store = options.storage === 'indexedDB'
+            ? new IndexedDBSessionStore(namespace)
+            : new LocalStorageSessionStore(namespace);
+        this.sessionId = options.sessionId || this.getParticipantSessionId() || LocalManager.generateSessionId();
+    }
+
+    /**
+     * Initializes the experiment session in browser storage
+     * @param additionalData Additional data to include in the session
+     * @throws {Error} If initialization fails
+     */
+    public async initializeExperiment(additionalData: Partial<ExperimentData> = {}): Promise<void> {
+        await this.checkDuplicateSession();
+
+        const initialData: ExperimentData = await this.encryptMetadata({
+            ...this.metadata,
+            trials: [],
+            ...additionalData
+        });
+
+        try {
+            await this.store.put(this.sessionId, initialData);
+            this.numberOfWrites++;
+            this.initialized = true;
+            console.log(`[LocalManager] Session ${this.sessionId} successfully created!`);
+        } catch (error) {
+            console.error("[LocalManager] Error creating session:", error);
+            throw new Error("Failed to initialize experiment session");
+        }
+
+        this.trackSessionStart(this.sessionId);
+        this.startWriteQueue();
+    }
+
+    /**
+     * Adds a new trial to the stored session
+     * @param trialData The trial data to add
+     * @throws {Error} If storing the trial fails
+     */
+    public async addTrialData(trialData: TrialData): Promise<void> {
+        await this.addTrialBatch([trialData]);
+    }
+
+    /**
+     * Adds several trials to the stored session in a single write
+     * @param trials The trials to add, in order
+     * @throws {Error} If storing the trials fails
+     */
+    public async addTrialBatch(trials: TrialData[]): Promise<void> {
+        if (!this.initialized) {
+            throw new Error("Failed to store trial data: experiment has not been initialized");
+        }
+
+        try {
+            const session = await this.store.get(this.sessionId);
+            if (!session) {
+                throw new Error(`session ${this.sessionId} not found`);
+            }
+
+            session.trials.push(...trials.map(trial => this.encodeTrial(trial)));
+            await this.store.put(this.sessionId, session);
+            this.numberOfWrites++;
+            console.log("[LocalManager] Added trial data:", trials);
+        } catch (error) {
+            console.error("[LocalManager] Error storing trial data:", error);
+            throw new Error("Failed to store trial data: " + (error instanceof Error ? error.message : String(error)));
+        }
+    }
+
+    /**
+     * Gets the total number of writes to browser storage
+     * @returns The number of write operations performed
+     */
+    public getNumberOfOperations(): number {
+        return this.numberOfWrites;
+    }
+
+    /**
+     * Creates a callback function for jsPsych's on_finish event
+     * @returns A function that handles experiment completion
+     */
+    public createFinishCallback(): () => Promise<void> {
+        return async () => {
+            await this.completeSession();
+            this.completed = true;
+            console.log("[LocalManager] Total writes to browser storage:", this.getNumberOfOperations());
+        };
+    }
+
+    /**
+     * Writes lifecycle fields to the stored session
+     * @param fields The fields to set
+     * @throws {Error} If the session does not exist
+     */
+    protected async updateSession(fields: Partial<ExperimentData>): Promise<void> {
+        const session = await this.store.get(this.sessionId);
+        if (!session) {
+            throw new Error(`session ${this.sessionId} not found`);
+        }
+
+        await this.store.put(this.sessionId, { ...session, ...fields });
+        this.numberOfWrites++;
+    }
+
+    /**
+     * Gets the ID of the current session
+     * @returns The session ID
+     */
+    public getSessionId(): string {
+        return this.sessionId;
+    }
+
+    /**
+     * Points the manager at an existing stored session
+     * @param sessionId The session ID
+     * @throws {Error} If the session does not exist
+     */
+    protected async restoreSession(sessionId: string): Promise<void> {
+        if (!(await this.store.get(sessionId))) {
+            throw new Error(`Failed to resume session: session ${sessionId} not found`);
+        }
+
+        this.sessionId = sessionId;
+        this.initialized = true;
+        console.log(`[LocalManager] Resuming session ${sessionId}`);
+    }
+
+    /**
+     * Reads a session stored under this manager's namespace, with decoded trials
+     * @param sessionId The session ID
+     * @returns The session, or undefined if it does not exist
+     */
+    public async getSession(sessionId: string): Promise<ExperimentData | undefined> {
+        const session = await this.store.get(sessionId);
+        return session ? this.decodeSession(session) : undefined;
+    }
+
+    /**
+     * Lists the sessions stored under this manager's namespace that match a query, with decoded trials
+     * @param sessionQuery Metadata fields, date range, status and page to select (default: all sessions)
+     * @returns The matching sessions of the page
+     */
+    public async listSessions(sessionQuery: SessionQuery = {}): Promise<StoredSession[]> {
+        const sessions = await this.store.list();
+        return querySessions(sessions, sessionQuery).map(session => ({ id: session.id, data: this.decodeSession(session.data) }));
+    }
+
+    /**
+     * Counts the sessions stored under this manager's namespace that match a query
+     * @param sessionQuery Metadata fields, date range and status to select
+     * @returns The number of matching sessions
+     */
+    public async countSessions(sessionQuery: SessionQuery = {}): Promise<number> {
+        const sessions = await this.store.list();
+        return querySessions(sessions, { ...sessionQuery, limit: undefined, offset: undefined }).length;
+    }
+
+    /**
+     * Exports all stored sessions
+     *
+     * JSON exports an array of `{ id, data }` objects. CSV exports one row per
+     * trial with the session ID and metadata as additional columns. Trials are
+     * decoded with the configured codec first. With `clearAfterExport`, this
+     * manager's own session is only removed once it is completed, so a running
+     * experiment keeps writing to it.
+     * @param format The export format
+     * @param options Additional export options
+     * @returns The exported text
+     */
+    public async exportSessions(format: 'json' | 'csv', options: LocalExportOptions = {}): Promise<string> {
+        const sessions = await this.store.list();
+        const decoded = sessions.map(session => ({ id: session.id, data: this.decodeSession(session.data) }));
+        const output = format === 'csv'
+            ? toCsv(toLongFormatRows(decoded))
+            : JSON.stringify(decoded, null, 2);
+
+        if (options.clearAfterExport) {
+            const running = this.initialized && !this.completed;
+            const cleared = sessions.filter(session => !running || session.id !== this.sessionId);
+            await this.store.clear(cleared.map(session => session.id));
+            console.log(`[LocalManager] Cleared ${cleared.length} exported sessions${cleared.length < sessions.length ? `, kept the running session ${this.sessionId}` : ''}`);
+        }
+
+        return output;
+    }
+
+    /**
+     * Exports all stored sessions and offers them as a file download
+     * @param format The export format
+     * @param options Additional export options
+     * @param filename Name of the downloaded file (default: "sessions-<date>.<format>")
+     */
+    public async downloadSessions(
+        format: 'json' | 'csv',
+        options: LocalExportOptions = {},
+        filename: string = `sessions-${new Date().toISOString().split('T')[0]}.${format}`
+    ): Promise<void> {
+        const output = await this.exportSessions(format, options);
+        const blob = new Blob([output], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Removes all sessions stored under this manager's namespace
+     */
+    public clearSessions(): Promise<void> {
+        return this.store.clear();
+    }
+
+    /**
+     * Decodes the trials of a stored session with the configured codec
+     * @param session The stored session
+     * @returns The session with decoded trials
+     */
+    private decodeSession(session: ExperimentData): ExperimentData {
+        return this.codec ? decodeExperimentData(session, this.codec) : session;
+    }
+
+    /**
+     * Generates a random session ID
+     * @returns The new session ID
+     */
+    private static generateSessionId(): string {
+        if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+            return crypto.randomUUID();
+        }
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    }
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { losslessCodec, QueueEntry } from '@jspsych-datamanager/core';
+import { LocalManager } from '../src';
+
+/**
+ * Creates an in-memory stand-in for window.localStorage
+ * @returns The storage
+ */
+function createStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        get length() {
+            return items.size;
+        },
+        key: (index: number) => [...items.keys()][index] ?? null,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, String(value));
+        },
+        removeItem: (key: string) => {
+            items.delete(key);
+        },
+        clear: () => items.clear()
+    };
+}
+
+describe('LocalManager with a codec', () => {
+    beforeEach(() => {
+        vi.stubGlobal('window', Object.assign(new EventTarget(), { localStorage: createStorage() }));
+        vi.stubGlobal('document', Object.assign(new EventTarget(), { visibilityState: 'visible' }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('exports decoded trials', async () => {
+        const manager = new LocalManager({ codec: losslessCodec, sessionId: 'session-1' });
+        await manager.initializeExperiment({});
+        await manager.addTrialData({ trial_index: 0, grid: [[1, 2], [3]], rt: NaN });
+
+        const json = JSON.parse(await manager.exportSessions('json'));
+        expect(json).toEqual([{ id: 'session-1', data: expect.objectContaining({ trials: [{ trial_index: 0, grid: [[1, 2], [3]], rt: null }] }) }]);
+
+        const csv = await manager.exportSessions('csv');
+        expect(csv).not.toContain('$type');
+        expect(csv).toContain('NaN');
+    });
+});
+
+describe('LocalManager in several namespaces', () => {
+    let storage: Storage;
+
+    beforeEach(() => {
+        storage = createStorage();
+        vi.stubGlobal('window', Object.assign(new EventTarget(), { localStorage: storage }));
+        vi.stubGlobal('document', Object.assign(new EventTarget(), { visibilityState: 'visible' }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('keeps the write queue and resumable session of each manager apart', async () => {
+        const managers = ['pilot-a', 'pilot-b'].map(namespace => new LocalManager({ namespace, sessionId: namespace, resume: true }));
+        for (const manager of managers) {
+            await manager.initializeExperiment({});
+        }
+
+        managers.forEach((manager, index) => manager.enqueueTrialData({ trial_type: 'html', trial_index: index }));
+        const queues = ['pilot-a', 'pilot-b'].map(namespace => JSON.parse(storage.getItem(`jspsych-datamanager-queue:LocalManager:localStorage/${namespace}`)!));
+        expect(queues.map(entries => entries.map((entry: QueueEntry) => entry.trial.trial_index))).toEqual([[0], [1]]);
+
+        await Promise.all(managers.map(manager => manager.flush()));
+        for (const namespace of ['pilot-a', 'pilot-b']) {
+            expect(JSON.parse(storage.getItem(`jspsych-datamanager-session:LocalManager:localStorage/${namespace}`)!).sessionId).toBe(namespace);
+        }
+    });
+});
+
+describe('LocalManager exports with clearAfterExport', () => {
+    beforeEach(() => {
+        vi.stubGlobal('window', Object.assign(new EventTarget(), { localStorage: createStorage() }));
+        vi.stubGlobal('document', Object.assign(new EventTarget(), { visibilityState: 'visible' }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('keep the running session until it is completed', async () => {
+        const earlier = new LocalManager({ sessionId: 'earlier' });
+        await earlier.initializeExperiment({});
+        const manager = new LocalManager({ sessionId: 'running', queue: { storage: 'memory' } });
+        await manager.initializeExperiment({});
+        await manager.addTrialData({ trial_type: 'html', trial_index: 0 });
+
+        const exported = JSON.parse(await manager.exportSessions('json', { clearAfterExport: true }));
+        expect(exported.map((session: { id: string }) => session.id).sort()).toEqual(['earlier', 'running']);
+        expect((await manager.listSessions()).map(session => session.id)).toEqual(['running']);
+
+        manager.enqueueTrialData({ trial_type: 'html', trial_index: 1 });
+        await manager.createFinishCallback()();
+        expect((await manager.getSession('running'))?.trials).toHaveLength(2);
+
+        await manager.exportSessions('json', { clearAfterExport: true });
+        expect(await manager.listSessions()).toEqual([]);
+    });
+});
@@ -1,2 +1,4 @@
 // Export all interfaces and classes from supabase.ts
-export * from './supabase'; 
\ No newline at end of file
+export * from './supabase';
+// Export the schema and RLS policy helpers from schema.ts
+export * from './schema';
\ No newline at end of file
@@ -0,0 +1,220 @@
+/**
+ * How SupabaseManager stores trials
+ * - "column": all trials in a JSON `trials` column of the session row
+ * - "rows": one row per trial in a separate trials table
+ */
+export type SupabaseStorageMode = 'column' | 'rows';
+
+/**
+ * Options for generating the Supabase schema SQL
+ */
+export interface SupabaseSchemaOptions {
+    /** Name of the session table (default: "experiments") */
+    tableName?: string;
+    /** Name of the trials table in "rows" mode (default: "<tableName>_trials") */
+    trialsTableName?: string;
+    /** Storage mode the schema is generated for (default: "column") */
+    storageMode?: SupabaseStorageMode;
+    /** Name of the condition assignment counter table (default: "<tableName>_assignments") */
+    assignmentsTableName?: string;
+    /** Storage bucket for media uploads; the bucket and an upload policy are only generated if set */
+    mediaBucket?: string;
+    /** Generate policies that only let signed-in users access their own sessions, for the `auth` option (default: false) */
+    ownerOnly?: boolean;
+}
+
+/**
+ * Gets the default trials table name for a session table
+ * @param tableName The session table name
+ * @returns The trials table name
+ */
+export function getDefaultTrialsTableName(tableName: string): string {
+    return `${tableName}_trials`;
+}
+
+/**
+ * Gets the default condition assignment counter table name for a session table
+ * @param tableName The session table name
+ * @returns The assignments table name
+ */
+export function getDefaultAssignmentsTableName(tableName: string): string {
+    return `${tableName}_assignments`;
+}
+
+/**
+ * Gets the name of the function that appends trials to a session row in "column" mode
+ * @param tableName The session table name
+ * @returns The function name
+ */
+export function getAppendTrialsFunctionName(tableName: string): string {
+    return `${tableName}_append_trials`;
+}
+
+/**
+ * Generates the SQL migration that creates the tables used by SupabaseManager
+ *
+ * Run the result once in the Supabase SQL editor. Every metadata field passed
+ * to the manager (e.g., `participantId`) needs a matching column in the
+ * session table; add those columns to the generated statement.
+ * @param options Table names and storage mode
+ * @returns The SQL migration text
+ */
+export function getSupabaseMigrationSql(options: SupabaseSchemaOptions = {}): string {
+    const tableName = options.tableName || "experiments";
+    const trialsTableName = options.trialsTableName || getDefaultTrialsTableName(tableName);
+    const table = quoteIdentifier(tableName);
+
+    const sessionTable = `create table if not exists public.${table} (
+    id text primary key default gen_random_uuid()::text,
+    date text,
+    time text,
+    version text,
+    status text,
+    started_at timestamptz,
+    finished_at timestamptz,
+    duration_ms bigint,
+    trial_count integer,
+    transforms_applied jsonb,
+    condition jsonb,
+    condition_index integer,
+    participant_id text,
+    auth_uid text,
+    duplicate_session jsonb,${options.storageMode === 'rows' ? '' : `
+    trials jsonb not null default '[]'::jsonb,`}
+    created_at timestamptz not null default now(),
+    updated_at timestamptz
+    -- Add a column for every additional metadata field, e.g. "participantId" text
+);`;
+
+    const assignments = quoteIdentifier(options.assignmentsTableName || getDefaultAssignmentsTableName(tableName));
+    const assignmentsTable = `create table if not exists public.${assignments} (
+    name text primary key,
+    assigned jsonb not null default '[]'::jsonb,
+    completed jsonb not null default '[]'::jsonb,
+    version integer not null default 0
+);`;
+
+    if (options.storageMode !== 'rows') {
+        // Appends on the server, so a write does not send the whole trials array back and forth.
+        // Runs with the caller's rights, so the update policies still apply.
+        const appendFunction = `create or replace function public.${quoteIdentifier(getAppendTrialsFunctionName(tableName))}(session_id text, new_trials jsonb)
+returns integer
+language sql
+security invoker
+as $$
+    with updated as (
+        update public.${table}
+        set trials = trials || new_trials, updated_at = now()
+        where id = session_id
+        returning 1
+    )
+    select count(*)::integer from updated;
+$$;`;
+
+        return `${sessionTable}\n\n${appendFunction}\n\n${assignmentsTable}\n\n${getSupabasePolicySql(options)}`;
+    }
+
+    const trials = quoteIdentifier(trialsTableName);
+    const trialsTable = `create table if not exists public.${trials} (
+    id bigint generated always as identity primary key,
+    session_id text not null references public.${table} (id) on delete cascade,
+    trial_index integer not null,
+    data jsonb not null,
+    created_at timestamptz not null default now()
+);
+
+-- Unique, so that a retried insert whose response was lost does not store its trials twice
+create unique index if not exists ${quoteIdentifier(`${trialsTableName}_session_id_trial_index_key`)}
+    on public.${trials} (session_id, trial_index);`;
+
+    return `${sessionTable}\n\n${trialsTable}\n\n${assignmentsTable}\n\n${getSupabasePolicySql(options)}`;
+}
+
+/**
+ * Generates the Row Level Security policies SupabaseManager needs
+ *
+ * These are the same policies the manager asks for when it detects an RLS
+ * violation: anyone with the anon key can insert, select and update sessions
+ * and condition assignment counters and, in "rows" mode, insert trials.
+ * With `ownerOnly`, for managers with the `auth` option, only signed-in
+ * users can write, and they can only insert, read and update sessions (and
+ * trials) whose `auth_uid` matches the `sub` claim of their token.
+ * With `mediaBucket`, the bucket is created as a private bucket that anyone
+ * (or, with `ownerOnly`, any signed-in user) can upload new files to but
+ * nobody can list or read with the anon key.
+ * @param options Table names and storage mode
+ * @returns The SQL policy text
+ */
+export function getSupabasePolicySql(options: SupabaseSchemaOptions = {}): string {
+    const tableName = options.tableName || "experiments";
+    const table = quoteIdentifier(tableName);
+    // auth.jwt() also works for third-party tokens whose subject is not a UUID
+    const owner = "auth_uid = (auth.jwt() ->> 'sub')";
+    const role = options.ownerOnly ? ' to authenticated' : '';
+
+    const statements = [`alter table public.${table} enable row level security;`];
+    if (options.ownerOnly) {
+        statements.push(
+            `create policy "Participants insert their own sessions" on public.${table} for insert to authenticated with check (${owner});`,
+            `create policy "Participants select their own sessions" on public.${table} for select to authenticated using (${owner});`,
+            `create policy "Participants update their own sessions" on public.${table} for update to authenticated using (${owner}) with check (${owner});`
+        );
+    } else {
+        statements.push(
+            `create policy "Enable inserts for all users" on public.${table} for insert with check (true);`,
+            `create policy "Enable select for all users" on public.${table} for select using (true);`,
+            `create policy "Enable updates for all users" on public.${table} for update using (true) with check (true);`
+        );
+    }
+
+    // Condition assignment counters hold no personal data
+    const assignments = quoteIdentifier(options.assignmentsTableName || getDefaultAssignmentsTableName(tableName));
+    statements.push(
+        `alter table public.${assignments} enable row level security;`,
+        `create policy "Enable inserts for all users" on public.${assignments} for insert${role} with check (true);`,
+        `create policy "Enable select for all users" on public.${assignments} for select${role} using (true);`,
+        `create policy "Enable updates for all users" on public.${assignments} for update${role} using (true) with check (true);`
+    );
+
+    if (options.storageMode === 'rows') {
+        const trials = quoteIdentifier(options.trialsTableName || getDefaultTrialsTableName(tableName));
+        statements.push(`alter table public.${trials} enable row level security;`);
+        if (options.ownerOnly) {
+            const ownSession = `exists (select 1 from public.${table} s where s.id = session_id and s.${owner})`;
+            statements.push(
+                `create policy "Participants insert their own trials" on public.${trials} for insert to authenticated with check (${ownSession});`,
+                `create policy "Participants select their own trials" on public.${trials} for select to authenticated using (${ownSession});`
+            );
+        } else {
+            statements.push(`create policy "Enable inserts for all users" on public.${trials} for insert with check (true);`);
+        }
+    }
+
+    if (options.mediaBucket) {
+        const bucket = quoteLiteral(options.mediaBucket);
+        statements.push(
+            `insert into storage.buckets (id, name, public) values (${bucket}, ${bucket}, false) on conflict (id) do nothing;`,
+            `create policy ${quoteIdentifier(`Enable media uploads to ${options.mediaBucket}`)} on storage.objects for insert${role} with check (bucket_id = ${bucket});`
+        );
+    }
+
+    return statements.join('\n');
+}
+
+/**
+ * Quotes a Postgres identifier so names like "my-experiments" are valid
+ * @param name The identifier
+ * @returns The quoted identifier
+ */
+function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quotes a Postgres string literal
+ * @param value The string
+ * @returns The quoted literal
+ */
+function quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
@@ -1,5 +1,17 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { DataManager, ExperimentData, TrialData, BaseManagerOptions } from "@jspsych-datamanager/core";
+import { DataManager, ExperimentData, TrialData, BaseManagerOptions, AssignmentCounter, AssignmentSlotRequest, MediaUpload, SessionQuery, StoredSession, pickLeastFilledSlot, incrementSlot, decodeExperimentData } from "@jspsych-datamanager/core";
+import { SupabaseStorageMode, SupabaseSchemaOptions, getDefaultTrialsTableName, getDefaultAssignmentsTableName, getAppendTrialsFunctionName, getSupabaseMigrationSql, getSupabasePolicySql } from './schema';
+
+/** Number of rows requested at once, the default maximum of the Supabase API */
+const PAGE_SIZE = 1000;
+
+/**
+ * Whether a project has the append function, by project URL and function name
+ *
+ * Settled by the first append of any manager on the page, so later writes
+ * skip the call when the function is missing.
+ */
+const appendFunctionSupport = new Map<string, Promise<boolean>>();
 
 /**
  * Configuration interface for Supabase initialization
@@ -11,6 +23,15 @@ export interface SupabaseConfig {
     anonKey: string;
 }
 
+/**
+ * How SupabaseManager signs in
+ * - "anonymous": as an anonymous Supabase Auth user, reusing the session from an earlier page load
+ * - "jwt": with a JWT from your server or a third-party auth provider, or a function that fetches one
+ */
+export type SupabaseAuthOptions =
+    | { method: 'anonymous' }
+    | { method: 'jwt'; token: string | (() => string | Promise<string>) };
+
 /**
  * Options specific to SupabaseManager initialization
  */
@@ -19,6 +40,16 @@ export interface SupabaseManagerOptions extends BaseManagerOptions {
     tableName?: string;
     /** Specific row ID to use (optional) */
     rowId?: string;
+    /** How trials are stored (default: "column") */
+    storageMode?: SupabaseStorageMode;
+    /** Name of the trials table in "rows" mode (default: "<tableName>_trials") */
+    trialsTableName?: string;
+    /** Name of the condition assignment counter table (default: "<tableName>_assignments") */
+    assignmentsTableName?: string;
+    /** Storage bucket that media fields are uploaded to with the `media` option (default: "jspsych-media") */
+    mediaBucket?: string;
+    /** Sign in before writing and store the user ID as `auth_uid`, for use with owner-only policies (optional) */
+    auth?: SupabaseAuthOptions;
 }
 
 /**
@@ -35,20 +66,43 @@ export interface SupabaseManagerOptions extends BaseManagerOptions {
  * });
  * ```
  * 
+ * With `storageMode: "rows"`, each trial is inserted as its own row in a
+ * trials table that references the session row, instead of rewriting the
+ * session's `trials` column on every write.
+ * 
+ * With `useParticipantIdAsSessionId`, a participant's repeated attempts
+ * continue the same row: the session metadata is updated and the trials of
+ * earlier attempts are kept.
+ * 
  * IMPORTANT: Before using this manager, make sure to:
- * 1. Create the table in your Supabase dashboard
- * 2. Set up Row Level Security (RLS) policies to allow operations:
- *    - Go to Authentication > Policies
- *    - Add a policy for INSERT: "Enable inserts for authenticated users" with USING(true)
- *    - Add a policy for SELECT: "Enable select for authenticated users" with USING(true)
+ * 1. Create the table(s) in your Supabase dashboard
+ * 2. Set up Row Level Security (RLS) policies to allow operations
+ * 
+ * `SupabaseManager.getMigrationSql()` returns the SQL for both steps, and
+ * for the media storage bucket when the `media` option is set.
+ * 
+ * With the `auth` option, the manager signs in before its first request and
+ * stores the user ID in the session's `auth_uid` column, and the generated
+ * policies only let a participant write and read their own session instead
+ * of allowing every request with the anon key.
  */
 export class SupabaseManager extends DataManager {
     private readonly supabase: SupabaseClient;
     private readonly tableName: string;
+    private readonly trialsTableName: string;
+    private readonly assignmentsTableName: string;
+    private readonly storageMode: SupabaseStorageMode;
+    private readonly mediaBucket?: string;
+    private readonly authOptions?: SupabaseAuthOptions;
+    private signingIn?: Promise<void>;
     private rowId?: string;
+    private readonly upsertRow: boolean;
+    private nextTrialIndex: number = 0;
     private numberOfOperations: number = 0;
     private initialized: boolean = false;
-    private pendingTrials: TrialData[] = [];
+    /** Trial row inserts, chained so that each one numbers its trials after the previous one */
+    private trialInserts: Promise<void> = Promise.resolve();
+    private readonly projectUrl: string;
 
     /**
      * Creates a new SupabaseManager instance
@@ -59,15 +113,26 @@ export class SupabaseManager extends DataManager {
         supabaseConfig: SupabaseConfig,
         options: SupabaseManagerOptions = {}
     ) {
-        super(options.metadata);
+        super(options.metadata, options, `${supabaseConfig.url}/${options.tableName || "experiments"}`);
         
-        this.supabase = createClient(supabaseConfig.url, supabaseConfig.anonKey);
+        const auth = options.auth;
+        this.authOptions = auth;
+        this.projectUrl = supabaseConfig.url;
+        // Third-party tokens are sent with every request instead of a Supabase Auth session
+        this.supabase = auth?.method === 'jwt'
+            ? createClient(supabaseConfig.url, supabaseConfig.anonKey, { accessToken: () => resolveToken(auth.token) })
+            : createClient(supabaseConfig.url, supabaseConfig.anonKey);
         this.tableName = options.tableName || "experiments";
-        this.rowId = options.rowId;
+        this.trialsTableName = options.trialsTableName || getDefaultTrialsTableName(this.tableName);
+        this.assignmentsTableName = options.assignmentsTableName || getDefaultAssignmentsTableName(this.tableName);
+        this.storageMode = options.storageMode || "column";
+        this.mediaBucket = options.media ? options.mediaBucket || "jspsych-media" : undefined;
+        const participantRowId = options.rowId ? undefined : this.getParticipantSessionId();
+        this.rowId = options.rowId || participantRowId;
+        // A row keyed by participant ID may not exist yet, so it is upserted on initialization
+        this.upsertRow = !!participantRowId;
         
-        // If row ID is provided in options, mark as initialized
         if (this.rowId) {
-            this.initialized = true;
             console.log(`[SupabaseManager] Using provided row ID: ${this.rowId}`);
         }
     }
@@ -78,20 +143,27 @@ export class SupabaseManager extends DataManager {
      * @throws {Error} If initialization fails
      */
     public async initializeExperiment(additionalData: Partial<ExperimentData> = {}): Promise<void> {
+        await this.signIn();
+        await this.checkDuplicateSession();
+
         try {
-            // If already initialized with a rowId from constructor, just update the record
-            if (this.initialized && this.rowId) {
+            // With a row ID from the options (or from an earlier initialization), just update the record
+            if (this.rowId) {
                 console.log(`[SupabaseManager] Updating existing row with ID: ${this.rowId}`);
-                const initialData: Partial<ExperimentData> = {
+                const initialData: Partial<ExperimentData> = await this.encryptMetadata({
                     ...this.metadata,
                     ...additionalData,
                     updated_at: new Date().toISOString()
-                };
+                });
                 
-                const { error } = await this.supabase
-                    .from(this.tableName)
-                    .update(initialData)
-                    .eq('id', this.rowId);
+                const { error } = this.upsertRow
+                    ? await this.supabase
+                        .from(this.tableName)
+                        .upsert({ id: this.rowId, ...initialData })
+                    : await this.supabase
+                        .from(this.tableName)
+                        .update(initialData)
+                        .eq('id', this.rowId);
                 
                 if (error) {
                     this.handleRlsError(error);
@@ -99,16 +171,29 @@ export class SupabaseManager extends DataManager {
                 }
                 
                 this.numberOfOperations++;
+
+                // An existing row keeps the trials of earlier attempts; continue numbering after them
+                if (this.storageMode === 'rows') {
+                    this.nextTrialIndex = await this.countTrialRows(this.rowId);
+                }
                 console.log("[SupabaseManager] Data successfully updated!");
+                this.initialized = true;
+                this.trackSessionStart(this.rowId);
+                this.startWriteQueue();
                 return;
             }
             
             // Create new record
-            const initialData: ExperimentData = {
+            const initialData: Partial<ExperimentData> = await this.encryptMetadata({
                 ...this.metadata,
                 trials: [],
                 ...additionalData
-            };
+            });
+
+            // In rows mode, trials live in their own table
+            if (this.storageMode === 'rows') {
+                delete initialData.trials;
+            }
 
             // Insert new row
             const { data, error } = await this.supabase
@@ -126,19 +211,6 @@ export class SupabaseManager extends DataManager {
                 this.rowId = data[0].id;
                 this.initialized = true;
                 console.log(`[SupabaseManager] Row created with ID: ${this.rowId}`);
-                
-                // Process any pending trials
-                if (this.pendingTrials.length > 0) {
-                    console.log(`[SupabaseManager] Processing ${this.pendingTrials.length} pending trials...`);
-                    const trials = [...this.pendingTrials];
-                    this.pendingTrials = [];
-                    
-                    for (const trial of trials) {
-                        await this.addTrialData(trial).catch(e => {
-                            console.error("[SupabaseManager] Error processing pending trial:", e);
-                        });
-                    }
-                }
             } else {
                 console.error("[SupabaseManager] No row ID returned from insert operation");
                 throw new Error("Failed to get row ID from insert operation");
@@ -146,6 +218,8 @@ export class SupabaseManager extends DataManager {
             
             this.numberOfOperations++;
             console.log("[SupabaseManager] Data successfully initialized!");
+            this.trackSessionStart(this.rowId!);
+            this.startWriteQueue();
         } catch (error) {
             console.error("[SupabaseManager] Error initializing data:", error);
             throw new Error("Failed to initialize experiment data: " + (error instanceof Error ? error.message : String(error)));
@@ -158,48 +232,50 @@ export class SupabaseManager extends DataManager {
      * @throws {Error} If storing the trial fails
      */
     public async addTrialData(trialData: TrialData): Promise<void> {
-        // If not initialized yet, store trials for later processing
-        if (!this.initialized) {
-            console.log("[SupabaseManager] Not initialized yet, storing trial for later processing");
-            this.pendingTrials.push(trialData);
-            return;
-        }
-        
-        if (!this.rowId) {
-            console.log("[SupabaseManager] No row ID available, storing trial for later processing");
-            this.pendingTrials.push(trialData);
-            this.initialized = false; // Force reinitialization
-            await this.initializeExperiment(); // Try to initialize again
-            return;
+        await this.addTrialBatch([trialData]);
+    }
+
+    /**
+     * Adds several trials to the experiment data with a single read and update
+     * @param trials The trials to add, in order
+     * @throws {Error} If the experiment has not been initialized or storing the trials fails
+     */
+    public async addTrialBatch(trials: TrialData[]): Promise<void> {
+        if (!this.initialized || !this.rowId) {
+            throw new Error("Failed to store trial data: experiment has not been initialized");
         }
-        
+
+        const encodedTrials = trials.map(trial => this.encodeTrial(trial));
+
         try {
+            if (this.storageMode === 'rows') {
+                await this.insertTrialRows(this.rowId, encodedTrials);
+                return;
+            }
+
+            if (await this.appendTrials(this.rowId, encodedTrials)) {
+                console.log("[SupabaseManager] Added trial data:", trials);
+                return;
+            }
+
             // Get the current experiment data
             const { data: currentData, error: fetchError } = await this.supabase
                 .from(this.tableName)
                 .select('trials')
                 .eq('id', this.rowId)
                 .single();
+            this.numberOfOperations++;
 
             if (fetchError) {
                 console.error("[SupabaseManager] Error fetching current data:", fetchError);
                 this.handleRlsError(fetchError);
-                
-                // If the row doesn't exist, we need to reinitialize
-                if (fetchError.code === 'PGRST116') {
-                    console.log("[SupabaseManager] Row not found, attempting to reinitialize...");
-                    this.initialized = false;
-                    this.rowId = undefined;
-                    this.pendingTrials.push(trialData);
-                    await this.initializeExperiment();
-                    return;
-                }
-                
-                throw fetchError;
+
+                // PGRST116: no row; a new row would split the session, so the write fails and is retried instead
+                throw fetchError.code === 'PGRST116' ? new Error(`Row ${this.rowId} not found`) : fetchError;
             }
 
-            // Add the new trial to the trials array
-            const updatedTrials = [...(currentData?.trials || []), trialData];
+            // Add the new trials to the trials array
+            const updatedTrials = [...(currentData?.trials || []), ...encodedTrials];
 
             // Update the document with the new trials array
             const { error: updateError } = await this.supabase
@@ -217,20 +293,9 @@ export class SupabaseManager extends DataManager {
             }
 
             this.numberOfOperations++;
-            console.log("[SupabaseManager] Added trial data:", trialData);
+            console.log("[SupabaseManager] Added trial data:", trials);
         } catch (error) {
             console.error("[SupabaseManager] Error storing trial data:", error);
-            
-            // If the error is related to the row not existing, store the trial and try to reinitialize
-            if (error instanceof Error && error.message.includes('not found')) {
-                console.log("[SupabaseManager] Row not found, attempting to reinitialize...");
-                this.initialized = false;
-                this.rowId = undefined;
-                this.pendingTrials.push(trialData);
-                await this.initializeExperiment();
-                return;
-            }
-            
             throw new Error("Failed to store trial data: " + (error instanceof Error ? error.message : String(error)));
         }
     }
@@ -243,36 +308,18 @@ export class SupabaseManager extends DataManager {
         return this.numberOfOperations;
     }
 
-    /**
-     * Creates a callback function for jsPsych's on_data_update event
-     * @returns A function that handles trial data updates
-     */
-    public createDataUpdateCallback(): (data: TrialData) => TrialData {
-        return (data: TrialData) => {
-            if (data.no_upload) {
-                delete data.no_upload;
-                return data;
-            }
-            
-            this.addTrialData(data).catch(error => {
-                console.error("[SupabaseManager] Error in data update callback:", error);
-            });
-            
-            return data;
-        };
-    }
-
     /**
      * Creates a callback function for jsPsych's on_finish event
      * @returns A function that handles experiment completion
      */
-    public createFinishCallback(): () => void {
-        return () => {
+    public createFinishCallback(): () => Promise<void> {
+        return async () => {
+            await this.completeSession();
             console.log("[SupabaseManager] Total operations performed:", this.getNumberOfOperations());
-            
-            // Report any pending trials that weren't processed
-            if (this.pendingTrials.length > 0) {
-                console.warn(`[SupabaseManager] Warning: ${this.pendingTrials.length} trials were not processed`);
+
+            const { failed } = this.getQueueStatus();
+            if (failed > 0) {
+                console.warn(`[SupabaseManager] Warning: ${failed} trials failed in the write queue`);
             }
         };
     }
@@ -284,7 +331,622 @@ export class SupabaseManager extends DataManager {
     public isInitialized(): boolean {
         return this.initialized && !!this.rowId;
     }
-    
+
+    /**
+     * Gets the ID of the session row
+     * @returns The row ID, or undefined before initialization unless it was passed in the options
+     */
+    public getRowId(): string | undefined {
+        return this.rowId;
+    }
+
+    /**
+     * Gets the SQL migration (tables and RLS policies) matching this manager's configuration
+     * @returns The SQL migration text
+     */
+    public getMigrationSql(): string {
+        return getSupabaseMigrationSql(this.getSchemaOptions());
+    }
+
+    /**
+     * Gets the ID of the signed-in user
+     * @returns The user ID, or undefined without the `auth` option or before signing in
+     */
+    public getAuthUid(): string | undefined {
+        return this.metadata.auth_uid;
+    }
+
+    /**
+     * Reads a session row, with decoded trials in order
+     * @param sessionId The row ID
+     * @returns The session, or undefined if the row does not exist
+     * @throws {Error} If reading fails, e.g. because the policies do not allow it
+     */
+    public async getSession(sessionId: string): Promise<ExperimentData | undefined> {
+        await this.signIn();
+
+        const { data, error } = await this.supabase
+            .from(this.tableName)
+            .select('*')
+            .eq('id', sessionId)
+            .maybeSingle();
+        this.numberOfOperations++;
+
+        if (error) {
+            throw new Error(`Failed to read session ${sessionId}: ${error.message}`);
+        }
+        if (!data) {
+            return undefined;
+        }
+
+        const { id, ...row } = data;
+        return this.readSession(String(id), row, true);
+    }
+
+    /**
+     * Reads the session rows that match a query, with decoded trials in order
+     *
+     * Sessions are ordered by creation time. Metadata fields in `where` need
+     * matching columns.
+     * @param sessionQuery Metadata fields, date range, status and page to select (default: all sessions)
+     * @returns The matching sessions of the page
+     * @throws {Error} If reading fails, e.g. because the policies do not allow it
+     */
+    public async listSessions(sessionQuery: SessionQuery = {}): Promise<StoredSession[]> {
+        await this.signIn();
+
+        const rows = await this.fetchRows(
+            (from, to) => this.selectSessions(sessionQuery).order('created_at').order('id').range(from, to),
+            sessionQuery.offset ?? 0,
+            sessionQuery.limit,
+            "Failed to list sessions"
+        );
+
+        return Promise.all(rows.map(async ({ id, ...row }) => ({
+            id: String(id),
+            data: await this.readSession(String(id), row, sessionQuery.includeTrials ?? true)
+        })));
+    }
+
+    /**
+     * Counts the session rows that match a query
+     * @param sessionQuery Metadata fields, date range and status to select; the page is ignored
+     * @returns The number of matching sessions
+     * @throws {Error} If counting fails, e.g. because the policies do not allow it
+     */
+    public async countSessions(sessionQuery: SessionQuery = {}): Promise<number> {
+        await this.signIn();
+
+        const { count, error } = await this.selectSessions(sessionQuery, true);
+        this.numberOfOperations++;
+
+        if (error) {
+            throw new Error(`Failed to count sessions: ${error.message}`);
+        }
+        return count ?? 0;
+    }
+
+    /**
+     * Writes lifecycle fields to the session row
+     * @param fields The fields to set
+     * @throws The Supabase error if the update fails
+     */
+    protected async updateSession(fields: Partial<ExperimentData>): Promise<void> {
+        if (!this.rowId) {
+            return;
+        }
+
+        const { error } = await this.supabase
+            .from(this.tableName)
+            .update({
+                ...fields,
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', this.rowId);
+        this.numberOfOperations++;
+
+        if (error) {
+            this.handleRlsError(error);
+            throw error;
+        }
+    }
+
+    /**
+     * Points the manager at an existing session row
+     * @param sessionId The row ID
+     * @throws {Error} If the row cannot be found
+     */
+    protected async restoreSession(sessionId: string): Promise<void> {
+        await this.signIn();
+        const { error } = await this.supabase
+            .from(this.tableName)
+            .select('id')
+            .eq('id', sessionId)
+            .single();
+        this.numberOfOperations++;
+
+        if (error) {
+            this.handleRlsError(error);
+            throw new Error(`Failed to resume session: row ${sessionId} not found`);
+        }
+
+        // Continue numbering after the trial rows that were already written
+        if (this.storageMode === 'rows') {
+            this.nextTrialIndex = await this.countTrialRows(sessionId).catch(error => {
+                throw new Error("Failed to resume session: " + error.message);
+            });
+        }
+
+        this.rowId = sessionId;
+        this.initialized = true;
+        console.log(`[SupabaseManager] Resuming row with ID: ${sessionId}`);
+    }
+
+    /**
+     * Claims the least-filled slot of a condition assignment counter
+     *
+     * The counter row is updated with a compare-and-swap on its version, so
+     * concurrent participants never claim from the same counter state. A new
+     * counter starts from the number of completed sessions per slot.
+     * @param request The counter name, number of slots and index field
+     * @returns The index of the claimed slot
+     * @throws {Error} If the counter cannot be updated
+     */
+    protected async claimAssignmentSlot(request: AssignmentSlotRequest): Promise<number> {
+        await this.signIn();
+        let slot = 0;
+        await this.updateAssignmentCounter(request.name, () => this.countCompletedSessions(request), counter => {
+            slot = pickLeastFilledSlot(counter, request.slotCount);
+            return { ...counter, assigned: incrementSlot(counter.assigned, slot, request.slotCount) };
+        });
+        return slot;
+    }
+
+    /**
+     * Counts a slot of a condition assignment counter as completed
+     * @param name Name of the counter
+     * @param slot Index of the slot
+     * @throws {Error} If the counter cannot be updated
+     */
+    protected async completeAssignmentSlot(name: string, slot: number): Promise<void> {
+        await this.updateAssignmentCounter(name, async () => [], counter => ({
+            ...counter,
+            completed: incrementSlot(counter.completed, slot, slot + 1)
+        }));
+    }
+
+    /**
+     * Uploads one media file to Supabase Storage
+     *
+     * Supabase reports no intermediate progress, so progress is reported once
+     * the file is stored. A file that already exists counts as uploaded, as
+     * it was stored by an earlier attempt.
+     * @param upload The file to upload
+     * @param onProgress Reports the number of bytes uploaded so far
+     * @throws {Error} If the upload fails
+     */
+    protected async uploadMedia(upload: MediaUpload, onProgress: (loaded: number, total: number) => void): Promise<void> {
+        await this.signIn();
+        const { error } = await this.supabase.storage
+            .from(this.mediaBucket || "jspsych-media")
+            .upload(upload.path, upload.blob, { contentType: upload.contentType, upsert: false });
+
+        if (error && !/already exists|duplicate/i.test(error.message)) {
+            console.error(`[SupabaseManager] Error uploading ${upload.path}:`, error);
+            throw new Error(`Failed to upload ${upload.path}`);
+        }
+
+        onProgress(upload.blob.size, upload.blob.size);
+    }
+
+    /**
+     * Updates a counter row with optimistic concurrency, retrying on conflicts
+     * @param name Name of the counter
+     * @param seed Gets the completed counts for a counter that does not exist yet
+     * @param update Computes the new counter from the current one
+     * @throws {Error} If the counter cannot be updated
+     */
+    private async updateAssignmentCounter(
+        name: string,
+        seed: () => Promise<number[]>,
+        update: (counter: AssignmentCounter) => AssignmentCounter
+    ): Promise<void> {
+        for (let attempt = 0; attempt < 10; attempt++) {
+            const { data: row, error } = await this.supabase
+                .from(this.assignmentsTableName)
+                .select('*')
+                .eq('name', name)
+                .maybeSingle();
+            this.numberOfOperations++;
+
+            if (error) {
+                this.handleRlsError(error);
+                throw new Error("Failed to read assignment counter: " + error.message);
+            }
+
+            if (!row) {
+                const counter = update({ assigned: [], completed: await seed() });
+                const { error: insertError } = await this.supabase
+                    .from(this.assignmentsTableName)
+                    .insert({ name, ...counter, version: 1 });
+                this.numberOfOperations++;
+
+                // Another participant created the counter first
+                if (insertError?.code === '23505') {
+                    continue;
+                }
+                if (insertError) {
+                    this.handleRlsError(insertError);
+                    throw new Error("Failed to create assignment counter: " + insertError.message);
+                }
+                return;
+            }
+
+            const counter = update({ assigned: row.assigned || [], completed: row.completed || [] });
+            const { data: updated, error: updateError } = await this.supabase
+                .from(this.assignmentsTableName)
+                .update({ ...counter, version: row.version + 1 })
+                .eq('name', name)
+                .eq('version', row.version)
+                .select('name');
+            this.numberOfOperations++;
+
+            if (updateError) {
+                this.handleRlsError(updateError);
+                throw new Error("Failed to update assignment counter: " + updateError.message);
+            }
+            if (updated && updated.length > 0) {
+                return;
+            }
+        }
+
+        throw new Error(`Failed to update assignment counter "${name}": too many concurrent updates`);
+    }
+
+    /**
+     * Finds session rows with a participant ID
+     * @param participantId The stored participant_id value
+     * @returns IDs of the matching rows
+     * @throws {Error} If the query fails, e.g. because the participant_id column is missing
+     */
+    protected async findParticipantSessions(participantId: string): Promise<string[]> {
+        const { data, error } = await this.supabase
+            .from(this.tableName)
+            .select('id')
+            .eq('participant_id', participantId);
+        this.numberOfOperations++;
+
+        if (error) {
+            throw new Error(`Failed to look for sessions of the participant: ${error.message}`);
+        }
+        return (data || []).map(row => String(row.id));
+    }
+
+    /**
+     * Counts the completed sessions in each slot, to start a new counter
+     * @param request The counter name, number of slots and index field
+     * @returns The number of completed sessions per slot
+     */
+    private async countCompletedSessions(request: AssignmentSlotRequest): Promise<number[]> {
+        const counts: number[] = [];
+
+        for (let slot = 0; slot < request.slotCount; slot++) {
+            const { count, error } = await this.supabase
+                .from(this.tableName)
+                .select('*', { count: 'exact', head: true })
+                .eq(request.indexField, slot)
+                .eq('status', 'completed');
+            this.numberOfOperations++;
+
+            if (error) {
+                console.warn("[SupabaseManager] Could not count completed sessions, starting the counter at zero:", error.message);
+                return [];
+            }
+            counts.push(count ?? 0);
+        }
+
+        return counts;
+    }
+
+    /**
+     * Counts the trial rows of a session ("rows" mode)
+     * @param sessionId The ID of the session row
+     * @returns The number of trial rows
+     * @throws The Supabase error if counting fails
+     */
+    private async countTrialRows(sessionId: string): Promise<number> {
+        const { count, error } = await this.supabase
+            .from(this.trialsTableName)
+            .select('*', { count: 'exact', head: true })
+            .eq('session_id', sessionId);
+        this.numberOfOperations++;
+
+        if (error) {
+            this.handleRlsError(error);
+            throw error;
+        }
+        return count ?? 0;
+    }
+
+    /**
+     * Inserts trials as rows of the trials table ("rows" mode)
+     *
+     * Inserts run one after another, as concurrent inserts (e.g. addTrialData
+     * next to the write queue) would otherwise number their trials from the
+     * same index.
+     * @param sessionId The ID of the session row the trials belong to
+     * @param trials The trials to insert, in order
+     * @returns A promise that resolves once the trials are inserted
+     */
+    private insertTrialRows(sessionId: string, trials: TrialData[]): Promise<void> {
+        const insert = this.trialInserts.then(() => this.commitTrialRows(sessionId, trials));
+        this.trialInserts = insert.catch(() => {});
+        return insert;
+    }
+
+    /**
+     * Inserts trial rows from the next trial index
+     *
+     * The index only advances once the insert succeeded, so a failed insert
+     * is retried with the same indices, and the unique index on
+     * `(session_id, trial_index)` keeps trials that were stored anyway from
+     * being stored twice.
+     * @param sessionId The ID of the session row the trials belong to
+     * @param trials The trials to insert, in order
+     * @throws The Supabase error if the insert fails
+     */
+    private async commitTrialRows(sessionId: string, trials: TrialData[]): Promise<void> {
+        const rows = trials.map((trial, i) => ({
+            session_id: sessionId,
+            trial_index: this.nextTrialIndex + i,
+            data: trial
+        }));
+
+        // Rows stored by an earlier attempt whose response was lost are skipped
+        const { error } = await this.supabase
+            .from(this.trialsTableName)
+            .upsert(rows, { onConflict: 'session_id,trial_index', ignoreDuplicates: true });
+        this.numberOfOperations++;
+
+        if (error) {
+            console.error("[SupabaseManager] Error inserting trial rows:", error);
+            this.handleRlsError(error);
+            throw error;
+        }
+
+        this.nextTrialIndex += trials.length;
+        console.log("[SupabaseManager] Added trial data:", trials);
+    }
+
+    /**
+     * Appends trials to the `trials` column with the append function of the migration
+     *
+     * Unlike reading and updating the column, this does not send all earlier
+     * trials of the session back and forth on every write. Whether the
+     * function exists is found out by the first call and cached for the
+     * page, so without it no write makes the call again; writes that start
+     * while the first call is running wait for its answer.
+     * @param sessionId The ID of the session row
+     * @param trials The encoded trials to append, in order
+     * @returns False if the database has no append function
+     * @throws {Error} If the row does not exist
+     * @throws The Supabase error if the call fails otherwise
+     */
+    private async appendTrials(sessionId: string, trials: TrialData[]): Promise<boolean> {
+        const functionName = getAppendTrialsFunctionName(this.tableName);
+        const supportKey = `${this.projectUrl}|${functionName}`;
+        const support = appendFunctionSupport.get(supportKey);
+        if (support && !(await support)) {
+            return false;
+        }
+
+        let settleSupport: ((available: boolean) => void) | undefined;
+        if (!support) {
+            appendFunctionSupport.set(supportKey, new Promise(resolve => settleSupport = resolve));
+        }
+
+        const { data: updatedRows, error } = await this.supabase
+            .rpc(functionName, { session_id: sessionId, new_trials: trials });
+        this.numberOfOperations++;
+
+        // PGRST202: the function is not in the schema cache, i.e. an older migration
+        if (error?.code === 'PGRST202') {
+            console.warn(
+                "[SupabaseManager] The append function is missing, so every write reads and rewrites the whole trials column. " +
+                "Run the SQL from getMigrationSql() again to add it."
+            );
+            settleSupport?.(false);
+            appendFunctionSupport.set(supportKey, Promise.resolve(false));
+            return false;
+        }
+
+        if (error) {
+            // The function may still exist, so the next write asks again
+            if (settleSupport) {
+                appendFunctionSupport.delete(supportKey);
+                settleSupport(true);
+            }
+            console.error("[SupabaseManager] Error appending trials:", error);
+            this.handleRlsError(error);
+            throw error;
+        }
+
+        settleSupport?.(true);
+        if (updatedRows === 0) {
+            throw new Error(`Row ${sessionId} not found`);
+        }
+
+        return true;
+    }
+
+    /**
+     * Builds a query for the session rows that match the criteria of a session query
+     * @param sessionQuery The query; its page is ignored
+     * @param count Only count the rows instead of selecting them (default: false)
+     * @returns The query
+     */
+    private selectSessions(sessionQuery: SessionQuery, count: boolean = false) {
+        let builder = this.supabase
+            .from(this.tableName)
+            .select('*', count ? { count: 'exact', head: true } : undefined);
+
+        if (sessionQuery.version !== undefined) {
+            builder = builder.eq('version', sessionQuery.version);
+        }
+        if (sessionQuery.status !== undefined) {
+            builder = builder.eq('status', sessionQuery.status);
+        }
+        if (sessionQuery.since !== undefined) {
+            builder = builder.gte('date', sessionQuery.since);
+        }
+        if (sessionQuery.until !== undefined) {
+            builder = builder.lte('date', sessionQuery.until);
+        }
+        for (const [field, value] of Object.entries(sessionQuery.where ?? {})) {
+            builder = value === null ? builder.is(field, null) : builder.eq(field, value);
+        }
+
+        return builder;
+    }
+
+    /**
+     * Reads rows page by page, as the Supabase API returns at most 1000 rows per request
+     * @param request Requests the rows in the range from..to (inclusive)
+     * @param offset Index of the first row
+     * @param limit Maximum number of rows (default: all)
+     * @param failure Start of the error message if a request fails
+     * @returns The rows
+     * @throws {Error} If a request fails
+     */
+    private async fetchRows(
+        request: (from: number, to: number) => PromiseLike<{ data: Record<string, any>[] | null; error: { message: string } | null }>,
+        offset: number,
+        limit: number | undefined,
+        failure: string
+    ): Promise<Record<string, any>[]> {
+        const rows: Record<string, any>[] = [];
+        const end = limit === undefined ? Infinity : offset + limit;
+
+        for (let from = offset; from < end; from += PAGE_SIZE) {
+            const to = Math.min(from + PAGE_SIZE, end) - 1;
+            const { data, error } = await request(from, to);
+            this.numberOfOperations++;
+
+            if (error) {
+                throw new Error(`${failure}: ${error.message}`);
+            }
+            rows.push(...data ?? []);
+            if (!data || data.length < to - from + 1) {
+                break;
+            }
+        }
+
+        return rows;
+    }
+
+    /**
+     * Completes and decodes a stored session row
+     * @param sessionId The row ID
+     * @param row The row without its ID
+     * @param includeTrials Whether to read the trials; in "rows" mode this reads the trials table
+     * @returns The session with decoded trials
+     * @throws {Error} If reading the trials fails
+     */
+    private async readSession(sessionId: string, row: Partial<ExperimentData>, includeTrials: boolean): Promise<ExperimentData> {
+        if (!includeTrials) {
+            return { ...row, trials: [] } as ExperimentData;
+        }
+
+        // Trials stamped by the `integrity` option get the row's creation time as server timestamp
+        const trials: TrialData[] = this.storageMode === 'rows'
+            ? (await this.fetchRows(
+                (from, to) => this.supabase
+                    .from(this.trialsTableName)
+                    .select('*')
+                    .eq('session_id', sessionId)
+                    .order('trial_index')
+                    .range(from, to),
+                0,
+                undefined,
+                `Failed to read the trials of session ${sessionId}`
+            )).map(trialRow => '_sequence' in trialRow.data
+                ? { ...trialRow.data, _server_time: trialRow.created_at }
+                : trialRow.data)
+            : row.trials || [];
+
+        const data = { ...row, trials } as ExperimentData;
+        return this.codec ? decodeExperimentData(data, this.codec) : data;
+    }
+
+    /**
+     * Gets the schema options matching this manager's configuration
+     * @returns Table names, storage mode, media bucket and policy style
+     */
+    private getSchemaOptions(): SupabaseSchemaOptions {
+        return {
+            tableName: this.tableName,
+            trialsTableName: this.trialsTableName,
+            storageMode: this.storageMode,
+            assignmentsTableName: this.assignmentsTableName,
+            mediaBucket: this.mediaBucket,
+            ownerOnly: !!this.authOptions
+        };
+    }
+
+    /**
+     * Signs in once with the configured method and records the user ID
+     * @throws {Error} If signing in fails; the next request tries again
+     */
+    private async signIn(): Promise<void> {
+        if (!this.authOptions) {
+            return;
+        }
+
+        if (!this.signingIn) {
+            this.signingIn = this.authenticate(this.authOptions).catch(error => {
+                this.signingIn = undefined;
+                throw error;
+            });
+        }
+        await this.signingIn;
+    }
+
+    /**
+     * Signs in to Supabase Auth, or reads the user ID from the configured JWT
+     * @param options The sign-in method
+     * @throws {Error} If signing in fails
+     */
+    private async authenticate(options: SupabaseAuthOptions): Promise<void> {
+        let uid: string | undefined;
+
+        try {
+            if (options.method === 'jwt') {
+                uid = getTokenSubject(await resolveToken(options.token));
+            } else {
+                const { data } = await this.supabase.auth.getSession();
+                uid = data.session?.user.id;
+
+                if (!uid) {
+                    const { data: signInData, error } = await this.supabase.auth.signInAnonymously();
+                    if (error) {
+                        throw error;
+                    }
+                    uid = signInData.user?.id;
+                }
+            }
+        } catch (error) {
+            console.error("[SupabaseManager] Error signing in:", error);
+            throw new Error("Failed to sign in to Supabase");
+        }
+
+        if (!uid) {
+            throw new Error("Failed to sign in to Supabase: no user ID");
+        }
+
+        this.metadata.auth_uid = uid;
+        console.log(`[SupabaseManager] Signed in as ${uid}`);
+    }
+
     /**
      * Handles RLS policy error by providing helpful information on how to fix it
      * @param error The error object from Supabase
@@ -297,28 +959,37 @@ export class SupabaseManager extends DataManager {
 ROW LEVEL SECURITY POLICY VIOLATION DETECTED
 
 This error occurs because you don't have the proper RLS policies 
-set up for your Supabase table "${this.tableName}".
-
-To fix this, follow these steps:
-1. Go to your Supabase dashboard
-2. Navigate to "Authentication" → "Policies"
-3. Find your "${this.tableName}" table
-4. Add the following policies:
-
-- For INSERT:
-  * Create a new policy named "Enable inserts for all users"
-  * Choose "INSERT" for the operation
-  * Set USING expression to "true"
-  
-- For SELECT:
-  * Create a new policy named "Enable select for all users"
-  * Choose "SELECT" for the operation
-  * Set USING expression to "true"
-
-You may also need policies for UPDATE and DELETE operations 
-if your application needs to perform these actions.
+set up for your Supabase table "${this.tableName}"${this.storageMode === 'rows' ? ` or "${this.trialsTableName}"` : ''}.
+
+To fix this, open the SQL editor in your Supabase dashboard
+and run the following statements:
+
+${getSupabasePolicySql(this.getSchemaOptions())}
+
+The full migration, including the tables, is available from
+SupabaseManager.getMigrationSql().
 =================================================================
             `);
         }
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Gets a token that is given directly or by a function
+ * @param token The token or a function returning it
+ * @returns The token
+ */
+async function resolveToken(token: string | (() => string | Promise<string>)): Promise<string> {
+    return typeof token === 'function' ? token() : token;
+}
+
+/**
+ * Reads the subject (user ID) of a JWT without verifying it
+ * @param token The JWT
+ * @returns The `sub` claim, or undefined if the token has none
+ */
+function getTokenSubject(token: string): string | undefined {
+    const payload = token.split('.')[1] ?? '';
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='))).sub;
+}
@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getConformanceTests } from '@jspsych-datamanager/core';
+import { getAppendTrialsFunctionName, SupabaseManager, SupabaseStorageMode } from '../src';
+import { PostgrestStandIn, startPostgrestStandIn } from './postgrest';
+
+let standIn: PostgrestStandIn;
+
+beforeAll(async () => {
+    standIn = await startPostgrestStandIn();
+});
+
+afterAll(async () => {
+    await standIn.close();
+});
+
+/**
+ * Registers the conformance tests for one configuration
+ * @param name Name of the configuration
+ * @param storageMode The storage mode
+ * @param appendFunction Whether the database has the append function of the migration
+ */
+function describeConformance(name: string, storageMode: SupabaseStorageMode, appendFunction: boolean): void {
+    describe(name, () => {
+        beforeAll(() => {
+            // The append function as defined by the migration: add the trials and return the number of updated rows
+            if (appendFunction) {
+                standIn.functions.set(getAppendTrialsFunctionName('experiments'), ({ session_id, new_trials }, tables) => {
+                    const row = tables.get('experiments')?.find(candidate => candidate.id === session_id);
+                    if (!row) {
+                        return 0;
+                    }
+                    row.trials = [...(row.trials ?? []), ...new_trials];
+                    return 1;
+                });
+            } else {
+                standIn.functions.clear();
+            }
+        });
+
+        for (const test of getConformanceTests(() => new SupabaseManager({ url: standIn.url, anonKey: 'anon-key' }, { storageMode }), {
+            readSession: manager => (manager as SupabaseManager).getSession((manager as SupabaseManager).getRowId()!)
+        })) {
+            it(test.name, test.run);
+        }
+
+        if (appendFunction) {
+            it('appends trials with the function', () => {
+                expect(standIn.requests.some(request => request.path.startsWith('/rest/v1/rpc/'))).toBe(true);
+            });
+        }
+    });
+}
+
+describe('SupabaseManager conformance on a PostgREST stand-in', () => {
+    describeConformance('column mode with the append function', 'column', true);
+    describeConformance('column mode without the append function', 'column', false);
+    describeConformance('rows mode', 'rows', false);
+});
@@ -0,0 +1,275 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * A database function the stand-in answers RPC calls with
+ */
+export type StandInFunction = (args: Record<string, any>, tables: Map<string, Record<string, any>[]>) => unknown;
+
+/**
+ * Interface for a running PostgREST stand-in
+ */
+export interface PostgrestStandIn {
+    /** Project URL to pass to SupabaseManager */
+    url: string;
+    /** Rows by table name */
+    tables: Map<string, Record<string, any>[]>;
+    /** Database functions by name; calls to other functions fail like a missing function */
+    functions: Map<string, StandInFunction>;
+    /** Method, path and Authorization header of every request, in order */
+    requests: { method: string; path: string; authorization?: string }[];
+    /** Number of upcoming inserts that are stored but answered with an error, like a response lost on the way back */
+    lostResponses: number;
+    /** Stops the server */
+    close: () => Promise<void>;
+}
+
+/**
+ * Starts an in-memory stand-in for the PostgREST API of a Supabase project
+ *
+ * Implements the subset SupabaseManager uses: select with `eq`, `is`,
+ * `gte` and `lte` filters, ordering, paging, exact counts and single-row
+ * responses; insert, upsert (on the primary key or the `on_conflict`
+ * columns, merging or ignoring duplicates) and update; and RPC calls. Tables
+ * are created on first insert. The primary key is `name` for `*_assignments`
+ * tables and `id` otherwise, generated as a number for `*_trials` tables and as a UUID
+ * for other tables.
+ * @returns The running stand-in
+ */
+export async function startPostgrestStandIn(): Promise<PostgrestStandIn> {
+    const tables = new Map<string, Record<string, any>[]>();
+    const functions = new Map<string, StandInFunction>();
+    const requests: { method: string; path: string; authorization?: string }[] = [];
+    let sequence = 0;
+
+    const server = createServer(async (request, response) => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        requests.push({ method: request.method ?? 'GET', path: url.pathname + url.search, authorization: request.headers['authorization'] });
+
+        try {
+            const body = await readBody(request);
+            const rpc = url.pathname.match(/^\/rest\/v1\/rpc\/(.+)$/);
+            if (rpc) {
+                const fn = functions.get(decodeURIComponent(rpc[1]));
+                if (!fn) {
+                    sendError(response, 404, 'PGRST202', `Could not find the function public.${rpc[1]} in the schema cache`);
+                    return;
+                }
+                sendJson(response, 200, fn(body ?? {}, tables));
+                return;
+            }
+
+            const match = url.pathname.match(/^\/rest\/v1\/([^/]+)$/);
+            if (!match) {
+                sendError(response, 404, 'PGRST125', `Invalid path ${url.pathname}`);
+                return;
+            }
+
+            const table = decodeURIComponent(match[1]);
+            const rows = tables.get(table) ?? [];
+            tables.set(table, rows);
+            const prefer = String(request.headers['prefer'] ?? '');
+            const primaryKey = table.endsWith('_assignments') ? 'name' : 'id';
+
+            switch (request.method) {
+                case 'GET':
+                case 'HEAD': {
+                    const matching = sortRows(rows.filter(row => matchesFilters(row, url.searchParams)), url.searchParams.get('order'));
+                    const offset = Number(url.searchParams.get('offset') ?? 0);
+                    const limit = url.searchParams.has('limit') ? Number(url.searchParams.get('limit')) : Infinity;
+                    const page = matching.slice(offset, offset + limit).map(row => selectColumns(row, url.searchParams.get('select')));
+
+                    if (prefer.includes('count=exact')) {
+                        response.setHeader('Content-Range', `${page.length > 0 ? `${offset}-${offset + page.length - 1}` : '*'}/${matching.length}`);
+                    }
+                    sendRows(request, response, 200, page);
+                    return;
+                }
+                case 'POST': {
+                    const inserted: Record<string, any>[] = [];
+                    const conflictColumns = url.searchParams.get('on_conflict')?.split(',');
+                    for (const values of Array.isArray(body) ? body : [body]) {
+                        const key = values[primaryKey] ?? (primaryKey === 'id' ? (table.endsWith('_trials') ? ++sequence : randomUUID()) : undefined);
+                        const existing = conflictColumns
+                            ? rows.find(row => conflictColumns.every(column => values[column] !== undefined && row[column] === values[column]))
+                            : rows.find(row => key !== undefined && row[primaryKey] === key);
+
+                        if (existing && prefer.includes('resolution=ignore-duplicates')) {
+                            continue;
+                        } else if (existing && prefer.includes('resolution=merge-duplicates')) {
+                            Object.assign(existing, values);
+                            inserted.push(existing);
+                        } else if (existing) {
+                            sendError(response, 409, '23505', `duplicate key value violates unique constraint "${table}_pkey"`);
+                            return;
+                        } else {
+                            const row = { ...values, [primaryKey]: key, created_at: new Date(Date.now() + ++sequence).toISOString() };
+                            rows.push(row);
+                            inserted.push(row);
+                        }
+                    }
+                    if (standIn.lostResponses > 0) {
+                        standIn.lostResponses--;
+                        sendError(response, 503, 'PGRST000', 'The response was lost');
+                        return;
+                    }
+                    sendRows(request, response, 201, prefer.includes('return=representation') ? inserted : undefined);
+                    return;
+                }
+                case 'PATCH': {
+                    const updated = rows.filter(row => matchesFilters(row, url.searchParams));
+                    updated.forEach(row => Object.assign(row, body));
+                    sendRows(request, response, prefer.includes('return=representation') ? 200 : 204, prefer.includes('return=representation')
+                        ? updated.map(row => selectColumns(row, url.searchParams.get('select')))
+                        : undefined);
+                    return;
+                }
+                default:
+                    sendError(response, 405, 'PGRST000', `Method ${request.method} is not supported by the stand-in`);
+            }
+        } catch (error) {
+            sendError(response, 500, 'PGRST000', error instanceof Error ? error.message : String(error));
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const standIn: PostgrestStandIn = {
+        url: `http://127.0.0.1:${port}`,
+        tables,
+        functions,
+        requests,
+        lostResponses: 0,
+        close: () => new Promise(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        })
+    };
+    return standIn;
+}
+
+/**
+ * Reads and parses a JSON request body
+ * @param request The request
+ * @returns The parsed body, or undefined if it is empty
+ */
+async function readBody(request: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Checks a row against the filters of a query string
+ * @param row The row
+ * @param params The query string; parameters that are not filters are ignored
+ * @returns True if the row matches every filter
+ */
+function matchesFilters(row: Record<string, any>, params: URLSearchParams): boolean {
+    for (const [column, filter] of params) {
+        if (['select', 'order', 'limit', 'offset', 'columns', 'on_conflict'].includes(column)) {
+            continue;
+        }
+
+        const [operator, ...rest] = filter.split('.');
+        const expected = rest.join('.');
+        const value = row[column];
+        const comparable = typeof value === 'number' ? Number(expected) : expected;
+
+        const matches = operator === 'is' ? (value ?? null) === null && expected === 'null'
+            : operator === 'eq' ? value !== undefined && value !== null && String(value) === expected
+            : operator === 'gte' ? value !== undefined && value !== null && value >= comparable
+            : operator === 'lte' ? value !== undefined && value !== null && value <= comparable
+            : false;
+        if (!matches) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Sorts rows by an `order` parameter such as "created_at.asc,id.asc"
+ * @param rows The rows
+ * @param order The order parameter, if any
+ * @returns The sorted rows
+ */
+function sortRows(rows: Record<string, any>[], order: string | null): Record<string, any>[] {
+    const keys = (order ?? '').split(',').filter(Boolean).map(part => {
+        const [column, direction] = part.split('.');
+        return { column, sign: direction === 'desc' ? -1 : 1 };
+    });
+
+    return [...rows].sort((a, b) => {
+        for (const { column, sign } of keys) {
+            if (a[column] !== b[column]) {
+                return (a[column] < b[column] ? -1 : 1) * sign;
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * Picks the columns of a `select` parameter from a row
+ * @param row The row
+ * @param select The select parameter, e.g. "*" or "id,trials"
+ * @returns A copy of the row with the selected columns
+ */
+function selectColumns(row: Record<string, any>, select: string | null): Record<string, any> {
+    if (!select || select === '*') {
+        return structuredClone(row);
+    }
+    return Object.fromEntries(select.split(',').map(column => [column, structuredClone(row[column])]));
+}
+
+/**
+ * Sends rows as an array, or as a single object if the client asked for one
+ * @param request The request
+ * @param response The response
+ * @param status The status code
+ * @param rows The rows, or undefined for an empty response
+ */
+function sendRows(request: IncomingMessage, response: ServerResponse, status: number, rows?: Record<string, any>[]): void {
+    if (rows && String(request.headers['accept'] ?? '').includes('application/vnd.pgrst.object+json')) {
+        if (rows.length !== 1) {
+            sendError(response, 406, 'PGRST116', 'JSON object requested, multiple (or no) rows returned', `The result contains ${rows.length} rows`);
+            return;
+        }
+        sendJson(response, status, rows[0]);
+        return;
+    }
+
+    if (rows === undefined || request.method === 'HEAD') {
+        response.writeHead(status === 200 && request.method !== 'HEAD' ? 204 : status).end();
+        return;
+    }
+    sendJson(response, status, rows);
+}
+
+/**
+ * Sends a JSON response
+ * @param response The response
+ * @param status The status code
+ * @param body The body
+ */
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body ?? null));
+}
+
+/**
+ * Sends an error in the PostgREST format
+ * @param response The response
+ * @param status The status code
+ * @param code The PostgREST or Postgres error code
+ * @param message The error message
+ * @param details Additional details (optional)
+ */
+function sendError(response: ServerResponse, status: number, code: string, message: string, details: string | null = null): void {
+    sendJson(response, status, { code, message, details, hint: null });
+}
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { SupabaseManager, SupabaseManagerOptions } from '../src';
+import { PostgrestStandIn, startPostgrestStandIn } from './postgrest';
+
+let standIn: PostgrestStandIn;
+
+beforeAll(async () => {
+    standIn = await startPostgrestStandIn();
+});
+
+afterAll(async () => {
+    await standIn.close();
+});
+
+/**
+ * Creates a manager for the stand-in
+ * @param options Additional options
+ * @returns The manager
+ */
+function createManager(options: SupabaseManagerOptions = {}): SupabaseManager {
+    return new SupabaseManager({ url: standIn.url, anonKey: 'anon-key' }, options);
+}
+
+describe('SupabaseManager with useParticipantIdAsSessionId', () => {
+    const recruitment = { platform: 'prolific' as const, search: '?PROLIFIC_PID=repeat-participant', useParticipantIdAsSessionId: true };
+
+    it('keeps the trials of an earlier attempt and continues numbering after them', async () => {
+        for (const attempt of [1, 2]) {
+            const manager = createManager({ storageMode: 'rows', recruitment });
+            await manager.initializeExperiment({ attempt });
+            await manager.addTrialBatch([{ trial_index: 0, response: `attempt ${attempt}` }]);
+        }
+
+        const session = await createManager({ storageMode: 'rows' }).getSession('repeat-participant');
+        expect(session?.attempt).toBe(2);
+        expect(session?.trials.map(trial => trial.response)).toEqual(['attempt 1', 'attempt 2']);
+        expect(standIn.tables.get('experiments_trials')!.map(row => row.trial_index)).toEqual([0, 1]);
+    });
+});
+
+describe('SupabaseManager in column mode', () => {
+    it('finds out once whether the append function exists', async () => {
+        const managers = [createManager(), createManager()];
+        for (const manager of managers) {
+            await manager.initializeExperiment({});
+        }
+
+        await Promise.all(managers.map(manager => manager.addTrialBatch([{ trial_index: 0 }])));
+        for (const manager of managers) {
+            await manager.addTrialBatch([{ trial_index: 1 }]);
+        }
+
+        expect(standIn.requests.filter(request => request.path.startsWith('/rest/v1/rpc/'))).toHaveLength(1);
+        for (const manager of managers) {
+            const session = await manager.getSession(manager.getRowId()!);
+            expect(session?.trials.map(trial => trial.trial_index)).toEqual([0, 1]);
+        }
+    });
+
+    it('fails a write to a missing row instead of creating a new session', async () => {
+        const manager = createManager({ rowId: 'deleted-row' });
+        await manager.initializeExperiment({});
+        const rowsBefore = standIn.tables.get('experiments')!.length;
+
+        await expect(manager.addTrialBatch([{ trial_index: 0 }])).rejects.toThrow('Row deleted-row not found');
+        expect(standIn.tables.get('experiments')).toHaveLength(rowsBefore);
+        expect(manager.getRowId()).toBe('deleted-row');
+    });
+});
+
+describe('SupabaseManager before initialization', () => {
+    it('rejects trials, so the write queue keeps them', async () => {
+        const manager = createManager({ rowId: 'not-yet-initialized' });
+
+        await expect(manager.addTrialBatch([{ trial_index: 0 }])).rejects.toThrow('experiment has not been initialized');
+        expect(manager.isInitialized()).toBe(false);
+        expect(standIn.requests.some(request => request.path.includes('not-yet-initialized'))).toBe(false);
+    });
+});
+
+describe('SupabaseManager in rows mode', () => {
+    it('numbers concurrent writes one after another', async () => {
+        const manager = createManager({ storageMode: 'rows' });
+        await manager.initializeExperiment({});
+
+        await Promise.all([
+            manager.addTrialBatch([{ trial_index: 0 }, { trial_index: 1 }]),
+            manager.addTrialData({ trial_index: 2 }),
+            manager.addTrialBatch([{ trial_index: 3 }, { trial_index: 4 }])
+        ]);
+
+        const rows = standIn.tables.get('experiments_trials')!.filter(row => row.session_id === manager.getRowId());
+        expect(rows.map(row => row.trial_index)).toEqual([0, 1, 2, 3, 4]);
+        expect(rows.map(row => row.data.trial_index)).toEqual([0, 1, 2, 3, 4]);
+    });
+    it('does not store trials twice when an insert is retried after its response was lost', async () => {
+        const manager = createManager({ storageMode: 'rows' });
+        await manager.initializeExperiment({});
+
+        standIn.lostResponses = 1;
+        await expect(manager.addTrialBatch([{ trial_index: 0 }, { trial_index: 1 }])).rejects.toThrow();
+        await manager.addTrialBatch([{ trial_index: 0 }, { trial_index: 1 }]);
+        await manager.addTrialData({ trial_index: 2 });
+
+        const rows = standIn.tables.get('experiments_trials')!.filter(row => row.session_id === manager.getRowId());
+        expect(rows.map(row => row.trial_index)).toEqual([0, 1, 2]);
+    });
+    it('continues numbering after the stored trials of a row from the options', async () => {
+        const first = createManager({ storageMode: 'rows' });
+        await first.initializeExperiment({});
+        await first.addTrialBatch([{ trial_index: 0 }, { trial_index: 1 }]);
+
+        const resumed = createManager({ storageMode: 'rows', rowId: first.getRowId() });
+        await resumed.initializeExperiment({});
+        await resumed.addTrialData({ trial_index: 2 });
+
+        const rows = standIn.tables.get('experiments_trials')!.filter(row => row.session_id === first.getRowId());
+        expect(rows.map(row => row.trial_index)).toEqual([0, 1, 2]);
+        expect(rows.map(row => row.data.trial_index)).toEqual([0, 1, 2]);
+    });
+});
+
+/**
+ * Creates an unsigned JWT, as the stand-in does not verify tokens
+ * @param claims The payload claims
+ * @returns The token
+ */
+function createToken(claims: Record<string, unknown>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+describe('SupabaseManager with JWT auth', () => {
+    it('sends the token and stores its subject as auth_uid', async () => {
+        const token = createToken({ sub: 'user-42', role: 'authenticated' });
+        const manager = createManager({ auth: { method: 'jwt', token: async () => token } });
+        const first = standIn.requests.length;
+
+        await manager.initializeExperiment({});
+        await manager.addTrialData({ trial_index: 0 });
+
+        expect(manager.getAuthUid()).toBe('user-42');
+        expect(standIn.tables.get('experiments')!.find(row => row.id === manager.getRowId())?.auth_uid).toBe('user-42');
+        const requests = standIn.requests.slice(first);
+        expect(requests.length).toBeGreaterThan(0);
+        expect(requests.every(request => request.authorization === `Bearer ${token}`)).toBe(true);
+    });
+
+    it('fails to initialize with a token without a subject', async () => {
+        const manager = createManager({ auth: { method: 'jwt', token: createToken({ role: 'authenticated' }) } });
+        await expect(manager.initializeExperiment({})).rejects.toThrow('Failed to sign in to Supabase');
+    });
+
+    it('generates owner-only policies', () => {
+        const sql = createManager({ storageMode: 'rows', auth: { method: 'jwt', token: createToken({ sub: 'user-42' }) } }).getMigrationSql();
+
+        expect(sql).toContain(`for insert to authenticated with check (auth_uid = (auth.jwt() ->> 'sub'))`);
+        expect(sql).toContain(`for select to authenticated using (auth_uid = (auth.jwt() ->> 'sub'))`);
+        expect(sql).not.toMatch(/to anon/);
+    });
+});
@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        // Test against the sources, so the packages need no build first
+        alias: {
+            '@jspsych-datamanager/core': fileURLToPath(new URL('./packages/core/src/index.ts', import.meta.url)),
+            '@jspsych-datamanager/firebase': fileURLToPath(new URL('./packages/firebase/src/index.ts', import.meta.url)),
+            '@jspsych-datamanager/supabase': fileURLToPath(new URL('./packages/supabase/src/index.ts', import.meta.url))
+        }
+    },
+    test: {
+        include: ['packages/*/test/**/*.test.ts'],
+        environment: 'node',
+        testTimeout: 20000,
+        // The managers log every write
+        silent: true
+    }
+});